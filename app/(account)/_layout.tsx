@@ -0,0 +1,20 @@
+import { Stack } from "expo-router";
+
+// Screens for managing a signed-in account; the root layout sends
+// signed-out users back to (auth)
+export default function AccountLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="change-password" />
+      <Stack.Screen name="edit-profile" />
+      <Stack.Screen name="failed-items" />
+      <Stack.Screen name="friends" />
+      <Stack.Screen name="team" />
+      <Stack.Screen name="custom-habits" />
+    </Stack>
+  );
+}
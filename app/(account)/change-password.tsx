@@ -0,0 +1,236 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useAuth } from "@/contexts/auth-context";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import * as Haptics from "expo-haptics";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+export default function ChangePasswordScreen() {
+  const router = useRouter();
+  const { changePassword } = useAuth();
+
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  // Theme colors
+  const backgroundColor = useThemeColor({}, "background");
+  const textColor = useThemeColor({}, "text");
+  const tintColor = useThemeColor({}, "tint");
+  const iconColor = useThemeColor({}, "icon");
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: textColor,
+      borderColor: iconColor,
+      backgroundColor: backgroundColor,
+    },
+  ];
+
+  const handleChangePassword = async () => {
+    if (!currentPassword || !newPassword) {
+      setError("Please fill in all fields");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    if (newPassword.length < 6) {
+      setError("Password must be at least 6 characters");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError("");
+
+      await changePassword(currentPassword, newPassword);
+
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        "Password changed",
+        "Your password has been updated. Other devices have been signed out.",
+        [{ text: "OK", onPress: () => router.back() }]
+      );
+    } catch (error: any) {
+      setError(error.message || "Failed to change password. Please try again.");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ThemedText type="title" style={styles.title}>
+          Change password
+        </ThemedText>
+
+        {/* Current Password Input */}
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.inputLabel}>Current Password</ThemedText>
+          <TextInput
+            style={inputStyle}
+            placeholder="••••••••"
+            placeholderTextColor={iconColor}
+            value={currentPassword}
+            onChangeText={setCurrentPassword}
+            secureTextEntry
+            editable={!isLoading}
+          />
+        </View>
+
+        {/* New Password Input */}
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.inputLabel}>New Password</ThemedText>
+          <TextInput
+            style={inputStyle}
+            placeholder="••••••••"
+            placeholderTextColor={iconColor}
+            value={newPassword}
+            onChangeText={setNewPassword}
+            secureTextEntry
+            editable={!isLoading}
+          />
+        </View>
+
+        {/* Confirm Password Input */}
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.inputLabel}>Confirm New Password</ThemedText>
+          <TextInput
+            style={inputStyle}
+            placeholder="••••••••"
+            placeholderTextColor={iconColor}
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            secureTextEntry
+            editable={!isLoading}
+          />
+        </View>
+
+        {/* Error Message */}
+        {error ? (
+          <View style={styles.errorContainer}>
+            <ThemedText style={styles.errorText}>{error}</ThemedText>
+          </View>
+        ) : null}
+
+        {/* Submit Button */}
+        <Pressable
+          style={[
+            styles.submitButton,
+            {
+              backgroundColor: tintColor,
+              opacity: isLoading ? 0.6 : 1,
+            },
+          ]}
+          onPress={handleChangePassword}
+          disabled={isLoading}
+          accessibilityRole="button"
+        >
+          {isLoading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <ThemedText style={styles.submitButtonText}>
+              Change Password
+            </ThemedText>
+          )}
+        </Pressable>
+
+        <Pressable
+          style={styles.linkContainer}
+          onPress={() => router.back()}
+          disabled={isLoading}
+        >
+          <ThemedText style={[styles.linkText, { color: iconColor }]}>
+            Cancel
+          </ThemedText>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: 24,
+  },
+  title: {
+    marginBottom: 32,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  errorContainer: {
+    backgroundColor: "#fee",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: "#c00",
+    fontSize: 14,
+  },
+  submitButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignItems: "center",
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  linkContainer: {
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,535 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import {
+  CUSTOM_HABIT_COLORS,
+  CUSTOM_HABIT_DAILY_CAPS,
+  CUSTOM_HABIT_TIERS,
+  CUSTOM_HABITS_DAILY_CAP,
+  customHabitService,
+  type CustomHabit,
+  type PointsTier,
+} from "@/services/custom-habit-service";
+import { syncService } from "@/services/sync-service";
+import * as Haptics from "expo-haptics";
+import { useRouter } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+const TIERS = Object.keys(CUSTOM_HABIT_TIERS) as PointsTier[];
+
+export default function CustomHabitsScreen() {
+  const router = useRouter();
+
+  const [habits, setHabits] = useState<CustomHabit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  // Form state; editingId is null while creating a new habit
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [emoji, setEmoji] = useState("");
+  const [color, setColor] = useState(CUSTOM_HABIT_COLORS[0]);
+  const [pointsTier, setPointsTier] = useState<PointsTier>("medium");
+  const [dailyCap, setDailyCap] = useState(CUSTOM_HABIT_DAILY_CAPS[1]);
+
+  // Theme colors
+  const tintColor = useThemeColor({}, "tint");
+  const iconColor = useThemeColor({}, "icon");
+  const textColor = useThemeColor({}, "text");
+  const backgroundColor = useThemeColor({}, "background");
+
+  const inputStyle = [
+    styles.input,
+    { color: textColor, borderColor: iconColor, backgroundColor },
+  ];
+
+  const loadHabits = useCallback(async () => {
+    setHabits(await customHabitService.getCustomHabits(true));
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadHabits();
+  }, [loadHabits]);
+
+  const activeHabits = habits.filter((habit) => !habit.archived);
+  const archivedHabits = habits.filter((habit) => habit.archived);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setEmoji("");
+    setColor(CUSTOM_HABIT_COLORS[0]);
+    setPointsTier("medium");
+    setDailyCap(CUSTOM_HABIT_DAILY_CAPS[1]);
+    setError("");
+  };
+
+  const startEditing = (habit: CustomHabit) => {
+    setEditingId(habit.id);
+    setName(habit.name);
+    setEmoji(habit.emoji);
+    setColor(habit.color);
+    setPointsTier(habit.pointsTier);
+    setDailyCap(habit.dailyCap);
+    setError("");
+  };
+
+  /**
+   * Save locally, then upload in the background; offline edits go up with
+   * the next sync
+   */
+  const afterChange = async () => {
+    await loadHabits();
+    syncService.pushCustomHabits().catch(() => {});
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  const handleSave = async () => {
+    const input = { name, emoji, color, pointsTier, dailyCap };
+
+    try {
+      setIsSaving(true);
+      setError("");
+      if (editingId) {
+        await customHabitService.updateCustomHabit(editingId, input);
+      } else {
+        await customHabitService.createCustomHabit(input);
+      }
+      resetForm();
+      await afterChange();
+    } catch (err: any) {
+      setError(err.message || "Couldn't save the habit. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setArchived = async (habit: CustomHabit, archived: boolean) => {
+    try {
+      await customHabitService.setArchived(habit.id, archived);
+      if (editingId === habit.id) {
+        resetForm();
+      }
+      await afterChange();
+    } catch (err: any) {
+      Alert.alert("Couldn't update habit", err.message || "Please try again.");
+    }
+  };
+
+  const handleArchive = (habit: CustomHabit) => {
+    Alert.alert(
+      `Archive ${habit.name}?`,
+      "It leaves Quick Log. Points and history you already have are kept, and you can restore it later.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Archive",
+          style: "destructive",
+          onPress: () => setArchived(habit, true),
+        },
+      ]
+    );
+  };
+
+  const describeHabit = (habit: CustomHabit): string => {
+    const tier = CUSTOM_HABIT_TIERS[habit.pointsTier];
+    return `${tier.label} · ${tier.min}-${tier.max} pts · up to ${habit.dailyCap}/day`;
+  };
+
+  const renderChips = <T extends string | number>(
+    options: { label: string; value: T }[],
+    selectedValue: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.optionRow}>
+      {options.map((option) => {
+        const selected = option.value === selectedValue;
+        return (
+          <Pressable
+            key={option.label}
+            style={[
+              styles.optionChip,
+              selected && { backgroundColor: tintColor },
+            ]}
+            onPress={() => onSelect(option.value)}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+          >
+            <ThemedText
+              style={[styles.optionChipText, selected && styles.actionText]}
+            >
+              {option.label}
+            </ThemedText>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  const renderHabit = (habit: CustomHabit) => (
+    <View
+      key={habit.id}
+      style={[styles.row, { borderColor: iconColor + "40" }]}
+    >
+      <View style={[styles.habitIcon, { backgroundColor: habit.color }]}>
+        <ThemedText style={styles.habitEmoji}>{habit.emoji}</ThemedText>
+      </View>
+      <View style={styles.rowText}>
+        <ThemedText style={styles.rowName} numberOfLines={1}>
+          {habit.name}
+        </ThemedText>
+        <ThemedText style={[styles.rowMeta, { color: iconColor }]}>
+          {describeHabit(habit)}
+        </ThemedText>
+      </View>
+      <View style={styles.rowActions}>
+        {habit.archived ? (
+          <Pressable
+            style={[styles.actionButton, { backgroundColor: tintColor }]}
+            onPress={() => setArchived(habit, false)}
+            accessibilityRole="button"
+            accessibilityLabel={`Restore ${habit.name}`}
+          >
+            <ThemedText style={styles.actionText}>Restore</ThemedText>
+          </Pressable>
+        ) : (
+          <>
+            <Pressable
+              style={[styles.actionButton, { backgroundColor: tintColor }]}
+              onPress={() => startEditing(habit)}
+              accessibilityRole="button"
+              accessibilityLabel={`Edit ${habit.name}`}
+            >
+              <ThemedText style={styles.actionText}>Edit</ThemedText>
+            </Pressable>
+            <Pressable
+              style={[styles.actionButton, styles.destructiveButton]}
+              onPress={() => handleArchive(habit)}
+              accessibilityRole="button"
+              accessibilityLabel={`Archive ${habit.name}`}
+            >
+              <ThemedText style={styles.destructiveText}>Archive</ThemedText>
+            </Pressable>
+          </>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <ThemedText type="title" style={styles.title}>
+          My habits
+        </ThemedText>
+        <ThemedText style={[styles.subtitle, { color: iconColor }]}>
+          {`Add your own habits to Quick Log. They sync to your other devices and together earn up to ${CUSTOM_HABITS_DAILY_CAP} points a day.`}
+        </ThemedText>
+
+        {/* Habit Form */}
+        <ThemedText style={styles.sectionTitle}>
+          {editingId ? "Edit habit" : "New habit"}
+        </ThemedText>
+        <View style={styles.nameRow}>
+          <TextInput
+            style={[inputStyle, styles.emojiInput]}
+            placeholder="🌿"
+            placeholderTextColor={iconColor}
+            value={emoji}
+            onChangeText={setEmoji}
+            maxLength={16}
+            accessibilityLabel="Habit emoji"
+          />
+          <TextInput
+            style={[inputStyle, styles.nameInput]}
+            placeholder="Name, e.g. Line-dry laundry"
+            placeholderTextColor={iconColor}
+            value={name}
+            onChangeText={setName}
+            maxLength={24}
+            accessibilityLabel="Habit name"
+          />
+        </View>
+
+        <ThemedText style={[styles.optionLabel, { color: iconColor }]}>
+          Color
+        </ThemedText>
+        <View style={styles.optionRow}>
+          {CUSTOM_HABIT_COLORS.map((option) => {
+            const selected = option === color;
+            return (
+              <Pressable
+                key={option}
+                style={[
+                  styles.colorSwatch,
+                  { backgroundColor: option },
+                  selected && { borderColor: textColor },
+                ]}
+                onPress={() => setColor(option)}
+                accessibilityRole="button"
+                accessibilityLabel={`Color ${option}`}
+                accessibilityState={{ selected }}
+              />
+            );
+          })}
+        </View>
+
+        <ThemedText style={[styles.optionLabel, { color: iconColor }]}>
+          Points per log
+        </ThemedText>
+        {renderChips(
+          TIERS.map((tier) => ({
+            label: `${CUSTOM_HABIT_TIERS[tier].label} (${CUSTOM_HABIT_TIERS[tier].min}-${CUSTOM_HABIT_TIERS[tier].max})`,
+            value: tier,
+          })),
+          pointsTier,
+          setPointsTier
+        )}
+
+        <ThemedText style={[styles.optionLabel, { color: iconColor }]}>
+          Daily cap
+        </ThemedText>
+        {renderChips(
+          CUSTOM_HABIT_DAILY_CAPS.map((cap) => ({
+            label: `${cap} pts`,
+            value: cap,
+          })),
+          dailyCap,
+          setDailyCap
+        )}
+
+        {/* Error Message */}
+        {error ? (
+          <View style={styles.errorContainer}>
+            <ThemedText style={styles.errorText}>{error}</ThemedText>
+          </View>
+        ) : null}
+
+        <Pressable
+          style={[
+            styles.submitButton,
+            { backgroundColor: tintColor, opacity: isSaving ? 0.6 : 1 },
+          ]}
+          onPress={handleSave}
+          disabled={isSaving}
+          accessibilityRole="button"
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <ThemedText style={styles.submitButtonText}>
+              {editingId ? "Save changes" : "Add habit"}
+            </ThemedText>
+          )}
+        </Pressable>
+
+        {editingId && (
+          <Pressable style={styles.linkContainer} onPress={resetForm}>
+            <ThemedText style={[styles.linkText, { color: iconColor }]}>
+              Cancel editing
+            </ThemedText>
+          </Pressable>
+        )}
+
+        {/* Habit Lists */}
+        {isLoading ? (
+          <ActivityIndicator color={tintColor} style={styles.spinner} />
+        ) : (
+          <>
+            <ThemedText style={styles.sectionTitle}>Your habits</ThemedText>
+            {activeHabits.length === 0 ? (
+              <ThemedText style={[styles.emptyText, { color: iconColor }]}>
+                No custom habits yet.
+              </ThemedText>
+            ) : (
+              activeHabits.map(renderHabit)
+            )}
+
+            {archivedHabits.length > 0 && (
+              <>
+                <ThemedText style={styles.sectionTitle}>Archived</ThemedText>
+                {archivedHabits.map(renderHabit)}
+              </>
+            )}
+          </>
+        )}
+
+        <Pressable style={styles.linkContainer} onPress={() => router.back()}>
+          <ThemedText style={[styles.linkText, { color: iconColor }]}>
+            Back
+          </ThemedText>
+        </Pressable>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 40,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 24,
+  },
+  spinner: {
+    marginVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  nameRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  emojiInput: {
+    width: 64,
+    textAlign: "center",
+  },
+  nameInput: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  optionChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  optionChipText: {
+    fontSize: 14,
+  },
+  colorSwatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 3,
+    borderColor: "transparent",
+  },
+  errorContainer: {
+    backgroundColor: "#fee",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: "#c00",
+    fontSize: 14,
+  },
+  submitButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: 14,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  habitIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  habitEmoji: {
+    fontSize: 18,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 16,
+  },
+  rowMeta: {
+    fontSize: 12,
+  },
+  rowActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  actionText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  destructiveButton: {
+    backgroundColor: "#fee",
+  },
+  destructiveText: {
+    color: "#c00",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  linkContainer: {
+    alignItems: "center",
+    paddingVertical: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
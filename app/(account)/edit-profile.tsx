@@ -0,0 +1,328 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { Avatar, AVATAR_COLORS, AVATAR_EMOJIS } from "@/components/ui/avatar";
+import { useAuth } from "@/contexts/auth-context";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import * as Haptics from "expo-haptics";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+const BIO_MAX_LENGTH = 160;
+
+export default function EditProfileScreen() {
+  const router = useRouter();
+  const { user, updateProfile } = useAuth();
+
+  const [displayName, setDisplayName] = useState(user?.displayName ?? "");
+  const [avatarEmoji, setAvatarEmoji] = useState(user?.avatarEmoji);
+  const [avatarColor, setAvatarColor] = useState(user?.avatarColor);
+  const [bio, setBio] = useState(user?.bio ?? "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  // Theme colors
+  const backgroundColor = useThemeColor({}, "background");
+  const textColor = useThemeColor({}, "text");
+  const tintColor = useThemeColor({}, "tint");
+  const iconColor = useThemeColor({}, "icon");
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: textColor,
+      borderColor: iconColor,
+      backgroundColor: backgroundColor,
+    },
+  ];
+
+  const handleSave = async () => {
+    if (displayName.trim().length < 2) {
+      setError("Display name must be at least 2 characters");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError("");
+
+      await updateProfile({
+        // Only send the name when it changed so uniqueness isn't rechecked
+        displayName:
+          displayName.trim() !== user?.displayName
+            ? displayName.trim()
+            : undefined,
+        avatarEmoji: avatarEmoji ?? "",
+        avatarColor: avatarColor ?? "",
+        bio: bio.trim(),
+      });
+
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch (error: any) {
+      setError(error.message || "Failed to update profile. Please try again.");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <ThemedText type="title" style={styles.title}>
+            Edit profile
+          </ThemedText>
+
+          {/* Avatar Preview */}
+          <View style={styles.previewContainer}>
+            <Avatar
+              name={displayName || "?"}
+              emoji={avatarEmoji}
+              color={avatarColor}
+              size={80}
+            />
+          </View>
+
+          {/* Emoji Picker */}
+          <ThemedText style={styles.inputLabel}>Avatar</ThemedText>
+          <View style={styles.optionRow}>
+            <Pressable
+              style={[
+                styles.emojiOption,
+                !avatarEmoji && { borderColor: tintColor },
+              ]}
+              onPress={() => setAvatarEmoji(undefined)}
+              accessibilityRole="button"
+              accessibilityLabel="Use initial"
+              accessibilityState={{ selected: !avatarEmoji }}
+            >
+              <ThemedText style={styles.emojiText}>Aa</ThemedText>
+            </Pressable>
+            {AVATAR_EMOJIS.map((emoji) => (
+              <Pressable
+                key={emoji}
+                style={[
+                  styles.emojiOption,
+                  avatarEmoji === emoji && { borderColor: tintColor },
+                ]}
+                onPress={() => setAvatarEmoji(emoji)}
+                accessibilityRole="button"
+                accessibilityLabel={`Avatar ${emoji}`}
+                accessibilityState={{ selected: avatarEmoji === emoji }}
+              >
+                <ThemedText style={styles.emojiText}>{emoji}</ThemedText>
+              </Pressable>
+            ))}
+          </View>
+
+          {/* Color Picker */}
+          <ThemedText style={styles.inputLabel}>Color</ThemedText>
+          <View style={styles.optionRow}>
+            {AVATAR_COLORS.map((color) => (
+              <Pressable
+                key={color}
+                style={[
+                  styles.colorOption,
+                  { backgroundColor: color },
+                  avatarColor === color && {
+                    borderColor: textColor,
+                  },
+                ]}
+                onPress={() => setAvatarColor(color)}
+                accessibilityRole="button"
+                accessibilityLabel={`Avatar color ${color}`}
+                accessibilityState={{ selected: avatarColor === color }}
+              />
+            ))}
+          </View>
+
+          {/* Display Name Input */}
+          <View style={styles.inputContainer}>
+            <ThemedText style={styles.inputLabel}>Display Name</ThemedText>
+            <TextInput
+              style={inputStyle}
+              placeholder="Your Name"
+              placeholderTextColor={iconColor}
+              value={displayName}
+              onChangeText={setDisplayName}
+              maxLength={30}
+              editable={!isLoading}
+            />
+          </View>
+
+          {/* Bio Input */}
+          <View style={styles.inputContainer}>
+            <ThemedText style={styles.inputLabel}>Bio</ThemedText>
+            <TextInput
+              style={[inputStyle, styles.bioInput]}
+              placeholder="What's your green goal?"
+              placeholderTextColor={iconColor}
+              value={bio}
+              onChangeText={setBio}
+              maxLength={BIO_MAX_LENGTH}
+              multiline
+              editable={!isLoading}
+            />
+            <ThemedText style={[styles.counter, { color: iconColor }]}>
+              {bio.length}/{BIO_MAX_LENGTH}
+            </ThemedText>
+          </View>
+
+          {/* Error Message */}
+          {error ? (
+            <View style={styles.errorContainer}>
+              <ThemedText style={styles.errorText}>{error}</ThemedText>
+            </View>
+          ) : null}
+
+          {/* Save Button */}
+          <Pressable
+            style={[
+              styles.submitButton,
+              {
+                backgroundColor: tintColor,
+                opacity: isLoading ? 0.6 : 1,
+              },
+            ]}
+            onPress={handleSave}
+            disabled={isLoading}
+            accessibilityRole="button"
+          >
+            {isLoading ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <ThemedText style={styles.submitButtonText}>Save</ThemedText>
+            )}
+          </Pressable>
+
+          <Pressable
+            style={styles.linkContainer}
+            onPress={() => router.back()}
+            disabled={isLoading}
+          >
+            <ThemedText style={[styles.linkText, { color: iconColor }]}>
+              Cancel
+            </ThemedText>
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 40,
+  },
+  title: {
+    marginBottom: 24,
+  },
+  previewContainer: {
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 16,
+  },
+  emojiOption: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 2,
+    borderColor: "transparent",
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  emojiText: {
+    fontSize: 20,
+  },
+  colorOption: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 3,
+    borderColor: "transparent",
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  bioInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  counter: {
+    fontSize: 12,
+    textAlign: "right",
+    marginTop: 4,
+  },
+  errorContainer: {
+    backgroundColor: "#fee",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: "#c00",
+    fontSize: 14,
+  },
+  submitButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignItems: "center",
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  linkContainer: {
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
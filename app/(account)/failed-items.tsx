@@ -0,0 +1,250 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import type { HabitQueueItem } from "@/services/database";
+import { syncService } from "@/services/sync-service";
+import * as Haptics from "expo-haptics";
+import { useRouter } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+
+export default function FailedItemsScreen() {
+  const router = useRouter();
+
+  const [items, setItems] = useState<HabitQueueItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Theme colors
+  const tintColor = useThemeColor({}, "tint");
+  const iconColor = useThemeColor({}, "icon");
+
+  const loadItems = useCallback(async () => {
+    setItems(await syncService.getFailedItems());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const handleRetry = async (itemId: string) => {
+    try {
+      setBusyId(itemId);
+      await syncService.retryFailedItem(itemId);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      await loadItems();
+    } catch (error: any) {
+      Alert.alert("Retry failed", error.message || "Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = (itemId: string) => {
+    Alert.alert(
+      "Discard this log?",
+      "It will be removed from this device and its points taken back.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              setBusyId(itemId);
+              await syncService.discardFailedItem(itemId);
+              await loadItems();
+            } catch (error: any) {
+              Alert.alert("Discard failed", error.message || "Please try again.");
+            } finally {
+              setBusyId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatHabitType = (habitType: string): string => {
+    return habitType
+      .split("_")
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(" ");
+  };
+
+  const formatTimestamp = (timestamp: number): string => {
+    return new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <ThemedText type="title" style={styles.title}>
+          Failed items
+        </ThemedText>
+        <ThemedText style={[styles.subtitle, { color: iconColor }]}>
+          These logs could not be uploaded after several tries. Retry them or
+          discard them.
+        </ThemedText>
+
+        {isLoading ? (
+          <ActivityIndicator color={tintColor} />
+        ) : items.length === 0 ? (
+          <ThemedText style={[styles.emptyText, { color: iconColor }]}>
+            Nothing failed — everything is synced or waiting to sync.
+          </ThemedText>
+        ) : (
+          items.map((item) => {
+            const payload = JSON.parse(item.payload_json);
+            const isBusy = busyId === item.id;
+
+            return (
+              <View
+                key={item.id}
+                style={[styles.itemCard, { borderColor: iconColor + "40" }]}
+              >
+                <View style={styles.itemHeader}>
+                  <ThemedText style={styles.itemTitle}>
+                    {formatHabitType(payload.habitType)}
+                  </ThemedText>
+                  <ThemedText style={[styles.itemMeta, { color: iconColor }]}>
+                    {formatTimestamp(payload.loggedAt ?? item.created_at)}
+                  </ThemedText>
+                </View>
+                <ThemedText style={styles.errorText}>
+                  {item.error_message || "Unknown error"}
+                </ThemedText>
+                <ThemedText style={[styles.itemMeta, { color: iconColor }]}>
+                  +{payload.pointsAwarded} points · {item.attempts}{" "}
+                  {item.attempts === 1 ? "attempt" : "attempts"}
+                </ThemedText>
+
+                <View style={styles.actions}>
+                  <Pressable
+                    style={[styles.actionButton, { backgroundColor: tintColor }]}
+                    onPress={() => handleRetry(item.id)}
+                    disabled={isBusy}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Retry ${formatHabitType(payload.habitType)} log`}
+                  >
+                    {isBusy ? (
+                      <ActivityIndicator color="#fff" />
+                    ) : (
+                      <ThemedText style={styles.actionText}>Retry</ThemedText>
+                    )}
+                  </Pressable>
+                  <Pressable
+                    style={[styles.actionButton, styles.discardButton]}
+                    onPress={() => handleDiscard(item.id)}
+                    disabled={isBusy}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Discard ${formatHabitType(payload.habitType)} log`}
+                  >
+                    <ThemedText style={styles.discardText}>Discard</ThemedText>
+                  </Pressable>
+                </View>
+              </View>
+            );
+          })
+        )}
+
+        <Pressable style={styles.linkContainer} onPress={() => router.back()}>
+          <ThemedText style={[styles.linkText, { color: iconColor }]}>
+            Back
+          </ThemedText>
+        </Pressable>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 40,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginVertical: 24,
+  },
+  itemCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 6,
+  },
+  itemHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  itemMeta: {
+    fontSize: 12,
+  },
+  errorText: {
+    color: "#c00",
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  actionText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  discardButton: {
+    backgroundColor: "#fee",
+  },
+  discardText: {
+    color: "#c00",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  linkContainer: {
+    alignItems: "center",
+    paddingVertical: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
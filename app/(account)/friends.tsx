@@ -0,0 +1,701 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { Avatar } from "@/components/ui/avatar";
+import { QrCode } from "@/components/ui/qr-code";
+import { useAuth } from "@/contexts/auth-context";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import { buildInviteLink } from "@/services/invite-service";
+import { useMutation, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import * as Haptics from "expo-haptics";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+type Profile = {
+  userId: Id<"users">;
+  displayName: string;
+  avatarEmoji?: string;
+  avatarColor?: string;
+};
+
+type Action = {
+  label: string;
+  onPress: () => void;
+  destructive?: boolean;
+};
+
+type Invite = NonNullable<FunctionReturnType<typeof api.invites.getMyInvite>>;
+type SearchResult = FunctionReturnType<typeof api.friends.searchUsers>[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Choices offered when creating an invite link
+const INVITE_EXPIRY_OPTIONS: { label: string; value?: number }[] = [
+  { label: "Never" },
+  { label: "1 day", value: DAY_MS },
+  { label: "7 days", value: 7 * DAY_MS },
+];
+const INVITE_USE_OPTIONS: { label: string; value?: number }[] = [
+  { label: "Unlimited" },
+  { label: "1 use", value: 1 },
+  { label: "10 uses", value: 10 },
+];
+
+/**
+ * Summarize an invite's limits, e.g. "2 of 10 uses · expires Oct 26"
+ */
+function describeInviteLimits(invite: Invite): string {
+  const uses =
+    invite.maxUses === undefined
+      ? `${invite.uses} ${invite.uses === 1 ? "use" : "uses"}`
+      : `${invite.uses} of ${invite.maxUses} uses`;
+  const expiry =
+    invite.expiresAt === undefined
+      ? "never expires"
+      : `expires ${new Date(invite.expiresAt).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+        })}`;
+  return `${uses} · ${expiry}`;
+}
+
+export default function FriendsScreen() {
+  const router = useRouter();
+  const { sessionToken } = useAuth();
+
+  const [searchText, setSearchText] = useState("");
+  const [emailResults, setEmailResults] = useState<SearchResult[] | null>(null);
+  const [isSearchingEmail, setIsSearchingEmail] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [inviteExpiry, setInviteExpiry] = useState<number | undefined>();
+  const [inviteMaxUses, setInviteMaxUses] = useState<number | undefined>();
+  const [isCreatingInvite, setIsCreatingInvite] = useState(false);
+
+  // Theme colors
+  const tintColor = useThemeColor({}, "tint");
+  const iconColor = useThemeColor({}, "icon");
+  const textColor = useThemeColor({}, "text");
+  const backgroundColor = useThemeColor({}, "background");
+
+  const friends = useQuery(
+    api.friends.getFriends,
+    sessionToken ? { sessionToken } : "skip"
+  );
+  const requests = useQuery(
+    api.friends.getFriendRequests,
+    sessionToken ? { sessionToken } : "skip"
+  );
+  const myInvite = useQuery(
+    api.invites.getMyInvite,
+    sessionToken ? { sessionToken } : "skip"
+  );
+  // Emails are looked up on submit, since each lookup counts towards a limit
+  const isEmailSearch = searchText.includes("@");
+  const nameResults = useQuery(
+    api.friends.searchUsers,
+    sessionToken && !isEmailSearch && searchText.trim().length >= 2
+      ? { sessionToken, query: searchText }
+      : "skip"
+  );
+  const searchResults = isEmailSearch ? emailResults : nameResults;
+
+  const sendFriendRequest = useMutation(api.friends.sendFriendRequest);
+  const acceptFriendRequest = useMutation(api.friends.acceptFriendRequest);
+  const declineFriendRequest = useMutation(api.friends.declineFriendRequest);
+  const removeFriend = useMutation(api.friends.removeFriend);
+  const blockUser = useMutation(api.friends.blockUser);
+  const createInvite = useMutation(api.invites.createInvite);
+  const findUserByEmail = useMutation(api.friends.findUserByEmail);
+
+  const inviteLink = myInvite ? buildInviteLink(myInvite.code) : null;
+
+  /**
+   * Run a friend mutation, disabling the row's buttons while it runs
+   */
+  const runAction = async (
+    id: string,
+    failureTitle: string,
+    action: () => Promise<unknown>
+  ) => {
+    if (!sessionToken) return;
+    try {
+      setBusyId(id);
+      await action();
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error: any) {
+      Alert.alert(failureTitle, error.message || "Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAdd = (userId: Id<"users">) =>
+    runAction(userId, "Couldn't send request", async () => {
+      const { status } = await sendFriendRequest({
+        sessionToken: sessionToken!,
+        userId,
+      });
+      // Email results are a one-off lookup, so update them by hand
+      const relationship = status === "accepted" ? "friend" : "outgoing";
+      setEmailResults(
+        (results) =>
+          results?.map((result) =>
+            result.userId === userId ? { ...result, relationship } : result
+          ) ?? null
+      );
+    });
+
+  const handleSearchTextChange = (text: string) => {
+    setSearchText(text);
+    setEmailResults(null);
+  };
+
+  const handleEmailSearch = async () => {
+    if (!sessionToken || !isEmailSearch) return;
+    try {
+      setIsSearchingEmail(true);
+      setEmailResults(
+        await findUserByEmail({ sessionToken, email: searchText })
+      );
+    } catch (error: any) {
+      Alert.alert("Couldn't search", error.message || "Please try again.");
+    } finally {
+      setIsSearchingEmail(false);
+    }
+  };
+
+  const handleAccept = (requestId: Id<"friend_requests">) =>
+    runAction(requestId, "Couldn't accept request", () =>
+      acceptFriendRequest({ sessionToken: sessionToken!, requestId })
+    );
+
+  const handleDecline = (requestId: Id<"friend_requests">) =>
+    runAction(requestId, "Couldn't update request", () =>
+      declineFriendRequest({ sessionToken: sessionToken!, requestId })
+    );
+
+  const createNewInvite = async () => {
+    if (!sessionToken) return;
+    try {
+      setIsCreatingInvite(true);
+      await createInvite({
+        sessionToken,
+        expiresInMs: inviteExpiry,
+        maxUses: inviteMaxUses,
+      });
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error: any) {
+      Alert.alert("Couldn't create invite", error.message || "Please try again.");
+    } finally {
+      setIsCreatingInvite(false);
+    }
+  };
+
+  const handleCreateInvite = () => {
+    if (myInvite?.status !== "valid") {
+      createNewInvite();
+      return;
+    }
+    Alert.alert(
+      "Replace your invite link?",
+      "Your current link and QR code will stop working.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Replace", style: "destructive", onPress: createNewInvite },
+      ]
+    );
+  };
+
+  const handleShareInvite = async () => {
+    if (!inviteLink) return;
+    try {
+      await Share.share({
+        message: `Be my friend on EcoNest: ${inviteLink}`,
+      });
+    } catch (error) {
+      console.error("Failed to share invite:", error);
+    }
+  };
+
+  const renderOptionChips = (
+    options: { label: string; value?: number }[],
+    selectedValue: number | undefined,
+    onSelect: (value: number | undefined) => void
+  ) => (
+    <View style={styles.optionRow}>
+      {options.map((option) => {
+        const selected = option.value === selectedValue;
+        return (
+          <Pressable
+            key={option.label}
+            style={[
+              styles.optionChip,
+              selected && { backgroundColor: tintColor },
+            ]}
+            onPress={() => onSelect(option.value)}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+          >
+            <ThemedText
+              style={[styles.optionChipText, selected && styles.actionText]}
+            >
+              {option.label}
+            </ThemedText>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  const handleRemove = (friend: Profile) => {
+    Alert.alert(
+      `Remove ${friend.displayName}?`,
+      "You'll no longer see each other on your friends leaderboard.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () =>
+            runAction(friend.userId, "Couldn't remove friend", () =>
+              removeFriend({ sessionToken: sessionToken!, friendId: friend.userId })
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleBlock = (profile: Profile) => {
+    Alert.alert(
+      `Block ${profile.displayName}?`,
+      "They'll be removed from your friends and can't find you or send you requests.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Block",
+          style: "destructive",
+          onPress: () =>
+            runAction(profile.userId, "Couldn't block user", () =>
+              blockUser({ sessionToken: sessionToken!, userId: profile.userId })
+            ),
+        },
+      ]
+    );
+  };
+
+  const renderRow = (key: string, profile: Profile, actions: Action[]) => {
+    const isBusy = busyId === key;
+
+    return (
+      <View
+        key={key}
+        style={[styles.row, { borderColor: iconColor + "40" }]}
+      >
+        <Avatar
+          name={profile.displayName}
+          emoji={profile.avatarEmoji}
+          color={profile.avatarColor}
+          size={36}
+        />
+        <ThemedText style={styles.rowName} numberOfLines={1}>
+          {profile.displayName}
+        </ThemedText>
+        {isBusy ? (
+          <ActivityIndicator color={tintColor} />
+        ) : (
+          <View style={styles.rowActions}>
+            {actions.map((action) => (
+              <Pressable
+                key={action.label}
+                style={[
+                  styles.actionButton,
+                  action.destructive
+                    ? styles.destructiveButton
+                    : { backgroundColor: tintColor },
+                ]}
+                onPress={action.onPress}
+                accessibilityRole="button"
+                accessibilityLabel={`${action.label} ${profile.displayName}`}
+              >
+                <ThemedText
+                  style={
+                    action.destructive ? styles.destructiveText : styles.actionText
+                  }
+                >
+                  {action.label}
+                </ThemedText>
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const searchActions = (
+    result: Profile & { relationship: string },
+    requestId?: Id<"friend_requests">
+  ): Action[] => {
+    switch (result.relationship) {
+      case "none":
+        return [{ label: "Add", onPress: () => handleAdd(result.userId) }];
+      case "incoming":
+        return requestId
+          ? [{ label: "Accept", onPress: () => handleAccept(requestId) }]
+          : [];
+      default:
+        return [];
+    }
+  };
+
+  const isLoading = friends === undefined || requests === undefined;
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <ThemedText type="title" style={styles.title}>
+          Friends
+        </ThemedText>
+        <ThemedText style={[styles.subtitle, { color: iconColor }]}>
+          Find people by name or email and compare points on your friends
+          leaderboard.
+        </ThemedText>
+
+        {/* Invite Link */}
+        <ThemedText style={styles.sectionTitle}>Invite link</ThemedText>
+        {myInvite === undefined ? (
+          <ActivityIndicator color={tintColor} style={styles.spinner} />
+        ) : myInvite && inviteLink && myInvite.status === "valid" ? (
+          <View style={[styles.inviteCard, { borderColor: iconColor + "40" }]}>
+            <QrCode
+              value={inviteLink}
+              size={180}
+              accessibilityLabel="Invite QR code"
+            />
+            <ThemedText selectable style={styles.inviteLinkText}>
+              {inviteLink}
+            </ThemedText>
+            <ThemedText style={[styles.inviteMeta, { color: iconColor }]}>
+              {describeInviteLimits(myInvite)}
+            </ThemedText>
+            <Pressable
+              style={[styles.actionButton, { backgroundColor: tintColor }]}
+              onPress={handleShareInvite}
+              accessibilityRole="button"
+              accessibilityLabel="Share invite link"
+            >
+              <ThemedText style={styles.actionText}>Share link</ThemedText>
+            </Pressable>
+          </View>
+        ) : (
+          <ThemedText style={[styles.emptyText, { color: iconColor }]}>
+            {myInvite
+              ? "Your invite link no longer works. Create a new one below."
+              : "Create a link or QR code that adds you as a friend in one tap."}
+          </ThemedText>
+        )}
+        <ThemedText style={[styles.optionLabel, { color: iconColor }]}>
+          Expires
+        </ThemedText>
+        {renderOptionChips(INVITE_EXPIRY_OPTIONS, inviteExpiry, setInviteExpiry)}
+        <ThemedText style={[styles.optionLabel, { color: iconColor }]}>
+          Usage limit
+        </ThemedText>
+        {renderOptionChips(INVITE_USE_OPTIONS, inviteMaxUses, setInviteMaxUses)}
+        <Pressable
+          style={[
+            styles.actionButton,
+            styles.createInviteButton,
+            { borderColor: tintColor, opacity: isCreatingInvite ? 0.6 : 1 },
+          ]}
+          onPress={handleCreateInvite}
+          disabled={isCreatingInvite || !sessionToken}
+          accessibilityRole="button"
+        >
+          {isCreatingInvite ? (
+            <ActivityIndicator color={tintColor} />
+          ) : (
+            <ThemedText style={[styles.createInviteText, { color: tintColor }]}>
+              {myInvite ? "New invite link" : "Create invite link"}
+            </ThemedText>
+          )}
+        </Pressable>
+
+        {/* Search */}
+        <ThemedText style={styles.sectionTitle}>Find people</ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            { color: textColor, borderColor: iconColor, backgroundColor },
+          ]}
+          placeholder="Search by name or email"
+          placeholderTextColor={iconColor}
+          value={searchText}
+          onChangeText={handleSearchTextChange}
+          onSubmitEditing={handleEmailSearch}
+          returnKeyType="search"
+          autoCapitalize="none"
+          autoCorrect={false}
+          accessibilityLabel="Search for people"
+        />
+        {isEmailSearch && emailResults === null && !isSearchingEmail && (
+          <ThemedText style={[styles.emptyText, { color: iconColor }]}>
+            Enter their full email address and press search.
+          </ThemedText>
+        )}
+        {searchText.trim().length >= 2 &&
+          (searchResults === undefined || isSearchingEmail ? (
+            <ActivityIndicator color={tintColor} style={styles.spinner} />
+          ) : searchResults === null ? null : searchResults.length === 0 ? (
+            <ThemedText style={[styles.emptyText, { color: iconColor }]}>
+              No one found.
+            </ThemedText>
+          ) : (
+            searchResults.map((result) => {
+              const incoming = requests?.incoming.find(
+                (request) => request.userId === result.userId
+              );
+              const status =
+                result.relationship === "friend"
+                  ? "Friends"
+                  : result.relationship === "outgoing"
+                    ? "Requested"
+                    : null;
+
+              return (
+                <View key={result.userId}>
+                  {renderRow(
+                    incoming?.requestId ?? result.userId,
+                    result,
+                    searchActions(result, incoming?.requestId)
+                  )}
+                  {status && (
+                    <ThemedText style={[styles.statusText, { color: iconColor }]}>
+                      {status}
+                    </ThemedText>
+                  )}
+                </View>
+              );
+            })
+          ))}
+
+        {isLoading ? (
+          <ActivityIndicator color={tintColor} style={styles.spinner} />
+        ) : (
+          <>
+            {/* Incoming Requests */}
+            {requests.incoming.length > 0 && (
+              <>
+                <ThemedText style={styles.sectionTitle}>Requests</ThemedText>
+                {requests.incoming.map((request) =>
+                  renderRow(request.requestId, request, [
+                    {
+                      label: "Accept",
+                      onPress: () => handleAccept(request.requestId),
+                    },
+                    {
+                      label: "Decline",
+                      onPress: () => handleDecline(request.requestId),
+                      destructive: true,
+                    },
+                  ])
+                )}
+              </>
+            )}
+
+            {/* Outgoing Requests */}
+            {requests.outgoing.length > 0 && (
+              <>
+                <ThemedText style={styles.sectionTitle}>Sent</ThemedText>
+                {requests.outgoing.map((request) =>
+                  renderRow(request.requestId, request, [
+                    {
+                      label: "Cancel",
+                      onPress: () => handleDecline(request.requestId),
+                      destructive: true,
+                    },
+                  ])
+                )}
+              </>
+            )}
+
+            {/* Friends */}
+            <ThemedText style={styles.sectionTitle}>
+              Your friends ({friends.length})
+            </ThemedText>
+            {friends.length === 0 ? (
+              <ThemedText style={[styles.emptyText, { color: iconColor }]}>
+                No friends yet — search above to add some.
+              </ThemedText>
+            ) : (
+              friends.map((friend) =>
+                renderRow(friend.userId, friend, [
+                  { label: "Remove", onPress: () => handleRemove(friend) },
+                  {
+                    label: "Block",
+                    onPress: () => handleBlock(friend),
+                    destructive: true,
+                  },
+                ])
+              )
+            )}
+          </>
+        )}
+
+        <Pressable style={styles.linkContainer} onPress={() => router.back()}>
+          <ThemedText style={[styles.linkText, { color: iconColor }]}>
+            Back
+          </ThemedText>
+        </Pressable>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 40,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 24,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  spinner: {
+    marginVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: "center",
+    marginVertical: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  rowName: {
+    flex: 1,
+    fontSize: 16,
+  },
+  rowActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  actionText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  destructiveButton: {
+    backgroundColor: "#fee",
+  },
+  destructiveText: {
+    color: "#c00",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  inviteCard: {
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 8,
+  },
+  inviteLinkText: {
+    fontSize: 14,
+    textAlign: "center",
+  },
+  inviteMeta: {
+    fontSize: 12,
+  },
+  optionLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    marginBottom: 6,
+  },
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  optionChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  optionChipText: {
+    fontSize: 14,
+  },
+  createInviteButton: {
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  createInviteText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  statusText: {
+    fontSize: 12,
+    marginTop: -4,
+    marginBottom: 8,
+    marginLeft: 12,
+  },
+  linkContainer: {
+    alignItems: "center",
+    paddingVertical: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,544 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { Avatar } from "@/components/ui/avatar";
+import { useAuth } from "@/contexts/auth-context";
+import { api } from "@/convex/_generated/api";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import { getPeriodId } from "@/utils/day";
+import { useMutation, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import * as Haptics from "expo-haptics";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+type Team = NonNullable<FunctionReturnType<typeof api.teams.getMyTeam>>;
+type Member = Team["members"][number];
+
+const ROLE_LABELS: Record<Member["role"], string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+export default function TeamScreen() {
+  const router = useRouter();
+  const { sessionToken, user } = useAuth();
+
+  const [teamName, setTeamName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Theme colors
+  const tintColor = useThemeColor({}, "tint");
+  const iconColor = useThemeColor({}, "icon");
+  const textColor = useThemeColor({}, "text");
+  const backgroundColor = useThemeColor({}, "background");
+
+  const inputStyle = [
+    styles.input,
+    { color: textColor, borderColor: iconColor, backgroundColor },
+  ];
+
+  const team = useQuery(
+    api.teams.getMyTeam,
+    sessionToken ? { sessionToken, weekId: getPeriodId("week") } : "skip"
+  );
+
+  const createTeam = useMutation(api.teams.createTeam);
+  const joinTeam = useMutation(api.teams.joinTeam);
+  const leaveTeam = useMutation(api.teams.leaveTeam);
+  const removeTeamMember = useMutation(api.teams.removeTeamMember);
+  const setTeamMemberRole = useMutation(api.teams.setTeamMemberRole);
+  const renameTeam = useMutation(api.teams.renameTeam);
+  const regenerateTeamInviteCode = useMutation(
+    api.teams.regenerateTeamInviteCode
+  );
+
+  /**
+   * Run a team mutation, disabling the matching buttons while it runs
+   */
+  const runAction = async (
+    id: string,
+    failureTitle: string,
+    action: (token: string) => Promise<unknown>
+  ) => {
+    if (!sessionToken) return;
+    try {
+      setBusyId(id);
+      await action(sessionToken);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error: any) {
+      Alert.alert(failureTitle, error.message || "Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = () =>
+    runAction("create", "Couldn't create team", async (token) => {
+      await createTeam({ sessionToken: token, name: teamName });
+      setTeamName("");
+    });
+
+  const handleJoin = () =>
+    runAction("join", "Couldn't join team", async (token) => {
+      await joinTeam({ sessionToken: token, inviteCode });
+      setInviteCode("");
+    });
+
+  const handleRename = () =>
+    runAction("rename", "Couldn't rename team", async (token) => {
+      await renameTeam({ sessionToken: token, name: teamName });
+      setTeamName("");
+    });
+
+  const handleShareCode = async (current: Team) => {
+    try {
+      await Share.share({
+        message: `Join ${current.name} on EcoNest with team code ${current.inviteCode}`,
+      });
+    } catch (error) {
+      console.error("Failed to share team code:", error);
+    }
+  };
+
+  const handleNewCode = () => {
+    Alert.alert(
+      "Replace the team code?",
+      "The current code will stop working for new members.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Replace",
+          style: "destructive",
+          onPress: () =>
+            runAction("code", "Couldn't replace code", (token) =>
+              regenerateTeamInviteCode({ sessionToken: token })
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleLeave = (current: Team) => {
+    const isLastMember = current.members.length === 1;
+    Alert.alert(
+      `Leave ${current.name}?`,
+      isLastMember
+        ? "You're the last member, so the team will be deleted."
+        : "Points you already added stay with the team.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Leave",
+          style: "destructive",
+          onPress: () =>
+            runAction("leave", "Couldn't leave team", (token) =>
+              leaveTeam({ sessionToken: token })
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleRemove = (member: Member) => {
+    Alert.alert(
+      `Remove ${member.displayName}?`,
+      "Points they already added stay with the team.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () =>
+            runAction(member.userId, "Couldn't remove member", (token) =>
+              removeTeamMember({ sessionToken: token, userId: member.userId })
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleToggleAdmin = (member: Member) =>
+    runAction(member.userId, "Couldn't change role", (token) =>
+      setTeamMemberRole({
+        sessionToken: token,
+        userId: member.userId,
+        role: member.role === "admin" ? "member" : "admin",
+      })
+    );
+
+  const renderMember = (current: Team, member: Member) => {
+    const isSelf = member.userId === user?.userId;
+    const canRemove =
+      !isSelf &&
+      (current.role === "owner" ||
+        (current.role === "admin" && member.role === "member"));
+    const canChangeRole = current.role === "owner" && member.role !== "owner";
+
+    return (
+      <View
+        key={member.userId}
+        style={[styles.row, { borderColor: iconColor + "40" }]}
+      >
+        <Avatar
+          name={member.displayName}
+          emoji={member.avatarEmoji}
+          color={member.avatarColor}
+          size={36}
+        />
+        <View style={styles.rowText}>
+          <ThemedText style={styles.rowName} numberOfLines={1}>
+            {member.displayName}
+            {isSelf ? " (you)" : ""}
+          </ThemedText>
+          <ThemedText style={[styles.rowMeta, { color: iconColor }]}>
+            {ROLE_LABELS[member.role]} · {member.weekPoints} this week
+          </ThemedText>
+        </View>
+        {busyId === member.userId ? (
+          <ActivityIndicator color={tintColor} />
+        ) : (
+          <View style={styles.rowActions}>
+            {canChangeRole && (
+              <Pressable
+                style={[styles.actionButton, { backgroundColor: tintColor }]}
+                onPress={() => handleToggleAdmin(member)}
+                accessibilityRole="button"
+                accessibilityLabel={`${
+                  member.role === "admin" ? "Remove admin from" : "Make admin"
+                } ${member.displayName}`}
+              >
+                <ThemedText style={styles.actionText}>
+                  {member.role === "admin" ? "Unadmin" : "Admin"}
+                </ThemedText>
+              </Pressable>
+            )}
+            {canRemove && (
+              <Pressable
+                style={[styles.actionButton, styles.destructiveButton]}
+                onPress={() => handleRemove(member)}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${member.displayName}`}
+              >
+                <ThemedText style={styles.destructiveText}>Remove</ThemedText>
+              </Pressable>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderNoTeam = () => (
+    <>
+      <ThemedText style={styles.sectionTitle}>Create a team</ThemedText>
+      <TextInput
+        style={inputStyle}
+        placeholder="Team name, e.g. The Green House"
+        placeholderTextColor={iconColor}
+        value={teamName}
+        onChangeText={setTeamName}
+        maxLength={40}
+        accessibilityLabel="Team name"
+      />
+      <Pressable
+        style={[
+          styles.submitButton,
+          { backgroundColor: tintColor, opacity: busyId ? 0.6 : 1 },
+        ]}
+        onPress={handleCreate}
+        disabled={busyId !== null}
+        accessibilityRole="button"
+      >
+        {busyId === "create" ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <ThemedText style={styles.submitButtonText}>Create team</ThemedText>
+        )}
+      </Pressable>
+
+      <ThemedText style={styles.sectionTitle}>Join a team</ThemedText>
+      <TextInput
+        style={inputStyle}
+        placeholder="Team code"
+        placeholderTextColor={iconColor}
+        value={inviteCode}
+        onChangeText={setInviteCode}
+        autoCapitalize="characters"
+        autoCorrect={false}
+        accessibilityLabel="Team code"
+      />
+      <Pressable
+        style={[
+          styles.submitButton,
+          { backgroundColor: tintColor, opacity: busyId ? 0.6 : 1 },
+        ]}
+        onPress={handleJoin}
+        disabled={busyId !== null}
+        accessibilityRole="button"
+      >
+        {busyId === "join" ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <ThemedText style={styles.submitButtonText}>Join team</ThemedText>
+        )}
+      </Pressable>
+    </>
+  );
+
+  const renderTeam = (current: Team) => {
+    const canManage = current.role === "owner" || current.role === "admin";
+
+    return (
+      <>
+        <View style={[styles.summaryCard, { borderColor: iconColor + "40" }]}>
+          <ThemedText style={styles.teamName}>{current.name}</ThemedText>
+          <ThemedText style={[styles.rowMeta, { color: iconColor }]}>
+            #{current.rank} of all teams · {current.totalPoints} points
+          </ThemedText>
+          <ThemedText style={[styles.rowMeta, { color: iconColor }]}>
+            {current.weekPoints} points this week
+          </ThemedText>
+        </View>
+
+        {/* Team Code */}
+        <ThemedText style={styles.sectionTitle}>Team code</ThemedText>
+        <View style={styles.codeRow}>
+          <ThemedText selectable style={styles.codeText}>
+            {current.inviteCode}
+          </ThemedText>
+          <Pressable
+            style={[styles.actionButton, { backgroundColor: tintColor }]}
+            onPress={() => handleShareCode(current)}
+            accessibilityRole="button"
+            accessibilityLabel="Share team code"
+          >
+            <ThemedText style={styles.actionText}>Share</ThemedText>
+          </Pressable>
+          {canManage && (
+            <Pressable
+              style={[styles.actionButton, styles.destructiveButton]}
+              onPress={handleNewCode}
+              disabled={busyId !== null}
+              accessibilityRole="button"
+              accessibilityLabel="Replace team code"
+            >
+              <ThemedText style={styles.destructiveText}>New code</ThemedText>
+            </Pressable>
+          )}
+        </View>
+
+        {/* Rename */}
+        {canManage && (
+          <View style={styles.renameRow}>
+            <TextInput
+              style={[inputStyle, styles.renameInput]}
+              placeholder="New team name"
+              placeholderTextColor={iconColor}
+              value={teamName}
+              onChangeText={setTeamName}
+              maxLength={40}
+              accessibilityLabel="New team name"
+            />
+            <Pressable
+              style={[styles.actionButton, { backgroundColor: tintColor }]}
+              onPress={handleRename}
+              disabled={busyId !== null || teamName.trim().length === 0}
+              accessibilityRole="button"
+            >
+              <ThemedText style={styles.actionText}>Rename</ThemedText>
+            </Pressable>
+          </View>
+        )}
+
+        {/* Members */}
+        <ThemedText style={styles.sectionTitle}>
+          Members ({current.members.length})
+        </ThemedText>
+        {current.members.map((member) => renderMember(current, member))}
+
+        <Pressable
+          style={[styles.submitButton, styles.destructiveButton]}
+          onPress={() => handleLeave(current)}
+          disabled={busyId !== null}
+          accessibilityRole="button"
+        >
+          {busyId === "leave" ? (
+            <ActivityIndicator color="#c00" />
+          ) : (
+            <ThemedText style={styles.destructiveText}>Leave team</ThemedText>
+          )}
+        </Pressable>
+      </>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <ThemedText type="title" style={styles.title}>
+          Team
+        </ThemedText>
+        <ThemedText style={[styles.subtitle, { color: iconColor }]}>
+          Pool points with your household or office. Points you log while in
+          a team count toward its total.
+        </ThemedText>
+
+        {team === undefined ? (
+          <ActivityIndicator color={tintColor} style={styles.spinner} />
+        ) : team === null ? (
+          renderNoTeam()
+        ) : (
+          renderTeam(team)
+        )}
+
+        <Pressable style={styles.linkContainer} onPress={() => router.back()}>
+          <ThemedText style={[styles.linkText, { color: iconColor }]}>
+            Back
+          </ThemedText>
+        </Pressable>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 60,
+    paddingBottom: 40,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 24,
+  },
+  spinner: {
+    marginVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  submitButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  summaryCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 4,
+  },
+  teamName: {
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  codeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  codeText: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: "600",
+    letterSpacing: 2,
+  },
+  renameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 16,
+  },
+  renameInput: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    gap: 12,
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 16,
+  },
+  rowMeta: {
+    fontSize: 12,
+  },
+  rowActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  actionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  actionText: {
+    color: "#fff",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  destructiveButton: {
+    backgroundColor: "#fee",
+  },
+  destructiveText: {
+    color: "#c00",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  linkContainer: {
+    alignItems: "center",
+    paddingVertical: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
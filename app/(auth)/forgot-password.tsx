@@ -0,0 +1,303 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { useAuth } from "@/contexts/auth-context";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import * as Haptics from "expo-haptics";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+export default function ForgotPasswordScreen() {
+  const router = useRouter();
+  const { requestPasswordReset, resetPassword } = useAuth();
+
+  const [codeSent, setCodeSent] = useState(false);
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  // Theme colors
+  const backgroundColor = useThemeColor({}, "background");
+  const textColor = useThemeColor({}, "text");
+  const tintColor = useThemeColor({}, "tint");
+  const iconColor = useThemeColor({}, "icon");
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: textColor,
+      borderColor: iconColor,
+      backgroundColor: backgroundColor,
+    },
+  ];
+
+  const handleSendCode = async () => {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email.trim())) {
+      setError("Please enter a valid email");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError("");
+
+      await requestPasswordReset(email.trim());
+
+      setCodeSent(true);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error: any) {
+      setError(error.message || "Failed to send reset code. Please try again.");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!code.trim() || !newPassword) {
+      setError("Please fill in all fields");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    if (newPassword.length < 6) {
+      setError("Password must be at least 6 characters");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError("");
+
+      await resetPassword(email.trim(), code.trim(), newPassword);
+
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        "Password reset",
+        "Your password has been updated. Please sign in with your new password.",
+        [{ text: "OK", onPress: () => router.replace("/(auth)") }]
+      );
+    } catch (error: any) {
+      setError(error.message || "Failed to reset password. Please try again.");
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ThemedText type="title" style={styles.title}>
+          Reset password
+        </ThemedText>
+        <ThemedText style={[styles.subtitle, { color: iconColor }]}>
+          {codeSent
+            ? `If an account exists for ${email.trim()}, we sent it a 6-digit code.`
+            : "Enter your email and we'll send you a reset code."}
+        </ThemedText>
+
+        {/* Email Input */}
+        <View style={styles.inputContainer}>
+          <ThemedText style={styles.inputLabel}>Email</ThemedText>
+          <TextInput
+            style={inputStyle}
+            placeholder="your@email.com"
+            placeholderTextColor={iconColor}
+            value={email}
+            onChangeText={setEmail}
+            autoCapitalize="none"
+            keyboardType="email-address"
+            editable={!isLoading && !codeSent}
+          />
+        </View>
+
+        {codeSent && (
+          <>
+            {/* Reset Code Input */}
+            <View style={styles.inputContainer}>
+              <ThemedText style={styles.inputLabel}>Reset Code</ThemedText>
+              <TextInput
+                style={inputStyle}
+                placeholder="123456"
+                placeholderTextColor={iconColor}
+                value={code}
+                onChangeText={setCode}
+                keyboardType="number-pad"
+                maxLength={6}
+                editable={!isLoading}
+              />
+            </View>
+
+            {/* New Password Input */}
+            <View style={styles.inputContainer}>
+              <ThemedText style={styles.inputLabel}>New Password</ThemedText>
+              <TextInput
+                style={inputStyle}
+                placeholder="••••••••"
+                placeholderTextColor={iconColor}
+                value={newPassword}
+                onChangeText={setNewPassword}
+                secureTextEntry
+                editable={!isLoading}
+              />
+            </View>
+
+            {/* Confirm Password Input */}
+            <View style={styles.inputContainer}>
+              <ThemedText style={styles.inputLabel}>Confirm Password</ThemedText>
+              <TextInput
+                style={inputStyle}
+                placeholder="••••••••"
+                placeholderTextColor={iconColor}
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry
+                editable={!isLoading}
+              />
+            </View>
+          </>
+        )}
+
+        {/* Error Message */}
+        {error ? (
+          <View style={styles.errorContainer}>
+            <ThemedText style={styles.errorText}>{error}</ThemedText>
+          </View>
+        ) : null}
+
+        {/* Submit Button */}
+        <Pressable
+          style={[
+            styles.submitButton,
+            {
+              backgroundColor: tintColor,
+              opacity: isLoading ? 0.6 : 1,
+            },
+          ]}
+          onPress={codeSent ? handleReset : handleSendCode}
+          disabled={isLoading}
+          accessibilityRole="button"
+        >
+          {isLoading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <ThemedText style={styles.submitButtonText}>
+              {codeSent ? "Reset Password" : "Send Code"}
+            </ThemedText>
+          )}
+        </Pressable>
+
+        {codeSent && (
+          <Pressable
+            style={styles.linkContainer}
+            onPress={handleSendCode}
+            disabled={isLoading}
+          >
+            <ThemedText style={[styles.linkText, { color: tintColor }]}>
+              Send a new code
+            </ThemedText>
+          </Pressable>
+        )}
+
+        <Pressable
+          style={styles.linkContainer}
+          onPress={() => router.back()}
+          disabled={isLoading}
+        >
+          <ThemedText style={[styles.linkText, { color: iconColor }]}>
+            Back to sign in
+          </ThemedText>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: 24,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 32,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  errorContainer: {
+    backgroundColor: "#fee",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: "#c00",
+    fontSize: 14,
+  },
+  submitButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignItems: "center",
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  linkContainer: {
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
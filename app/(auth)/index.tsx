@@ -297,6 +297,19 @@ export default function AuthScreen() {
             />
           </View>
 
+          {/* Forgot Password (Sign In only) */}
+          {!isSignUp && (
+            <Pressable
+              style={styles.forgotContainer}
+              onPress={() => router.push("/(auth)/forgot-password")}
+              disabled={isLoading}
+            >
+              <ThemedText style={[styles.toggleLink, { color: tintColor }]}>
+                Forgot password?
+              </ThemedText>
+            </Pressable>
+          )}
+
           {/* Error Message */}
           {error ? (
             <View style={styles.errorContainer}>
@@ -421,6 +434,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     fontSize: 16,
   },
+  forgotContainer: {
+    alignSelf: "flex-end",
+    marginTop: -8,
+    marginBottom: 16,
+  },
   errorContainer: {
     backgroundColor: "#fee",
     borderRadius: 8,
@@ -35,6 +35,15 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="impact"
+        options={{
+          title: "Impact",
+          tabBarIcon: ({ color }) => (
+            <IconSymbol size={28} name="leaf.fill" color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="explore"
         options={{
@@ -0,0 +1,323 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import {
+  formatImpactAmount,
+  impactService,
+  type ImpactPeriod,
+  type ImpactReport,
+} from "@/services/impact-service";
+import { getDayString } from "@/utils/day";
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+
+const PERIOD_OPTIONS: { value: ImpactPeriod; label: string }[] = [
+  { value: "day", label: "Today" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+  { value: "all", label: "Lifetime" },
+];
+
+const HABIT_LABELS: Record<string, string> = {
+  recycle: "♻️ Recycle",
+  bike: "🚴 Bike",
+  meatless: "🥗 Meatless",
+  reusable: "🥤 Reusable",
+  compost: "🌱 Compost",
+  water: "💧 Water",
+};
+
+export default function ImpactScreen() {
+  const [period, setPeriod] = useState<ImpactPeriod>("week");
+  const [report, setReport] = useState<ImpactReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload on focus so habits logged on the home tab are counted
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+
+      impactService
+        .getImpactReport(period)
+        .then((result) => {
+          if (!cancelled) {
+            setReport(result);
+            setError(null);
+          }
+        })
+        .catch(() => {
+          if (!cancelled) {
+            setError("Couldn't load your impact. Please try again.");
+          }
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [period])
+  );
+
+  const factorTable = impactService.getFactorTable(getDayString(Date.now()));
+  const equivalents = report ? impactService.getEquivalents(report.totals) : [];
+  // Custom habits have no impact estimate, so leave them out
+  const habits = report
+    ? report.byHabit.filter((habit) => HABIT_LABELS[habit.habitType])
+    : [];
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <ThemedText style={styles.title}>Your Impact</ThemedText>
+          <ThemedText style={styles.subtitle}>
+            Estimated savings from the habits you log
+          </ThemedText>
+        </View>
+
+        <View style={styles.periodBar}>
+          {PERIOD_OPTIONS.map((option) => {
+            const selected = period === option.value;
+            return (
+              <Pressable
+                key={option.value}
+                style={[styles.periodChip, selected && styles.periodChipActive]}
+                onPress={() => setPeriod(option.value)}
+                accessible={true}
+                accessibilityLabel={`${option.label} impact`}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+              >
+                <ThemedText
+                  style={[
+                    styles.periodChipText,
+                    selected && styles.periodChipTextActive,
+                  ]}
+                >
+                  {option.label}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {error ? (
+          <ThemedText style={styles.emptyText}>{error}</ThemedText>
+        ) : !report ? (
+          <ActivityIndicator style={styles.loading} />
+        ) : (
+          <>
+            <View style={styles.statRow}>
+              <StatTile value={report.totals.co2Kg} unit="kg" label="CO₂e" />
+              <StatTile value={report.totals.waterL} unit="L" label="water" />
+              <StatTile
+                value={report.totals.wasteKg}
+                unit="kg"
+                label="waste diverted"
+              />
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>
+                {"That's like"}
+              </ThemedText>
+              {equivalents.length === 0 ? (
+                <ThemedText style={styles.emptyText}>
+                  Log a habit to see what your savings add up to
+                </ThemedText>
+              ) : (
+                equivalents.map((equivalent) => (
+                  <View key={equivalent.id} style={styles.row}>
+                    <ThemedText style={styles.rowValue}>
+                      {formatImpactAmount(equivalent.value)}
+                    </ThemedText>
+                    <ThemedText style={styles.rowLabel}>
+                      {equivalent.label}
+                    </ThemedText>
+                  </View>
+                ))
+              )}
+            </View>
+
+            {habits.length > 0 && (
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>By habit</ThemedText>
+                {habits.map((habit) => (
+                  <View key={habit.habitType} style={styles.row}>
+                    <ThemedText style={styles.rowLabel}>
+                      {HABIT_LABELS[habit.habitType]}
+                    </ThemedText>
+                    <ThemedText style={styles.rowDetail}>
+                      {`${formatImpactAmount(habit.co2Kg)} kg CO₂e · ${formatImpactAmount(habit.waterL)} L · ${habit.logCount} ${habit.logCount === 1 ? "log" : "logs"}`}
+                    </ThemedText>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            <ThemedText style={styles.footnote}>
+              {`Estimates use impact factors v${factorTable.version}, for a typical amount when no quantity is logged. Custom habits aren't counted.`}
+            </ThemedText>
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+function StatTile({
+  value,
+  unit,
+  label,
+}: {
+  value: number;
+  unit: string;
+  label: string;
+}) {
+  return (
+    <View
+      style={styles.statTile}
+      accessible={true}
+      accessibilityLabel={`${formatImpactAmount(value)} ${unit} ${label}`}
+    >
+      <ThemedText style={styles.statValue}>
+        {formatImpactAmount(value)}
+      </ThemedText>
+      <ThemedText style={styles.statUnit}>{unit}</ThemedText>
+      <ThemedText style={styles.statLabel}>{label}</ThemedText>
+    </View>
+  );
+}
+
+// ============================================================================
+// Styles
+// ============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: "bold",
+    lineHeight: 38,
+  },
+  subtitle: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  periodBar: {
+    flexDirection: "row",
+    paddingHorizontal: 20,
+    marginBottom: 16,
+    gap: 8,
+  },
+  periodChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 16,
+    alignItems: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  periodChipActive: {
+    backgroundColor: "#34C759",
+  },
+  periodChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    opacity: 0.6,
+  },
+  periodChipTextActive: {
+    color: "#fff",
+    opacity: 1,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  statRow: {
+    flexDirection: "row",
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  statTile: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: "rgba(52, 199, 89, 0.1)",
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: "bold",
+    lineHeight: 30,
+    color: "#34C759",
+  },
+  statUnit: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  statLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  section: {
+    marginTop: 24,
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+    opacity: 0.8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "rgba(0, 0, 0, 0.1)",
+  },
+  rowValue: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#34C759",
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 15,
+  },
+  rowDetail: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.6,
+    textAlign: "center",
+    paddingHorizontal: 20,
+    marginTop: 16,
+  },
+  footnote: {
+    fontSize: 12,
+    opacity: 0.5,
+    paddingHorizontal: 20,
+    marginTop: 24,
+  },
+});
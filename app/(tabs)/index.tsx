@@ -7,6 +7,7 @@ import {
   EcoPointsCard,
   GreetingHeader,
   HabitButtons,
+  ImpactCard,
   SparklineChart,
   SyncButton,
   type HabitType,
@@ -15,9 +16,10 @@ import { Toast } from "@/components/home/toast";
 import { UndoSnackbar } from "@/components/home/undo-snackbar";
 import { ThemedView } from "@/components/themed-view";
 import { useDemoMode } from "@/contexts/demo-mode-context";
-import { habitService } from "@/services/habit-service";
+import { habitService, type LogHabitOptions } from "@/services/habit-service";
+import { syncScheduler } from "@/services/sync-scheduler";
 import type { ConflictItem } from "@/services/sync-service";
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { ScrollView, StyleSheet } from "react-native";
 
 export default function HomeScreen() {
@@ -31,37 +33,52 @@ export default function HomeScreen() {
   const [confettiVisible, setConfettiVisible] = useState(false);
   const [conflicts, setConflicts] = useState<ConflictItem[]>([]);
 
-  const handleHabitPress = useCallback(async (habitType: HabitType) => {
-    try {
-      const result = await habitService.logHabit(habitType);
+  const handleHabitPress = useCallback(
+    async (habitType: HabitType, options?: LogHabitOptions) => {
+      try {
+        const result = await habitService.logHabit(habitType, options);
+        syncScheduler.notifyHabitLogged();
 
-      // Show toast notification at 200ms
-      setTimeout(() => {
-        setToastMessage(`Logged +${result.pointsAwarded} EcoPoints`);
-        setToastPoints(result.pointsAwarded);
-        setToastVisible(true);
-      }, 200);
-
-      // Show undo snackbar at 350ms
-      setTimeout(() => {
-        setLastLogId(result.logId);
-        setSnackbarVisible(true);
-      }, 350);
-
-      // Trigger refresh of components at 400ms
-      setTimeout(() => {
-        setRefreshKey((prev) => prev + 1);
-      }, 400);
-    } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "Failed to log habit";
+        // Show toast notification at 200ms
+        setTimeout(() => {
+          const logged = options?.day
+            ? `Logged +${result.pointsAwarded} EcoPoints for ${new Date(
+                `${options.day}T12:00:00`
+              ).toLocaleDateString(undefined, { weekday: "long" })}`
+            : `Logged +${result.pointsAwarded} EcoPoints`;
+          setToastMessage(
+            result.freezesUsed
+              ? `❄️ Streak saved! ${result.freezesUsed} ${
+                  result.freezesUsed === 1 ? "freeze" : "freezes"
+                } used · ${logged}`
+              : logged
+          );
+          setToastPoints(result.pointsAwarded);
+          setToastVisible(true);
+        }, 200);
+
+        // Show undo snackbar at 350ms
+        setTimeout(() => {
+          setLastLogId(result.logId);
+          setSnackbarVisible(true);
+        }, 350);
 
-      // Show error toast
-      setToastMessage(message);
-      setToastPoints(undefined);
-      setToastVisible(true);
-    }
-  }, []);
+        // Trigger refresh of components at 400ms
+        setTimeout(() => {
+          setRefreshKey((prev) => prev + 1);
+        }, 400);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to log habit";
+
+        // Show error toast
+        setToastMessage(message);
+        setToastPoints(undefined);
+        setToastVisible(true);
+      }
+    },
+    []
+  );
 
   const handleUndo = useCallback(async () => {
     if (!lastLogId) return;
@@ -118,6 +135,16 @@ export default function HomeScreen() {
     []
   );
 
+  // Reflect background syncs; conflicts still need the user's attention
+  useEffect(() => {
+    return syncScheduler.addListener((result) => {
+      if (result.conflicts.length > 0) {
+        setConflicts(result.conflicts);
+      }
+      setRefreshKey((prev) => prev + 1);
+    });
+  }, []);
+
   const handleConflictResolved = useCallback(() => {
     // Refresh the conflict list and other components
     setRefreshKey((prev) => prev + 1);
@@ -150,6 +177,7 @@ export default function HomeScreen() {
         <GreetingHeader key={`greeting-${refreshKey}`} />
         <EcoPointsCard key={`points-${refreshKey}`} />
         <SparklineChart key={`chart-${refreshKey}`} />
+        <ImpactCard key={`impact-${refreshKey}`} />
         <ClosestCompetitors key={`competitors-${refreshKey}`} />
 
         {/* Conflict resolution UI */}
@@ -7,18 +7,21 @@ import {
 import { setPrivacySetting } from "@/components/privacy-toggle";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { Avatar } from "@/components/ui/avatar";
 import { Colors } from "@/constants/theme";
 import { useAuth } from "@/contexts/auth-context";
 import { useDemoMode } from "@/contexts/demo-mode-context";
 import { useReducedMotion } from "@/contexts/reduced-motion-context";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { addNetworkListener, isOnline } from "@/services/connectivity";
 import {
-  addNetworkListener,
-  isOnline,
   leaderboardService,
+  type LeaderboardPeriod,
   type RankingEntry,
+  type TeamContribution,
   type UserRankInfo,
 } from "@/services/leaderboard-service";
+import { router } from "expo-router";
 import { memo, useCallback, useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
@@ -35,7 +38,29 @@ import Animated, {
   withTiming,
 } from "react-native-reanimated";
 
-type TabType = "global" | "demo";
+type TabType = "global" | "friends" | "teams";
+
+const PERIOD_OPTIONS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: "day", label: "Today" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+  { value: "all", label: "All Time" },
+];
+
+/**
+ * Describe how old the cached leaderboard is, e.g. "Cached 5 minutes ago"
+ */
+function formatCacheAge(cachedAt: number): string {
+  const minutes = Math.floor((Date.now() - cachedAt) / 60000);
+  if (minutes < 1) {
+    return "Cached just now";
+  }
+  if (minutes < 60) {
+    return `Cached ${minutes} ${minutes === 1 ? "minute" : "minutes"} ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return `Cached ${hours} ${hours === 1 ? "hour" : "hours"} ago`;
+}
 
 // ============================================================================
 // Skeleton Loader Component
@@ -272,6 +297,12 @@ const RankingListItem = memo(function RankingListItem({
         >
           {badge || `#${entry.rank}`}
         </ThemedText>
+        <Avatar
+          name={entry.displayName}
+          emoji={entry.avatarEmoji}
+          color={entry.avatarColor}
+          size={32}
+        />
         <ThemedText
           style={[
             styles.listItemName,
@@ -301,17 +332,21 @@ const RankingListItem = memo(function RankingListItem({
 
 export default function LeaderboardScreen() {
   const colorScheme = useColorScheme();
-  const { isAuthenticated, updatePrivacy } = useAuth();
+  const { isAuthenticated, user, updatePrivacy } = useAuth();
   const { isDemoMode } = useDemoMode();
   const [activeTab, setActiveTab] = useState<TabType>("global");
+  const [period, setPeriod] = useState<LeaderboardPeriod>("all");
   const [globalRankings, setGlobalRankings] = useState<RankingEntry[]>([]);
-  const [demoRankings, setDemoRankings] = useState<RankingEntry[]>([]);
+  const [friendsRankings, setFriendsRankings] = useState<RankingEntry[]>([]);
+  const [teamRankings, setTeamRankings] = useState<RankingEntry[]>([]);
+  const [myTeam, setMyTeam] = useState<TeamContribution | null>(null);
   const [userRankInfo, setUserRankInfo] = useState<UserRankInfo | null>(null);
   const [closestCompetitors, setClosestCompetitors] = useState<RankingEntry[]>(
     []
   );
   const [loading, setLoading] = useState(true);
   const [online, setOnline] = useState(isOnline());
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [showPrivacyPrompt, setShowPrivacyPrompt] = useState(false);
 
   // Check if we need to show privacy prompt on mount
@@ -328,31 +363,35 @@ export default function LeaderboardScreen() {
     checkPrivacyPrompt();
   }, [isDemoMode, isAuthenticated]);
 
+  // Rank and competitors are read from the cache the rankings update
+  const loadRankInfo = useCallback(async (rankPeriod: LeaderboardPeriod) => {
+    const rankInfo = await leaderboardService.getUserRank(rankPeriod);
+    setUserRankInfo(rankInfo);
+
+    const competitors = await leaderboardService.getClosestCompetitors(
+      3,
+      rankPeriod
+    );
+    setClosestCompetitors(competitors);
+  }, []);
+
   const loadData = useCallback(async () => {
+    // Live rankings arrive through the subscriptions below; only the demo
+    // friends list is loaded here
+    if (activeTab !== "friends" || !isDemoMode) return;
+
     setLoading(true);
     try {
-      // Load user rank info
-      const rankInfo = await leaderboardService.getUserRank();
-      setUserRankInfo(rankInfo);
-
-      // Load closest competitors
-      const competitors = await leaderboardService.getClosestCompetitors(3);
-      setClosestCompetitors(competitors);
-
-      // Load rankings based on active tab
-      if (activeTab === "global") {
-        const rankings = await leaderboardService.getGlobalRankings(100);
-        setGlobalRankings(rankings);
-      } else {
-        const rankings = await leaderboardService.getDemoFriendsRankings();
-        setDemoRankings(rankings);
-      }
+      await loadRankInfo("all");
+
+      const rankings = await leaderboardService.getDemoFriendsRankings();
+      setFriendsRankings(rankings);
     } catch (error) {
       console.error("Failed to load leaderboard data:", error);
     } finally {
       setLoading(false);
     }
-  }, [activeTab]);
+  }, [activeTab, isDemoMode, loadRankInfo]);
 
   // Load data on mount and when tab changes
   useEffect(() => {
@@ -369,6 +408,105 @@ export default function LeaderboardScreen() {
     return cleanup;
   }, [loadData]);
 
+  // Live global rankings; resubscribes on period, reconnect and sign-in changes
+  useEffect(() => {
+    if (activeTab !== "global") return;
+
+    let active = true;
+    let unsubscribe = () => {};
+    setLoading(true);
+
+    try {
+      unsubscribe = leaderboardService.subscribeToGlobalRankings(
+        100,
+        async (rankings, snapshotCachedAt) => {
+          if (!active) return;
+          setGlobalRankings(rankings);
+          setCachedAt(snapshotCachedAt);
+          try {
+            await loadRankInfo(period);
+          } finally {
+            if (active) setLoading(false);
+          }
+        },
+        period
+      );
+    } catch (error) {
+      console.error("Failed to subscribe to leaderboard:", error);
+      setLoading(false);
+    }
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [activeTab, period, online, isAuthenticated, loadRankInfo]);
+
+  // Live friends rankings, same triggers as global
+  useEffect(() => {
+    if (activeTab !== "friends" || isDemoMode) return;
+
+    let active = true;
+    let unsubscribe = () => {};
+    setLoading(true);
+
+    try {
+      unsubscribe = leaderboardService.subscribeToFriendsRankings(
+        async (rankings, snapshotCachedAt) => {
+          if (!active) return;
+          setFriendsRankings(rankings);
+          setCachedAt(snapshotCachedAt);
+          try {
+            await loadRankInfo(period);
+          } finally {
+            if (active) setLoading(false);
+          }
+        },
+        period
+      );
+    } catch (error) {
+      console.error("Failed to subscribe to friends leaderboard:", error);
+      setLoading(false);
+    }
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [activeTab, isDemoMode, period, online, isAuthenticated, loadRankInfo]);
+
+  // Live team rankings, plus the user's own team to highlight
+  useEffect(() => {
+    if (activeTab !== "teams") return;
+
+    let active = true;
+    let unsubscribe = () => {};
+    setLoading(true);
+
+    leaderboardService.getTeamContribution().then((team) => {
+      if (active) setMyTeam(team);
+    });
+
+    try {
+      unsubscribe = leaderboardService.subscribeToTeamRankings(
+        (rankings, snapshotCachedAt) => {
+          if (!active) return;
+          setTeamRankings(rankings);
+          setCachedAt(snapshotCachedAt);
+          setLoading(false);
+        }
+      );
+    } catch (error) {
+      console.error("Failed to subscribe to team leaderboard:", error);
+      setLoading(false);
+    }
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [activeTab, online, isAuthenticated]);
+
   const handlePrivacySelection = useCallback(
     async (isAnonymous: boolean) => {
       try {
@@ -395,19 +533,34 @@ export default function LeaderboardScreen() {
     [isAuthenticated, isDemoMode, loadData]
   );
 
-  const currentRankings = useMemo(
-    () => (activeTab === "global" ? globalRankings : demoRankings),
-    [activeTab, globalRankings, demoRankings]
-  );
+  const currentRankings = useMemo(() => {
+    switch (activeTab) {
+      case "global":
+        return globalRankings;
+      case "friends":
+        return friendsRankings;
+      case "teams":
+        return teamRankings;
+    }
+  }, [activeTab, globalRankings, friendsRankings, teamRankings]);
+
+  // Demo friends are a fixed list with no periods or cache; teams rank by
+  // all-time totals only
+  const isLiveTab = activeTab !== "friends" || !isDemoMode;
+  const showPeriods = isLiveTab && activeTab !== "teams";
 
   const renderItem = useCallback(
     ({ item }: { item: RankingEntry }) => (
       <RankingListItem
         entry={item}
-        isCurrentUser={item.userId === "current_user"}
+        isCurrentUser={
+          activeTab === "teams"
+            ? item.userId === myTeam?.teamId
+            : item.userId === "current_user" || item.userId === user?.userId
+        }
       />
     ),
-    []
+    [activeTab, myTeam?.teamId, user?.userId]
   );
 
   const keyExtractor = useCallback((item: RankingEntry) => item.userId, []);
@@ -443,38 +596,139 @@ export default function LeaderboardScreen() {
           </ThemedText>
         </Pressable>
         <Pressable
-          style={[styles.tab, activeTab === "demo" && styles.tabActive]}
-          onPress={() => setActiveTab("demo")}
+          style={[styles.tab, activeTab === "friends" && styles.tabActive]}
+          onPress={() => setActiveTab("friends")}
           accessible={true}
-          accessibilityLabel="Demo friends leaderboard"
-          accessibilityHint="View demo friends rankings"
+          accessibilityLabel={
+            isDemoMode ? "Demo friends leaderboard" : "Friends leaderboard"
+          }
+          accessibilityHint={
+            isDemoMode ? "View demo friends rankings" : "View friends rankings"
+          }
           accessibilityRole="tab"
           accessibilityState={{
-            selected: activeTab === "demo",
+            selected: activeTab === "friends",
           }}
         >
           <ThemedText
             style={[
               styles.tabText,
-              activeTab === "demo" && styles.tabTextActive,
+              activeTab === "friends" && styles.tabTextActive,
             ]}
           >
-            Demo Friends
+            {isDemoMode ? "Demo Friends" : "Friends"}
+          </ThemedText>
+        </Pressable>
+        <Pressable
+          style={[styles.tab, activeTab === "teams" && styles.tabActive]}
+          onPress={() => setActiveTab("teams")}
+          accessible={true}
+          accessibilityLabel="Teams leaderboard"
+          accessibilityHint="View team rankings"
+          accessibilityRole="tab"
+          accessibilityState={{
+            selected: activeTab === "teams",
+          }}
+        >
+          <ThemedText
+            style={[
+              styles.tabText,
+              activeTab === "teams" && styles.tabTextActive,
+            ]}
+          >
+            Teams
           </ThemedText>
         </Pressable>
       </ThemedView>
 
+      {/* Period Selector (live individual rankings only) */}
+      {showPeriods && (
+        <View style={styles.periodBar}>
+          {PERIOD_OPTIONS.map((option) => {
+            const selected = period === option.value;
+            return (
+              <Pressable
+                key={option.value}
+                style={[styles.periodChip, selected && styles.periodChipActive]}
+                onPress={() => setPeriod(option.value)}
+                accessible={true}
+                accessibilityLabel={`${option.label} rankings`}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+              >
+                <ThemedText
+                  style={[
+                    styles.periodChipText,
+                    selected && styles.periodChipTextActive,
+                  ]}
+                >
+                  {option.label}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
       {/* Offline Indicator */}
       <OfflineIndicator />
 
-      {/* User Rank Card (Sticky) */}
-      <UserRankCard rankInfo={userRankInfo} loading={loading} />
+      {/* Cache Age (shown while live rankings come from the cache) */}
+      {isLiveTab && cachedAt !== null && (
+        <ThemedText style={styles.cacheAgeText}>
+          {formatCacheAge(cachedAt)}
+        </ThemedText>
+      )}
 
-      {/* Closest Competitors Carousel */}
-      <ClosestCompetitorsCarousel
-        competitors={closestCompetitors}
-        loading={loading}
-      />
+      {/* Manage Friends Link */}
+      {activeTab === "friends" && !isDemoMode && isAuthenticated && (
+        <Pressable
+          style={styles.manageFriendsLink}
+          onPress={() => router.push("/(account)/friends")}
+          accessible={true}
+          accessibilityLabel="Manage friends"
+          accessibilityHint="Find people, answer friend requests and manage your friends"
+          accessibilityRole="link"
+        >
+          <ThemedText style={styles.manageFriendsText}>Manage friends</ThemedText>
+        </Pressable>
+      )}
+
+      {activeTab === "teams" ? (
+        /* Team Summary and Link */
+        <Pressable
+          style={styles.teamSummary}
+          onPress={() => router.push("/(account)/team")}
+          disabled={!isAuthenticated || isDemoMode}
+          accessible={true}
+          accessibilityLabel={myTeam ? "Manage team" : "Create or join a team"}
+          accessibilityRole="link"
+        >
+          <ThemedText style={styles.teamSummaryText}>
+            {isAuthenticated && !isDemoMode
+              ? myTeam
+                ? `${myTeam.teamName} · you added ${myTeam.points} this week`
+                : "Log together as a household or office"
+              : "Sign in to join a team"}
+          </ThemedText>
+          {isAuthenticated && !isDemoMode && (
+            <ThemedText style={styles.manageFriendsText}>
+              {myTeam ? "Manage team" : "Create or join a team"}
+            </ThemedText>
+          )}
+        </Pressable>
+      ) : (
+        <>
+          {/* User Rank Card (Sticky) */}
+          <UserRankCard rankInfo={userRankInfo} loading={loading} />
+
+          {/* Closest Competitors Carousel */}
+          <ClosestCompetitorsCarousel
+            competitors={closestCompetitors}
+            loading={loading}
+          />
+        </>
+      )}
 
       {/* Rankings List */}
       {loading ? (
@@ -515,7 +769,7 @@ const styles = StyleSheet.create({
   tab: {
     flex: 1,
     paddingVertical: 12,
-    paddingHorizontal: 20,
+    paddingHorizontal: 12,
     borderRadius: 12,
     alignItems: "center",
     backgroundColor: "rgba(0, 0, 0, 0.05)",
@@ -532,6 +786,61 @@ const styles = StyleSheet.create({
     color: "#FFFFFF",
     opacity: 1,
   },
+  periodBar: {
+    flexDirection: "row",
+    paddingHorizontal: 20,
+    marginBottom: 16,
+    gap: 8,
+  },
+  periodChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 16,
+    alignItems: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  periodChipActive: {
+    backgroundColor: "#34C759",
+  },
+  periodChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    opacity: 0.6,
+  },
+  periodChipTextActive: {
+    color: "#FFFFFF",
+    opacity: 1,
+  },
+  cacheAgeText: {
+    fontSize: 12,
+    opacity: 0.6,
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  manageFriendsLink: {
+    alignSelf: "center",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  teamSummary: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 12,
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "rgba(52, 199, 89, 0.1)",
+  },
+  teamSummaryText: {
+    fontSize: 14,
+    textAlign: "center",
+  },
+  manageFriendsText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#34C759",
+  },
   userCard: {
     marginHorizontal: 20,
     marginBottom: 16,
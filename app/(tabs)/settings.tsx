@@ -4,10 +4,19 @@ import { ThemedView } from "@/components/themed-view";
 import { useAuth } from "@/contexts/auth-context";
 import { useDemoMode } from "@/contexts/demo-mode-context";
 import { useReducedMotion } from "@/contexts/reduced-motion-context";
+import {
+  getAutoSyncSetting,
+  getSyncIntervalSetting,
+  setAutoSyncSetting,
+  setSyncIntervalSetting,
+  SYNC_INTERVAL_OPTIONS_MS,
+} from "@/services/sync-scheduler";
+import { syncService } from "@/services/sync-service";
+import { exportUserData } from "@/utils/data-export";
 import { Ionicons } from "@expo/vector-icons";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
 import {
   Alert,
   Platform,
@@ -22,7 +31,14 @@ import {
 const HAPTIC_FEEDBACK_KEY = "econest_haptic_feedback";
 
 export default function SettingsScreen() {
-  const { user, signOut, updatePrivacy, isAuthenticated } = useAuth();
+  const {
+    user,
+    signOut,
+    updatePrivacy,
+    isAuthenticated,
+    exportMyData,
+    deleteAccount,
+  } = useAuth();
   const { isDemoMode, deactivateDemoMode } = useDemoMode();
   const {
     reducedMotion,
@@ -31,14 +47,32 @@ export default function SettingsScreen() {
   } = useReducedMotion();
   const router = useRouter();
   const [isSigningOut, setIsSigningOut] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDeletingAccount, setIsDeletingAccount] = useState(false);
   const [hapticFeedback, setHapticFeedback] = useState(true);
   const [isLoadingHaptic, setIsLoadingHaptic] = useState(true);
+  const [failedCount, setFailedCount] = useState(0);
+  const [autoSync, setAutoSync] = useState(true);
+  const [syncIntervalMs, setSyncIntervalMs] = useState(
+    SYNC_INTERVAL_OPTIONS_MS[0]
+  );
+  const [isLoadingSync, setIsLoadingSync] = useState(true);
 
-  // Load haptic feedback setting on mount
+  // Load haptic feedback and sync settings on mount
   useEffect(() => {
     loadHapticSetting();
+    loadSyncSettings();
   }, []);
 
+  // Refresh the failed item count whenever the screen is shown
+  useFocusEffect(
+    useCallback(() => {
+      syncService
+        .getFailedItems()
+        .then((items) => setFailedCount(items.length));
+    }, [])
+  );
+
   const loadHapticSetting = async () => {
     try {
       const hapticValue = await AsyncStorage.getItem(HAPTIC_FEEDBACK_KEY);
@@ -50,6 +84,38 @@ export default function SettingsScreen() {
     }
   };
 
+  const loadSyncSettings = async () => {
+    try {
+      setAutoSync(await getAutoSyncSetting());
+      setSyncIntervalMs(await getSyncIntervalSetting());
+    } finally {
+      setIsLoadingSync(false);
+    }
+  };
+
+  const handleAutoSyncToggle = async (value: boolean) => {
+    try {
+      setAutoSync(value);
+      await setAutoSyncSetting(value);
+    } catch (error) {
+      console.error("Failed to save auto sync setting:", error);
+      setAutoSync(!value); // Revert on error
+      Alert.alert("Error", "Failed to save setting. Please try again.");
+    }
+  };
+
+  const handleSyncIntervalChange = async (intervalMs: number) => {
+    const previous = syncIntervalMs;
+    try {
+      setSyncIntervalMs(intervalMs);
+      await setSyncIntervalSetting(intervalMs);
+    } catch (error) {
+      console.error("Failed to save sync interval setting:", error);
+      setSyncIntervalMs(previous); // Revert on error
+      Alert.alert("Error", "Failed to save setting. Please try again.");
+    }
+  };
+
   const handlePrivacyChange = async (isAnonymous: boolean) => {
     if (isAuthenticated && !isDemoMode) {
       try {
@@ -83,6 +149,56 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleExportData = async () => {
+    try {
+      setIsExporting(true);
+      const serverData =
+        isAuthenticated && !isDemoMode ? await exportMyData() : null;
+      const fileName = await exportUserData(serverData);
+      if (Platform.OS === "web") {
+        Alert.alert("Export Complete", `Saved ${fileName}`);
+      }
+    } catch (error) {
+      console.error("Failed to export data:", error);
+      Alert.alert("Error", "Failed to export your data. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDeleteAccount = () => {
+    Alert.alert(
+      "Delete Account",
+      "This permanently deletes your account, EcoPoints and habit history from EcoNest and this device. This cannot be undone.",
+      [
+        {
+          text: "Cancel",
+          style: "cancel",
+        },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              setIsDeletingAccount(true);
+              await deleteAccount();
+              router.replace("/(auth)");
+            } catch (error) {
+              console.error("Failed to delete account:", error);
+              Alert.alert(
+                "Error",
+                "Failed to delete your account. Please try again."
+              );
+            } finally {
+              setIsDeletingAccount(false);
+            }
+          },
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
   const handleSignOut = () => {
     Alert.alert(
       "Sign Out",
@@ -145,12 +261,77 @@ export default function SettingsScreen() {
                 {isDemoMode ? "Demo User" : user.displayName}
               </ThemedText>
 
+              {!isDemoMode && user.bio ? (
+                <>
+                  <ThemedText style={styles.accountLabel}>Bio</ThemedText>
+                  <ThemedText style={styles.accountValue}>{user.bio}</ThemedText>
+                </>
+              ) : null}
+
               <ThemedText style={styles.accountLabel}>EcoPoints</ThemedText>
               <ThemedText style={styles.accountValue}>
                 {user.ecoPoints}
               </ThemedText>
             </View>
           )}
+
+          {isAuthenticated && !isDemoMode && (
+            <Pressable
+              style={({ pressed }) => [
+                styles.settingRow,
+                styles.accountAction,
+                pressed && styles.accountActionPressed,
+              ]}
+              onPress={() => router.push("/(account)/edit-profile")}
+              accessible={true}
+              accessibilityLabel="Edit profile"
+              accessibilityHint="Change your display name, avatar and bio"
+              accessibilityRole="button"
+            >
+              <View style={styles.settingTextContainer}>
+                <ThemedText style={styles.settingLabel}>Edit Profile</ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  Display name, avatar and bio
+                </ThemedText>
+              </View>
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color="#999"
+                accessibilityElementsHidden={true}
+              />
+            </Pressable>
+          )}
+
+          {isAuthenticated && !isDemoMode && (
+            <Pressable
+              style={({ pressed }) => [
+                styles.settingRow,
+                styles.accountAction,
+                pressed && styles.accountActionPressed,
+              ]}
+              onPress={() => router.push("/(account)/change-password")}
+              accessible={true}
+              accessibilityLabel="Change password"
+              accessibilityHint="Opens a form to change your account password"
+              accessibilityRole="button"
+            >
+              <View style={styles.settingTextContainer}>
+                <ThemedText style={styles.settingLabel}>
+                  Change Password
+                </ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  Update the password for your account
+                </ThemedText>
+              </View>
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color="#999"
+                accessibilityElementsHidden={true}
+              />
+            </Pressable>
+          )}
         </View>
 
         {/* Privacy Section */}
@@ -234,6 +415,176 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Sync Section */}
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>Sync</ThemedText>
+
+          {/* Auto Sync Toggle */}
+          <View
+            style={styles.settingRow}
+            accessible={true}
+            accessibilityLabel={`Auto Sync: ${autoSync ? "enabled" : "disabled"}`}
+            accessibilityHint="Syncs in the background instead of only when you tap Sync"
+          >
+            <View style={styles.settingTextContainer}>
+              <ThemedText style={styles.settingLabel}>Auto Sync</ThemedText>
+              <ThemedText style={styles.settingDescription}>
+                {autoSync
+                  ? "Sync when the app opens, after logging and when back online"
+                  : "Manual only — sync by tapping the Sync button"}
+              </ThemedText>
+            </View>
+            <Switch
+              value={autoSync}
+              onValueChange={handleAutoSyncToggle}
+              disabled={isLoadingSync}
+              trackColor={{ false: "#767577", true: "#81b0ff" }}
+              thumbColor={autoSync ? "#34C759" : "#f4f3f4"}
+              accessible={true}
+              accessibilityLabel={`Auto sync ${autoSync ? "enabled" : "disabled"}`}
+              accessibilityRole="switch"
+              accessibilityState={{
+                checked: autoSync,
+                disabled: isLoadingSync,
+              }}
+            />
+          </View>
+
+          {/* Sync Interval */}
+          {autoSync && (
+            <View style={styles.settingRow}>
+              <View style={styles.settingTextContainer}>
+                <ThemedText style={styles.settingLabel}>Sync Every</ThemedText>
+                <View style={styles.intervalOptions}>
+                  {SYNC_INTERVAL_OPTIONS_MS.map((intervalMs) => {
+                    const selected = intervalMs === syncIntervalMs;
+                    return (
+                      <Pressable
+                        key={intervalMs}
+                        style={[
+                          styles.intervalChip,
+                          selected && styles.intervalChipSelected,
+                        ]}
+                        onPress={() => handleSyncIntervalChange(intervalMs)}
+                        disabled={isLoadingSync}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Sync every ${intervalMs / 60000} minutes`}
+                        accessibilityState={{ selected }}
+                      >
+                        <ThemedText
+                          style={[
+                            styles.intervalChipText,
+                            selected && styles.intervalChipTextSelected,
+                          ]}
+                        >
+                          {intervalMs / 60000} min
+                        </ThemedText>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
+            </View>
+          )}
+        </View>
+
+        {/* Your Data Section */}
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>Your Data</ThemedText>
+
+          {failedCount > 0 && (
+            <Pressable
+              style={({ pressed }) => [
+                styles.settingRow,
+                pressed && styles.accountActionPressed,
+              ]}
+              onPress={() => router.push("/(account)/failed-items")}
+              accessible={true}
+              accessibilityLabel={`Failed items, ${failedCount}`}
+              accessibilityHint="Review logs that could not be uploaded"
+              accessibilityRole="button"
+            >
+              <View style={styles.settingTextContainer}>
+                <ThemedText style={[styles.settingLabel, styles.dangerText]}>
+                  Failed Items ({failedCount})
+                </ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  Logs that could not be uploaded — retry or discard them
+                </ThemedText>
+              </View>
+              <Ionicons
+                name="alert-circle-outline"
+                size={20}
+                color="#f44336"
+                accessibilityElementsHidden={true}
+              />
+            </Pressable>
+          )}
+
+          <Pressable
+            style={({ pressed }) => [
+              styles.settingRow,
+              pressed && styles.accountActionPressed,
+            ]}
+            onPress={handleExportData}
+            disabled={isExporting}
+            accessible={true}
+            accessibilityLabel="Export my data"
+            accessibilityHint="Saves a JSON file with everything stored about you"
+            accessibilityRole="button"
+            accessibilityState={{ disabled: isExporting, busy: isExporting }}
+          >
+            <View style={styles.settingTextContainer}>
+              <ThemedText style={styles.settingLabel}>
+                {isExporting ? "Exporting..." : "Export My Data"}
+              </ThemedText>
+              <ThemedText style={styles.settingDescription}>
+                Download your account and local habit history as JSON
+              </ThemedText>
+            </View>
+            <Ionicons
+              name="download-outline"
+              size={20}
+              color="#999"
+              accessibilityElementsHidden={true}
+            />
+          </Pressable>
+
+          {isAuthenticated && !isDemoMode && (
+            <Pressable
+              style={({ pressed }) => [
+                styles.settingRow,
+                pressed && styles.accountActionPressed,
+              ]}
+              onPress={handleDeleteAccount}
+              disabled={isDeletingAccount}
+              accessible={true}
+              accessibilityLabel="Delete account"
+              accessibilityHint="Permanently deletes your account and all of its data"
+              accessibilityRole="button"
+              accessibilityState={{
+                disabled: isDeletingAccount,
+                busy: isDeletingAccount,
+              }}
+            >
+              <View style={styles.settingTextContainer}>
+                <ThemedText style={[styles.settingLabel, styles.dangerText]}>
+                  {isDeletingAccount ? "Deleting..." : "Delete Account"}
+                </ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  Permanently remove your account and all data
+                </ThemedText>
+              </View>
+              <Ionicons
+                name="trash-outline"
+                size={20}
+                color="#f44336"
+                accessibilityElementsHidden={true}
+              />
+            </Pressable>
+          )}
+        </View>
+
         {/* About Section */}
         <View style={styles.section}>
           <ThemedText style={styles.sectionTitle}>About</ThemedText>
@@ -354,6 +705,37 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     marginTop: 4,
   },
+  accountAction: {
+    marginTop: 12,
+    marginBottom: 0,
+  },
+  accountActionPressed: {
+    opacity: 0.7,
+  },
+  dangerText: {
+    color: "#f44336",
+  },
+  intervalOptions: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 8,
+  },
+  intervalChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.05)",
+  },
+  intervalChipSelected: {
+    backgroundColor: "#34C759",
+  },
+  intervalChipText: {
+    fontSize: 14,
+  },
+  intervalChipTextSelected: {
+    color: "#fff",
+    fontWeight: "600",
+  },
   disabledNote: {
     fontSize: 12,
     opacity: 0.5,
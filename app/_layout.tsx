@@ -42,9 +42,18 @@ function RootLayoutNav() {
 
     const inAuthGroup = segments[0] === "(auth)";
     const inTabsGroup = segments[0] === "(tabs)";
+    const inAccountGroup = segments[0] === "(account)";
 
-    if (isAuthenticated || isDemoMode) {
-      // User is authenticated or in demo mode, redirect to tabs
+    // Invite links open for everyone; the screen handles signed-out users
+    if (segments[0] === "invite") return;
+
+    if (isAuthenticated) {
+      // Signed in, redirect to tabs unless managing the account
+      if (!inTabsGroup && !inAccountGroup) {
+        router.replace("/(tabs)");
+      }
+    } else if (isDemoMode) {
+      // Demo mode has no account to manage
       if (!inTabsGroup) {
         router.replace("/(tabs)");
       }
@@ -65,6 +74,8 @@ function RootLayoutNav() {
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="(auth)" />
       <Stack.Screen name="(tabs)" />
+      <Stack.Screen name="(account)" />
+      <Stack.Screen name="invite/[code]" />
       <Stack.Screen
         name="modal"
         options={{ presentation: "modal", title: "Modal" }}
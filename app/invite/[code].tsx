@@ -0,0 +1,212 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { Avatar } from "@/components/ui/avatar";
+import { useAuth } from "@/contexts/auth-context";
+import { useDemoMode } from "@/contexts/demo-mode-context";
+import { api } from "@/convex/_generated/api";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import { inviteService } from "@/services/invite-service";
+import { useQuery } from "convex/react";
+import * as Haptics from "expo-haptics";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, View } from "react-native";
+
+export default function InviteScreen() {
+  const router = useRouter();
+  const { code } = useLocalSearchParams<{ code: string }>();
+  const { isAuthenticated, sessionToken, user } = useAuth();
+  const { isDemoMode, deactivateDemoMode } = useDemoMode();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [added, setAdded] = useState(false);
+
+  // Theme colors
+  const tintColor = useThemeColor({}, "tint");
+  const iconColor = useThemeColor({}, "icon");
+
+  const invite = useQuery(api.invites.getInvite, code ? { code } : "skip");
+
+  const isOwnInvite = invite?.inviter.userId === user?.userId;
+  const canAccept = invite?.status === "valid" && !isOwnInvite && !added;
+
+  const handleAccept = async () => {
+    if (!code) return;
+
+    // Signed out: keep the invite and finish it once a session exists
+    if (!isAuthenticated || !sessionToken) {
+      await inviteService.queueInvite(code);
+      if (isDemoMode) {
+        await deactivateDemoMode();
+      }
+      router.replace("/(auth)");
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError("");
+      await inviteService.redeemInvite(sessionToken, code);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setAdded(true);
+    } catch (err: any) {
+      setError(err.message || "Couldn't accept the invite. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDone = () => {
+    router.replace(isAuthenticated || isDemoMode ? "/(tabs)" : "/(auth)");
+  };
+
+  const describeInvite = (): string => {
+    if (!invite) {
+      return "This invite link isn't valid. Ask your friend to send a new one.";
+    }
+    if (added) {
+      return `You and ${invite.inviter.displayName} are now friends.`;
+    }
+    if (isOwnInvite) {
+      return "This is your own invite. Share it with a friend to connect.";
+    }
+    if (invite.status === "expired") {
+      return "This invite has expired. Ask for a new link.";
+    }
+    if (invite.status === "used_up") {
+      return "This invite has already been used. Ask for a new link.";
+    }
+    return `${invite.inviter.displayName} invited you to be friends on EcoNest and compare eco points.`;
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.content}>
+        <ThemedText type="title" style={styles.title}>
+          Friend invite
+        </ThemedText>
+
+        {invite === undefined && code ? (
+          <ActivityIndicator color={tintColor} />
+        ) : (
+          <>
+            {invite && (
+              <View style={styles.inviterContainer}>
+                <Avatar
+                  name={invite.inviter.displayName}
+                  emoji={invite.inviter.avatarEmoji}
+                  color={invite.inviter.avatarColor}
+                  size={72}
+                />
+                <ThemedText style={styles.inviterName}>
+                  {invite.inviter.displayName}
+                </ThemedText>
+              </View>
+            )}
+
+            <ThemedText style={[styles.message, { color: iconColor }]}>
+              {describeInvite()}
+            </ThemedText>
+
+            {/* Error Message */}
+            {error ? (
+              <View style={styles.errorContainer}>
+                <ThemedText style={styles.errorText}>{error}</ThemedText>
+              </View>
+            ) : null}
+
+            {canAccept && (
+              <Pressable
+                style={[
+                  styles.submitButton,
+                  { backgroundColor: tintColor, opacity: isLoading ? 0.6 : 1 },
+                ]}
+                onPress={handleAccept}
+                disabled={isLoading}
+                accessibilityRole="button"
+              >
+                {isLoading ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <ThemedText style={styles.submitButtonText}>
+                    {isAuthenticated ? "Add friend" : "Sign in to accept"}
+                  </ThemedText>
+                )}
+              </Pressable>
+            )}
+          </>
+        )}
+
+        <Pressable
+          style={styles.linkContainer}
+          onPress={handleDone}
+          disabled={isLoading}
+        >
+          <ThemedText style={[styles.linkText, { color: iconColor }]}>
+            {canAccept ? "Not now" : "Done"}
+          </ThemedText>
+        </Pressable>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: 24,
+  },
+  title: {
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  inviterContainer: {
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 16,
+  },
+  inviterName: {
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  message: {
+    fontSize: 16,
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  errorContainer: {
+    backgroundColor: "#fee",
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: "#c00",
+    fontSize: 14,
+  },
+  submitButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  submitButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  linkContainer: {
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
@@ -1,5 +1,6 @@
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { Avatar } from "@/components/ui/avatar";
 import { getCachedLeaderboard, getUserStats } from "@/services/database";
 import { memo, useCallback, useEffect, useState } from "react";
 import { StyleSheet } from "react-native";
@@ -9,6 +10,8 @@ interface Competitor {
   ecoPoints: number;
   rank: number;
   isUser: boolean;
+  avatarEmoji?: string;
+  avatarColor?: string;
 }
 
 export const ClosestCompetitors = memo(function ClosestCompetitors() {
@@ -43,6 +46,8 @@ export const ClosestCompetitors = memo(function ClosestCompetitors() {
         ecoPoints: entry.eco_points,
         rank: entry.rank,
         isUser: entry.rank === userRank,
+        avatarEmoji: entry.avatar_emoji ?? undefined,
+        avatarColor: entry.avatar_color ?? undefined,
       }));
 
       setCompetitors(closest);
@@ -73,6 +78,12 @@ export const ClosestCompetitors = memo(function ClosestCompetitors() {
           >
             <ThemedView style={styles.leftSection}>
               <ThemedText style={styles.rank}>#{competitor.rank}</ThemedText>
+              <Avatar
+                name={competitor.displayName}
+                emoji={competitor.avatarEmoji}
+                color={competitor.avatarColor}
+                size={28}
+              />
               <ThemedText
                 style={[styles.name, competitor.isUser && styles.userName]}
                 numberOfLines={1}
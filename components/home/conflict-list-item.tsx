@@ -1,7 +1,11 @@
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { Microcopy } from "@/constants/theme";
 import { useThemeColor } from "@/hooks/use-theme-color";
-import type { ConflictItem } from "@/services/sync-service";
+import type {
+  ConflictItem,
+  ConflictResolution,
+} from "@/services/sync-service";
 import { syncService } from "@/services/sync-service";
 import * as Haptics from "expo-haptics";
 import { useState } from "react";
@@ -28,7 +32,7 @@ export function ConflictListItem({
   const accentColor = useThemeColor({}, "accent");
   const alertColor = useThemeColor({}, "alert");
 
-  const handleResolve = async (resolution: "local" | "server") => {
+  const handleResolve = async (resolution: ConflictResolution) => {
     setIsResolving(true);
 
     // Light haptic feedback
@@ -39,7 +43,11 @@ export function ConflictListItem({
     }
 
     try {
-      await syncService.handleConflict(conflict.id, resolution);
+      await syncService.handleConflict(
+        conflict.id,
+        resolution,
+        conflict.serverData
+      );
 
       // Success haptic
       try {
@@ -156,7 +164,9 @@ export function ConflictListItem({
           {isResolving ? (
             <ActivityIndicator color="#FFFFFF" size="small" />
           ) : (
-            <ThemedText style={styles.primaryButtonText}>Keep Local</ThemedText>
+            <ThemedText style={styles.primaryButtonText}>
+              {Microcopy.actions.keepLocal}
+            </ThemedText>
           )}
         </TouchableOpacity>
 
@@ -174,7 +184,27 @@ export function ConflictListItem({
           <ThemedText
             style={[styles.secondaryButtonText, { color: textColor }]}
           >
-            Use Server
+            {Microcopy.actions.useServer}
+          </ThemedText>
+        </TouchableOpacity>
+
+        {/* Merge (secondary) - combines both versions into the server entry */}
+        <TouchableOpacity
+          style={[
+            styles.secondaryButton,
+            { borderColor: textColor + "40" },
+            isResolving && styles.buttonDisabled,
+          ]}
+          onPress={() => handleResolve("merge")}
+          disabled={isResolving || !conflict.serverData}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityHint="Combines this device's entry into the server entry"
+        >
+          <ThemedText
+            style={[styles.secondaryButtonText, { color: textColor }]}
+          >
+            {Microcopy.actions.merge}
           </ThemedText>
         </TouchableOpacity>
       </View>
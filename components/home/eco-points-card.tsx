@@ -4,12 +4,18 @@ import { Card } from "@/components/ui/card";
 import { BorderRadius, Spacing, Typography } from "@/constants/theme";
 import { useThemeColor } from "@/hooks/use-theme-color";
 import { getUserStats } from "@/services/database";
+import {
+  leaderboardService,
+  type TeamContribution,
+} from "@/services/leaderboard-service";
 import { memo, useCallback, useEffect, useState } from "react";
 import { StyleSheet, View } from "react-native";
 
 export const EcoPointsCard = memo(function EcoPointsCard() {
   const [ecoPoints, setEcoPoints] = useState(0);
   const [rank, setRank] = useState<number | null>(null);
+  const [teamContribution, setTeamContribution] =
+    useState<TeamContribution | null>(null);
   const accentColor = useThemeColor({}, "accent");
 
   const loadStats = useCallback(async () => {
@@ -20,6 +26,8 @@ export const EcoPointsCard = memo(function EcoPointsCard() {
     } catch (error) {
       console.error("Failed to load user stats:", error);
     }
+
+    setTeamContribution(await leaderboardService.getTeamContribution());
   }, []);
 
   useEffect(() => {
@@ -56,6 +64,18 @@ export const EcoPointsCard = memo(function EcoPointsCard() {
           {`You're ranked #${rank} globally`}
         </ThemedText>
       )}
+
+      {teamContribution && (
+        <ThemedText
+          type="bodySmall"
+          variant="secondary"
+          style={styles.teamContribution}
+        >
+          {`You added ${teamContribution.points} ${
+            teamContribution.points === 1 ? "point" : "points"
+          } to ${teamContribution.teamName} this week`}
+        </ThemedText>
+      )}
     </Card>
   );
 });
@@ -94,4 +114,7 @@ const styles = StyleSheet.create({
   pointsLabel: {
     // Inherits from bodyLarge type
   },
+  teamContribution: {
+    marginTop: Spacing.xs,
+  },
 });
@@ -1,5 +1,6 @@
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { Avatar } from "@/components/ui/avatar";
 import { BorderRadius, Spacing, Typography } from "@/constants/theme";
 import { useAuth } from "@/contexts/auth-context";
 import { useDemoMode } from "@/contexts/demo-mode-context";
@@ -16,20 +17,28 @@ export function GreetingHeader() {
 
   return (
     <ThemedView style={styles.container}>
-      <ThemedText type="h3" variant="secondary" style={styles.greeting}>
-        {greeting}
-      </ThemedText>
-      <View style={styles.nameRow}>
-        <ThemedText type="h2" style={styles.name}>
-          {displayName}
+      <Avatar
+        name={displayName}
+        emoji={isDemoMode ? "🌱" : user?.avatarEmoji}
+        color={isDemoMode ? undefined : user?.avatarColor}
+        size={48}
+      />
+      <View style={styles.textColumn}>
+        <ThemedText type="h3" variant="secondary" style={styles.greeting}>
+          {greeting}
         </ThemedText>
-        {isDemoMode && (
-          <View style={[styles.demoBadge, { backgroundColor: warningColor }]}>
-            <ThemedText type="caption" style={styles.demoText}>
-              Demo
-            </ThemedText>
-          </View>
-        )}
+        <View style={styles.nameRow}>
+          <ThemedText type="h2" style={styles.name}>
+            {displayName}
+          </ThemedText>
+          {isDemoMode && (
+            <View style={[styles.demoBadge, { backgroundColor: warningColor }]}>
+              <ThemedText type="caption" style={styles.demoText}>
+                Demo
+              </ThemedText>
+            </View>
+          )}
+        </View>
       </View>
     </ThemedView>
   );
@@ -47,6 +56,12 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.screenPadding,
     paddingTop: Spacing.lg,
     paddingBottom: Spacing.md,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  textColumn: {
+    flex: 1,
   },
   greeting: {
     marginBottom: Spacing.xs,
@@ -20,7 +20,8 @@ export type HabitType =
   | "meatless"
   | "reusable"
   | "compost"
-  | "water";
+  | "water"
+  | "custom";
 
 interface HabitButtonProps {
   type: HabitType;
@@ -28,6 +29,7 @@ interface HabitButtonProps {
   icon: string;
   color: string;
   onPress: () => void;
+  onLongPress?: () => void; // e.g. to enter a quantity
   disabled?: boolean;
   cappedOut?: boolean;
 }
@@ -37,6 +39,7 @@ export const HabitButton = memo(function HabitButton({
   icon,
   color,
   onPress,
+  onLongPress,
   disabled = false,
   cappedOut = false,
 }: HabitButtonProps) {
@@ -98,6 +101,7 @@ export const HabitButton = memo(function HabitButton({
             (disabled || cappedOut) && styles.disabled,
           ]}
           onPress={handlePress}
+          onLongPress={onLongPress}
           activeOpacity={0.7}
           disabled={disabled || cappedOut}
           accessible={true}
@@ -107,7 +111,9 @@ export const HabitButton = memo(function HabitButton({
               ? "Daily maximum reached for this habit"
               : disabled
                 ? "This habit is currently unavailable"
-                : `Tap to log ${label} and earn EcoPoints`
+                : onLongPress
+                  ? `Tap to log ${label} and earn EcoPoints, or long press to enter an amount`
+                  : `Tap to log ${label} and earn EcoPoints`
           }
           accessibilityRole="button"
           accessibilityState={{
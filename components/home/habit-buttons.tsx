@@ -1,17 +1,34 @@
 import { ThemedText } from "@/components/themed-text";
 import { Card } from "@/components/ui/card";
-import { Microcopy, Spacing } from "@/constants/theme";
-import { habitService } from "@/services/habit-service";
-import { useEffect, useState } from "react";
-import { StyleSheet, View } from "react-native";
+import {
+  BorderRadius,
+  Microcopy,
+  Spacing,
+  Typography,
+} from "@/constants/theme";
+import { useAuth } from "@/contexts/auth-context";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import { customHabitService } from "@/services/custom-habit-service";
+import {
+  getHabitKey,
+  habitService,
+  QUANTITY_FORMULAS,
+  type LogHabitOptions,
+} from "@/services/habit-service";
+import { getDayString } from "@/utils/day";
+import { useFocusEffect, useRouter } from "expo-router";
+import { useCallback, useState } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
 import { HabitButton, type HabitType } from "./habit-button";
+import { QuantitySheet } from "./quantity-sheet";
 
 interface HabitButtonsProps {
-  onHabitPress: (habitType: HabitType) => void;
+  onHabitPress: (habitType: HabitType, options?: LogHabitOptions) => void;
 }
 
 interface HabitConfig {
   type: HabitType;
+  customHabitId?: string;
   label: string;
   icon: string;
   color: string;
@@ -26,44 +43,102 @@ const HABITS: HabitConfig[] = [
   { type: "water", label: "Water", icon: "💧", color: "#30B0C7" },
 ];
 
+const keyOf = (habit: HabitConfig) =>
+  getHabitKey(habit.type, habit.customHabitId);
+
+/**
+ * Label a day offered for logging: Today, Yesterday, then weekday names
+ */
+function formatDayOption(day: string, index: number): string {
+  if (index === 0) return "Today";
+  if (index === 1) return "Yesterday";
+  return new Date(`${day}T12:00:00`).toLocaleDateString(undefined, {
+    weekday: "long",
+  });
+}
+
 export function HabitButtons({ onHabitPress }: HabitButtonsProps) {
-  const [cappedHabits, setCappedHabits] = useState<Set<HabitType>>(new Set());
-  const [debouncing, setDebouncing] = useState<Set<HabitType>>(new Set());
-
-  // Check which habits are capped out
-  useEffect(() => {
-    const checkCaps = async () => {
-      const capped = new Set<HabitType>();
-      for (const habit of HABITS) {
-        const canLog = await habitService.canLogHabit(habit.type);
-        if (!canLog) {
-          capped.add(habit.type);
+  const router = useRouter();
+  const { isAuthenticated } = useAuth();
+  const iconColor = useThemeColor({}, "icon");
+  const [habits, setHabits] = useState<HabitConfig[]>(HABITS);
+  const [cappedHabits, setCappedHabits] = useState<Set<string>>(new Set());
+  const [debouncing, setDebouncing] = useState<Set<string>>(new Set());
+  const [quantityHabit, setQuantityHabit] = useState<HabitConfig | null>(null);
+  // A past day to backfill, or null for today
+  const [backfillDay, setBackfillDay] = useState<string | null>(null);
+  const dayOptions = [
+    getDayString(Date.now()),
+    ...habitService.getBackfillDays(),
+  ];
+  const quantityFormula =
+    quantityHabit && QUANTITY_FORMULAS[quantityHabit.type];
+
+  // Load custom habits and check which habits are capped out on the chosen
+  // day, again whenever the screen regains focus after habits were edited
+  useFocusEffect(
+    useCallback(() => {
+      const loadHabits = async () => {
+        const customHabits = await customHabitService.getCustomHabits();
+        const allHabits: HabitConfig[] = [
+          ...HABITS,
+          ...customHabits.map((habit) => ({
+            type: "custom" as const,
+            customHabitId: habit.id,
+            label: habit.name,
+            icon: habit.emoji,
+            color: habit.color,
+          })),
+        ];
+
+        const capped = new Set<string>();
+        for (const habit of allHabits) {
+          const canLog = await habitService.canLogHabit(
+            habit.type,
+            habit.customHabitId,
+            backfillDay ?? undefined
+          );
+          if (!canLog) {
+            capped.add(keyOf(habit));
+          }
         }
-      }
-      setCappedHabits(capped);
-    };
 
-    checkCaps();
-  }, []);
+        setHabits(allHabits);
+        setCappedHabits(capped);
+      };
+
+      loadHabits();
+    }, [backfillDay])
+  );
+
+  const handlePress = async (habit: HabitConfig, quantity?: number) => {
+    const habitKey = keyOf(habit);
 
-  const handlePress = async (habitType: HabitType) => {
     // Add debounce
-    setDebouncing((prev) => new Set(prev).add(habitType));
+    setDebouncing((prev) => new Set(prev).add(habitKey));
 
     // Call parent handler
-    await onHabitPress(habitType);
+    await onHabitPress(habit.type, {
+      customHabitId: habit.customHabitId,
+      quantity,
+      day: backfillDay ?? undefined,
+    });
 
     // Check if now capped
-    const canLog = await habitService.canLogHabit(habitType);
+    const canLog = await habitService.canLogHabit(
+      habit.type,
+      habit.customHabitId,
+      backfillDay ?? undefined
+    );
     if (!canLog) {
-      setCappedHabits((prev) => new Set(prev).add(habitType));
+      setCappedHabits((prev) => new Set(prev).add(habitKey));
     }
 
     // Remove debounce after 300ms
     setTimeout(() => {
       setDebouncing((prev) => {
         const next = new Set(prev);
-        next.delete(habitType);
+        next.delete(habitKey);
         return next;
       });
     }, 300);
@@ -75,19 +150,75 @@ export function HabitButtons({ onHabitPress }: HabitButtonsProps) {
         Quick Log
       </ThemedText>
 
+      {/* Forgot a day? Log it while it's still in the backfill window */}
+      <View style={styles.dayBar}>
+        {dayOptions.map((day, index) => {
+          const selected = (backfillDay ?? dayOptions[0]) === day;
+          const label = formatDayOption(day, index);
+          return (
+            <TouchableOpacity
+              key={day}
+              style={[
+                styles.dayChip,
+                { borderColor: iconColor },
+                selected && styles.dayChipActive,
+              ]}
+              onPress={() => setBackfillDay(index === 0 ? null : day)}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityLabel={`Log habits for ${label}`}
+              accessibilityState={{ selected }}
+            >
+              <ThemedText
+                style={[
+                  styles.dayChipText,
+                  selected && styles.dayChipTextActive,
+                ]}
+              >
+                {label}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
       <View style={styles.grid}>
-        {HABITS.map((habit) => (
+        {habits.map((habit) => (
           <HabitButton
-            key={habit.type}
+            key={keyOf(habit)}
             type={habit.type}
             label={habit.label}
             icon={habit.icon}
             color={habit.color}
-            onPress={() => handlePress(habit.type)}
-            disabled={debouncing.has(habit.type)}
-            cappedOut={cappedHabits.has(habit.type)}
+            onPress={() => handlePress(habit)}
+            onLongPress={
+              QUANTITY_FORMULAS[habit.type]
+                ? () => setQuantityHabit(habit)
+                : undefined
+            }
+            disabled={debouncing.has(keyOf(habit))}
+            cappedOut={cappedHabits.has(keyOf(habit))}
           />
         ))}
+
+        {/* Custom habits are managed from an account screen */}
+        {isAuthenticated && (
+          <TouchableOpacity
+            style={[styles.addButton, { borderColor: iconColor }]}
+            onPress={() => router.push("/(account)/custom-habits")}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel="Manage custom habits"
+            accessibilityHint="Create, edit or archive your own habits"
+          >
+            <ThemedText style={[styles.addIcon, { color: iconColor }]}>
+              +
+            </ThemedText>
+            <ThemedText style={[styles.addLabel, { color: iconColor }]}>
+              My habits
+            </ThemedText>
+          </TouchableOpacity>
+        )}
       </View>
 
       {cappedHabits.size > 0 && (
@@ -99,6 +230,22 @@ export function HabitButtons({ onHabitPress }: HabitButtonsProps) {
           {Microcopy.status.maxReached} for some habits
         </ThemedText>
       )}
+
+      {/* Long press on a habit with a formula to log an amount */}
+      {quantityHabit && quantityFormula && (
+        <QuantitySheet
+          visible
+          label={quantityHabit.label}
+          icon={quantityHabit.icon}
+          color={quantityHabit.color}
+          formula={quantityFormula}
+          onSubmit={(quantity) => {
+            setQuantityHabit(null);
+            handlePress(quantityHabit, quantity);
+          }}
+          onClose={() => setQuantityHabit(null)}
+        />
+      )}
     </Card>
   );
 }
@@ -111,11 +258,52 @@ const styles = StyleSheet.create({
   title: {
     marginBottom: Spacing.md,
   },
+  dayBar: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  dayChip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  dayChipActive: {
+    backgroundColor: "#34C759",
+    borderColor: "#34C759",
+  },
+  dayChipText: {
+    fontSize: Typography.fontSize.sm,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+  dayChipTextActive: {
+    color: "#FFFFFF",
+  },
   grid: {
     flexDirection: "row",
     flexWrap: "wrap",
     gap: Spacing.itemGap,
   },
+  addButton: {
+    width: 100,
+    height: 100,
+    borderRadius: BorderRadius.xl,
+    borderWidth: 2,
+    borderStyle: "dashed",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  addIcon: {
+    fontSize: 32,
+    lineHeight: 36,
+  },
+  addLabel: {
+    fontSize: Typography.fontSize.xs,
+    fontWeight: Typography.fontWeight.semibold,
+    textAlign: "center",
+  },
   cappedMessage: {
     marginTop: Spacing.md,
     textAlign: "center",
@@ -0,0 +1,104 @@
+import { ThemedText } from "@/components/themed-text";
+import { Card } from "@/components/ui/card";
+import { Spacing, Typography } from "@/constants/theme";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import {
+  formatImpactAmount,
+  impactService,
+  type ImpactEquivalentValue,
+  type ImpactReport,
+} from "@/services/impact-service";
+import { router } from "expo-router";
+import { memo, useCallback, useEffect, useState } from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+
+export const ImpactCard = memo(function ImpactCard() {
+  const [report, setReport] = useState<ImpactReport | null>(null);
+  const [equivalent, setEquivalent] = useState<ImpactEquivalentValue | null>(
+    null
+  );
+  const accentColor = useThemeColor({}, "accent");
+
+  const loadImpact = useCallback(async () => {
+    try {
+      const weekReport = await impactService.getImpactReport("week");
+      setReport(weekReport);
+      setEquivalent(impactService.getEquivalents(weekReport.totals)[0] ?? null);
+    } catch (error) {
+      console.error("Failed to load impact:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadImpact();
+  }, [loadImpact]);
+
+  if (!report) {
+    return null;
+  }
+
+  const stats = [
+    { label: "kg CO₂", value: report.totals.co2Kg },
+    { label: "L water", value: report.totals.waterL },
+    { label: "kg waste", value: report.totals.wasteKg },
+  ];
+
+  return (
+    <Pressable
+      onPress={() => router.push("/(tabs)/impact")}
+      accessibilityRole="button"
+      accessibilityLabel={`This week you saved ${stats
+        .map((stat) => `${formatImpactAmount(stat.value)} ${stat.label}`)
+        .join(", ")}`}
+      accessibilityHint="Opens your impact dashboard"
+    >
+      <Card style={styles.card}>
+        <ThemedText type="h4" style={styles.title}>
+          Your Impact This Week
+        </ThemedText>
+
+        <View style={styles.stats}>
+          {stats.map((stat) => (
+            <View key={stat.label} style={styles.stat}>
+              <ThemedText style={[styles.statValue, { color: accentColor }]}>
+                {formatImpactAmount(stat.value)}
+              </ThemedText>
+              <ThemedText type="caption" variant="secondary">
+                {stat.label}
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+
+        <ThemedText type="bodySmall" variant="secondary">
+          {equivalent
+            ? `That's like ${formatImpactAmount(equivalent.value)} ${equivalent.label}`
+            : "Log a habit to start counting your impact"}
+        </ThemedText>
+      </Card>
+    </Pressable>
+  );
+});
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: Spacing.screenPadding,
+    marginBottom: Spacing.md,
+  },
+  title: {
+    marginBottom: Spacing.md,
+  },
+  stats: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: Spacing.sm,
+  },
+  stat: {
+    flex: 1,
+    alignItems: "center",
+  },
+  statValue: {
+    fontSize: Typography.fontSize["2xl"],
+    fontWeight: Typography.fontWeight.bold,
+  },
+});
@@ -8,6 +8,8 @@ export { GreetingHeader } from './greeting-header';
 export { HabitButton } from './habit-button';
 export type { HabitType } from './habit-button';
 export { HabitButtons } from './habit-buttons';
+export { ImpactCard } from './impact-card';
+export { QuantitySheet } from './quantity-sheet';
 export { SparklineChart } from './sparkline-chart';
 export { StreakProgressRing } from './streak-progress-ring';
 export { SyncButton } from './sync-button';
@@ -0,0 +1,198 @@
+import { ThemedText } from "@/components/themed-text";
+import { ThemedView } from "@/components/themed-view";
+import { BorderRadius, Spacing, Typography } from "@/constants/theme";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import {
+  calculateQuantityPoints,
+  type QuantityFormula,
+} from "@/services/habit-service";
+import { useEffect, useState } from "react";
+import {
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface QuantitySheetProps {
+  visible: boolean;
+  label: string;
+  icon: string;
+  color: string;
+  formula: QuantityFormula;
+  onSubmit: (quantity: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Parse a typed amount, accepting a comma as the decimal separator
+ */
+function parseQuantity(text: string): number | null {
+  const quantity = parseFloat(text.replace(",", "."));
+  return Number.isFinite(quantity) ? quantity : null;
+}
+
+export function QuantitySheet({
+  visible,
+  label,
+  icon,
+  color,
+  formula,
+  onSubmit,
+  onClose,
+}: QuantitySheetProps) {
+  const [text, setText] = useState("");
+  const textColor = useThemeColor({}, "text");
+  const iconColor = useThemeColor({}, "icon");
+
+  // Start empty each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setText("");
+    }
+  }, [visible]);
+
+  const quantity = parseQuantity(text);
+  const isValid =
+    quantity !== null && quantity > 0 && quantity <= formula.maxQuantity;
+
+  const handleSubmit = () => {
+    if (isValid) {
+      onSubmit(quantity);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <Pressable
+          style={StyleSheet.absoluteFill}
+          onPress={onClose}
+          accessibilityLabel="Close"
+        />
+        <ThemedView style={styles.sheet}>
+          <ThemedText type="h4" style={styles.title}>
+            {icon} {label}
+          </ThemedText>
+          <ThemedText type="bodySmall" variant="secondary">
+            How much? Points scale with the amount, up to your daily cap.
+          </ThemedText>
+
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[
+                styles.input,
+                { color: textColor, borderColor: iconColor },
+              ]}
+              value={text}
+              onChangeText={setText}
+              placeholder="0"
+              placeholderTextColor={iconColor}
+              keyboardType="decimal-pad"
+              autoFocus
+              onSubmitEditing={handleSubmit}
+              accessibilityLabel={`Amount in ${formula.unit}`}
+            />
+            <ThemedText style={styles.unit}>{formula.unit}</ThemedText>
+          </View>
+
+          <ThemedText type="caption" variant="secondary" style={styles.preview}>
+            {isValid
+              ? `About ${calculateQuantityPoints(formula, quantity)} points before streak bonus`
+              : `Enter an amount up to ${formula.maxQuantity} ${formula.unit}`}
+          </ThemedText>
+
+          <TouchableOpacity
+            style={[
+              styles.logButton,
+              { backgroundColor: color },
+              !isValid && styles.disabled,
+            ]}
+            onPress={handleSubmit}
+            disabled={!isValid}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: !isValid }}
+          >
+            <ThemedText style={styles.logButtonText}>Log {label}</ThemedText>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={onClose}
+            accessibilityRole="button"
+          >
+            <ThemedText variant="secondary">Cancel</ThemedText>
+          </TouchableOpacity>
+        </ThemedView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  sheet: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    padding: Spacing.lg,
+    paddingBottom: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  title: {
+    marginBottom: Spacing.xs,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    fontSize: Typography.fontSize.xl,
+  },
+  unit: {
+    fontSize: Typography.fontSize.lg,
+    fontWeight: Typography.fontWeight.semibold,
+  },
+  preview: {
+    marginBottom: Spacing.sm,
+  },
+  logButton: {
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    alignItems: "center",
+  },
+  logButtonText: {
+    color: "#FFFFFF",
+    fontWeight: Typography.fontWeight.semibold,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  cancelButton: {
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+  },
+});
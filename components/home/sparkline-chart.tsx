@@ -3,6 +3,8 @@ import { Card } from "@/components/ui/card";
 import { Spacing } from "@/constants/theme";
 import { useThemeColor } from "@/hooks/use-theme-color";
 import { getDatabase } from "@/services/database";
+import { QUANTITY_FORMULAS, type HabitType } from "@/services/habit-service";
+import { addDays, getDayString } from "@/utils/day";
 import { memo, useCallback, useEffect, useMemo, useState } from "react";
 import { StyleSheet, TouchableOpacity, View } from "react-native";
 import Svg, { Polyline } from "react-native-svg";
@@ -10,10 +12,24 @@ import Svg, { Polyline } from "react-native-svg";
 interface DayData {
   date: string;
   points: number;
+  quantities: string; // e.g. "12 km · 3 items", empty if none logged
 }
 
+interface QuantityTotal {
+  habit_type: HabitType;
+  unit: string;
+  total: number;
+}
+
+// Logs count towards the day stored with them, falling back to their
+// local calendar day
+const LOG_DAY_SQL = `COALESCE(json_extract(payload_json, '$.day'), date(created_at / 1000, 'unixepoch', 'localtime'))`;
+
+const formatQuantity = (total: number) => `${Math.round(total * 10) / 10}`;
+
 export const SparklineChart = memo(function SparklineChart() {
   const [data, setData] = useState<DayData[]>([]);
+  const [weekQuantities, setWeekQuantities] = useState<string[]>([]);
   const [expanded, setExpanded] = useState(false);
   const lineColor = useThemeColor({}, "accent");
 
@@ -22,31 +38,65 @@ export const SparklineChart = memo(function SparklineChart() {
       const database = getDatabase();
       const weekData: DayData[] = [];
 
-      // Get data for last 7 days
+      // Get data for last 7 days, bucketing each log by the day stored
+      // with it so logs made while travelling stay on their own day
+      const today = getDayString(Date.now());
       for (let i = 6; i >= 0; i--) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        date.setHours(0, 0, 0, 0);
-        const dayStart = date.getTime();
-
-        const nextDay = new Date(date);
-        nextDay.setDate(nextDay.getDate() + 1);
-        const dayEnd = nextDay.getTime();
+        const day = addDays(today, -i);
 
         const result = await database.getFirstAsync<{ total: number }>(
           `SELECT COALESCE(SUM(json_extract(payload_json, '$.pointsAwarded')), 0) as total
            FROM habits_queue 
-           WHERE created_at >= ? AND created_at < ?`,
-          [dayStart, dayEnd]
+           WHERE ${LOG_DAY_SQL} = ?`,
+          [day]
+        );
+
+        // Amounts logged that day, summed per unit
+        const quantities = await database.getAllAsync<{
+          unit: string;
+          total: number;
+        }>(
+          `SELECT json_extract(payload_json, '$.unit') as unit,
+                  SUM(json_extract(payload_json, '$.quantity')) as total
+           FROM habits_queue
+           WHERE ${LOG_DAY_SQL} = ? AND json_extract(payload_json, '$.quantity') IS NOT NULL
+           GROUP BY unit`,
+          [day]
         );
 
         weekData.push({
-          date: date.toLocaleDateString("en-US", { weekday: "short" }),
+          date: new Date(`${day}T12:00:00.000Z`).toLocaleDateString("en-US", {
+            weekday: "short",
+            timeZone: "UTC",
+          }),
           points: result?.total || 0,
+          quantities: quantities
+            .map((q) => `${formatQuantity(q.total)} ${q.unit}`)
+            .join(" · "),
         });
       }
 
+      // Week totals per habit, e.g. "42 km biked"
+      const weekTotals = await database.getAllAsync<QuantityTotal>(
+        `SELECT json_extract(payload_json, '$.habitType') as habit_type,
+                json_extract(payload_json, '$.unit') as unit,
+                SUM(json_extract(payload_json, '$.quantity')) as total
+         FROM habits_queue
+         WHERE ${LOG_DAY_SQL} BETWEEN ? AND ? AND json_extract(payload_json, '$.quantity') IS NOT NULL
+         GROUP BY habit_type, unit
+         ORDER BY habit_type ASC`,
+        [addDays(today, -6), today]
+      );
+
       setData(weekData);
+      setWeekQuantities(
+        weekTotals.map(
+          (q) =>
+            `${formatQuantity(q.total)} ${
+              QUANTITY_FORMULAS[q.habit_type]?.unitLabel ?? q.unit
+            }`
+        )
+      );
     } catch (error) {
       console.error("Failed to load week data:", error);
     }
@@ -118,9 +168,27 @@ export const SparklineChart = memo(function SparklineChart() {
                 <ThemedText type="bodySmall" variant="secondary">
                   {day.date}
                 </ThemedText>
-                <ThemedText type="label">{day.points} pts</ThemedText>
+                <View style={styles.dayValues}>
+                  <ThemedText type="label">{day.points} pts</ThemedText>
+                  {day.quantities ? (
+                    <ThemedText type="caption" variant="tertiary">
+                      {day.quantities}
+                    </ThemedText>
+                  ) : null}
+                </View>
               </View>
             ))}
+
+            {weekQuantities.length > 0 && (
+              <View style={styles.weekTotals}>
+                <ThemedText type="label">This week</ThemedText>
+                {weekQuantities.map((total) => (
+                  <ThemedText key={total} type="bodySmall" variant="secondary">
+                    {total}
+                  </ThemedText>
+                ))}
+              </View>
+            )}
           </View>
         )}
 
@@ -153,6 +221,13 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     paddingVertical: Spacing.xs,
   },
+  dayValues: {
+    alignItems: "flex-end",
+  },
+  weekTotals: {
+    marginTop: Spacing.sm,
+    gap: Spacing.xs,
+  },
   tapHint: {
     textAlign: "center",
   },
@@ -1,8 +1,12 @@
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import { useThemeColor } from "@/hooks/use-theme-color";
-import { getStreakData } from "@/services/database";
-import type { HabitType } from "@/services/habit-service";
+import { getStreakData, getUserStats } from "@/services/database";
+import {
+  MAX_STREAK_FREEZES,
+  STREAK_FREEZE_EVERY_DAYS,
+  type HabitType,
+} from "@/services/habit-service";
 import { useEffect, useState } from "react";
 import { StyleSheet, View } from "react-native";
 import Svg, { Circle } from "react-native-svg";
@@ -31,6 +35,7 @@ export function StreakProgressRing({
   strokeWidth = 8,
 }: StreakProgressRingProps) {
   const [currentStreak, setCurrentStreak] = useState(0);
+  const [streakFreezes, setStreakFreezes] = useState(0);
   const accentColor = useThemeColor({}, "accent");
   const textColor = useThemeColor({}, "text");
   const backgroundColor = useThemeColor({}, "background");
@@ -43,6 +48,9 @@ export function StreakProgressRing({
     try {
       const streakData = await getStreakData(habitType);
       setCurrentStreak(streakData?.current_streak || 0);
+
+      const userStats = await getUserStats();
+      setStreakFreezes(userStats.streak_freezes ?? 0);
     } catch (error) {
       console.error("Failed to load streak data:", error);
     }
@@ -168,6 +176,25 @@ export function StreakProgressRing({
         })}
       </View>
 
+      {/* Freeze inventory, shared by all habits */}
+      <View
+        style={styles.freezes}
+        accessible={true}
+        accessibilityLabel={`${streakFreezes} of ${MAX_STREAK_FREEZES} streak freezes. A freeze covers a missed day automatically.`}
+        accessibilityRole="text"
+      >
+        <ThemedText style={styles.freezeIcons}>
+          {Array.from({ length: MAX_STREAK_FREEZES }, (_, index) =>
+            index < streakFreezes ? "❄️" : "○"
+          ).join(" ")}
+        </ThemedText>
+        <ThemedText style={styles.freezeText}>
+          {streakFreezes === 0
+            ? `Earn a streak freeze every ${STREAK_FREEZE_EVERY_DAYS} days`
+            : `${streakFreezes} streak ${streakFreezes === 1 ? "freeze" : "freezes"} ready`}
+        </ThemedText>
+      </View>
+
       {/* Progress message */}
       {nextMilestone && (
         <ThemedText style={styles.progressMessage}>
@@ -255,6 +282,19 @@ const styles = StyleSheet.create({
     opacity: 1,
     color: "#34C759",
   },
+  freezes: {
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  freezeIcons: {
+    fontSize: 16,
+    letterSpacing: 2,
+  },
+  freezeText: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginTop: 2,
+  },
   progressMessage: {
     fontSize: 14,
     opacity: 0.7,
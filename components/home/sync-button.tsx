@@ -14,7 +14,7 @@ import {
 } from "react-native";
 import { UnsyncedBadge } from "./unsynced-badge";
 
-import type { ConflictItem } from "@/services/sync-service";
+import type { ConflictItem, SyncProgress } from "@/services/sync-service";
 
 interface SyncButtonProps {
   onSyncComplete?: (uploaded: number, conflicts: ConflictItem[]) => void;
@@ -27,6 +27,7 @@ export function SyncButton({ onSyncComplete, refreshKey }: SyncButtonProps) {
   const [isSyncing, setIsSyncing] = useState(false);
   const [cooldownSeconds, setCooldownSeconds] = useState(0);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
 
   const backgroundColor = useThemeColor({}, "background");
   const accentColor = useThemeColor({}, "accent");
@@ -73,7 +74,7 @@ export function SyncButton({ onSyncComplete, refreshKey }: SyncButtonProps) {
     await triggerHaptic(Haptics.ImpactFeedbackStyle.Light);
 
     try {
-      const result = await syncService.syncPendingItems();
+      const result = await syncService.syncPendingItems(setProgress);
 
       // Success haptic with graceful fallback
       await triggerHaptic(Haptics.NotificationFeedbackType.Success);
@@ -82,6 +83,13 @@ export function SyncButton({ onSyncComplete, refreshKey }: SyncButtonProps) {
       await loadSyncData();
       setCooldownSeconds(5);
 
+      // The drain stopped part-way; the rest is still queued locally
+      if (result.remaining > 0) {
+        setErrorMessage(
+          `${result.remaining} items not uploaded — ${Microcopy.error.noConnection}`
+        );
+      }
+
       // Notify parent with result details
       if (onSyncComplete) {
         onSyncComplete(result.uploaded, result.conflicts);
@@ -94,6 +102,7 @@ export function SyncButton({ onSyncComplete, refreshKey }: SyncButtonProps) {
       setErrorMessage(message);
     } finally {
       setIsSyncing(false);
+      setProgress(null);
     }
   };
 
@@ -150,7 +159,9 @@ export function SyncButton({ onSyncComplete, refreshKey }: SyncButtonProps) {
           accessible={true}
           accessibilityLabel={
             isSyncing
-              ? `${Microcopy.loading.syncing} ${unsyncedCount} items`
+              ? progress
+                ? `Uploading ${progress.processed} of ${progress.total} items`
+                : `${Microcopy.loading.syncing} ${unsyncedCount} items`
               : cooldownSeconds > 0
                 ? `Sync button on cooldown, wait ${cooldownSeconds} seconds`
                 : unsyncedCount > 0
@@ -177,7 +188,9 @@ export function SyncButton({ onSyncComplete, refreshKey }: SyncButtonProps) {
                   accessibilityElementsHidden={true}
                 />
                 <ThemedText type="button" style={styles.buttonText}>
-                  {Microcopy.loading.syncing} {unsyncedCount} items...
+                  {progress
+                    ? `Uploading ${progress.processed}/${progress.total}`
+                    : `${Microcopy.loading.syncing} ${unsyncedCount} items...`}
                 </ThemedText>
               </>
             ) : cooldownSeconds > 0 ? (
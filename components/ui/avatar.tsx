@@ -0,0 +1,67 @@
+import { ThemedText } from "@/components/themed-text";
+import { BorderRadius, Typography } from "@/constants/theme";
+import { useThemeColor } from "@/hooks/use-theme-color";
+import { StyleSheet, View } from "react-native";
+
+// Preset colors offered in the profile editor
+export const AVATAR_COLORS = [
+  "#34C759",
+  "#0A84FF",
+  "#FF9F0A",
+  "#FF375F",
+  "#BF5AF2",
+  "#64D2FF",
+  "#8E8E93",
+];
+
+// Preset emojis offered in the profile editor
+export const AVATAR_EMOJIS = ["🌱", "🌍", "🚲", "♻️", "🌊", "🌻", "🐝", "🦊"];
+
+export type AvatarProps = {
+  name: string;
+  emoji?: string;
+  color?: string;
+  size?: number;
+};
+
+export function Avatar({ name, emoji, color, size = 40 }: AvatarProps) {
+  const accentColor = useThemeColor({}, "accent");
+  const initial = name.trim().charAt(0).toUpperCase() || "?";
+
+  return (
+    <View
+      style={[
+        styles.avatar,
+        {
+          width: size,
+          height: size,
+          backgroundColor: color ?? accentColor,
+        },
+      ]}
+      accessibilityElementsHidden={true}
+      importantForAccessibility="no-hide-descendants"
+    >
+      <ThemedText
+        style={[
+          emoji ? undefined : styles.initial,
+          { fontSize: size * 0.5, lineHeight: size * 0.6 },
+        ]}
+        lightColor="#FFFFFF"
+        darkColor="#FFFFFF"
+      >
+        {emoji ?? initial}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  avatar: {
+    borderRadius: BorderRadius.full,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  initial: {
+    fontWeight: Typography.fontWeight.bold,
+  },
+});
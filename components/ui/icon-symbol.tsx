@@ -22,6 +22,7 @@ const MAPPING = {
   "chevron.left.forwardslash.chevron.right": "code",
   "chevron.right": "chevron-right",
   "trophy.fill": "emoji-events",
+  "leaf.fill": "eco",
 } as IconMapping;
 
 /**
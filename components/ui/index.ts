@@ -1,7 +1,9 @@
 export { AnimatedCounter } from './animated-counter';
+export { Avatar } from './avatar';
 export { Badge } from './badge';
 export { Button } from './button';
 export { Card } from './card';
 export { Collapsible } from './collapsible';
 export { IconSymbol } from './icon-symbol';
+export { QrCode } from './qr-code';
 
@@ -0,0 +1,52 @@
+import { encodeQrCode } from "@/utils/qr-code";
+import { useMemo } from "react";
+import Svg, { Path, Rect } from "react-native-svg";
+
+// Light border scanners need around the symbol, in modules
+const QUIET_ZONE_MODULES = 4;
+
+export type QrCodeProps = {
+  value: string;
+  size?: number;
+  color?: string;
+  backgroundColor?: string;
+  accessibilityLabel?: string;
+};
+
+export function QrCode({
+  value,
+  size = 200,
+  color = "#000000",
+  backgroundColor = "#FFFFFF",
+  accessibilityLabel,
+}: QrCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const commands: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) {
+          commands.push(
+            `M${x + QUIET_ZONE_MODULES} ${y + QUIET_ZONE_MODULES}h1v1h-1z`
+          );
+        }
+      });
+    });
+    return {
+      path: commands.join(""),
+      dimension: modules.length + QUIET_ZONE_MODULES * 2,
+    };
+  }, [value]);
+
+  return (
+    <Svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      accessibilityLabel={accessibilityLabel}
+    >
+      <Rect width={dimension} height={dimension} fill={backgroundColor} />
+      <Path d={path} fill={color} />
+    </Svg>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * EcoNest Impact Factors
+ *
+ * Estimated environmental impact of each habit, in kg CO2e, liters of water
+ * and kg of waste kept out of landfill. Tables are versioned: each log is
+ * counted with the newest table effective on the day it was made, so revised
+ * estimates never rewrite past impact. Publish a new version instead of
+ * editing an existing one.
+ */
+
+export interface ImpactValues {
+  co2Kg: number;
+  waterL: number;
+  wasteKg: number;
+}
+
+export interface HabitImpactFactor {
+  perLog: ImpactValues; // a tap with no quantity, for a typical amount
+  perUnit?: ImpactValues & { unit: string }; // unit matches QUANTITY_FORMULAS
+}
+
+export interface ImpactEquivalent {
+  id: string;
+  label: string; // follows the number, e.g. "12 car km avoided"
+  metric: keyof ImpactValues;
+  perEquivalent: number; // amount of the metric that equals one
+}
+
+export interface ImpactFactorTable {
+  version: number;
+  effectiveFrom: string; // YYYY-MM-DD
+  factors: Record<string, HabitImpactFactor>; // keyed by habit type
+  equivalents: ImpactEquivalent[];
+}
+
+// ============================================================================
+// FACTOR TABLES (oldest first)
+// ============================================================================
+
+export const IMPACT_FACTOR_TABLES: ImpactFactorTable[] = [
+  {
+    version: 1,
+    effectiveFrom: '2000-01-01',
+    factors: {
+      // A tap assumes about 5 items
+      recycle: {
+        perLog: { co2Kg: 0.25, waterL: 2.5, wasteKg: 0.15 },
+        perUnit: { unit: 'items', co2Kg: 0.05, waterL: 0.5, wasteKg: 0.03 },
+      },
+      // Replaces an average petrol car trip; a tap assumes 5 km
+      bike: {
+        perLog: { co2Kg: 0.85, waterL: 0, wasteKg: 0 },
+        perUnit: { unit: 'km', co2Kg: 0.17, waterL: 0, wasteKg: 0 },
+      },
+      // Against an average meat-based meal
+      meatless: {
+        perLog: { co2Kg: 1.5, waterL: 500, wasteKg: 0 },
+        perUnit: { unit: 'meals', co2Kg: 1.5, waterL: 500, wasteKg: 0 },
+      },
+      // A reusable cup, bag or bottle instead of a disposable one
+      reusable: {
+        perLog: { co2Kg: 0.03, waterL: 0.2, wasteKg: 0.015 },
+        perUnit: { unit: 'items', co2Kg: 0.03, waterL: 0.2, wasteKg: 0.015 },
+      },
+      // Methane avoided against landfill; a tap assumes 1 kg
+      compost: {
+        perLog: { co2Kg: 0.5, waterL: 0, wasteKg: 1 },
+        perUnit: { unit: 'kg', co2Kg: 0.5, waterL: 0, wasteKg: 1 },
+      },
+      // Treatment and pumping energy; a tap assumes 20 L
+      water: {
+        perLog: { co2Kg: 0.006, waterL: 20, wasteKg: 0 },
+        perUnit: { unit: 'L', co2Kg: 0.0003, waterL: 1, wasteKg: 0 },
+      },
+    },
+    equivalents: [
+      // A tree seedling grown for 10 years absorbs about 60 kg CO2
+      { id: 'trees', label: 'trees planted', metric: 'co2Kg', perEquivalent: 60 },
+      { id: 'car_km', label: 'car km avoided', metric: 'co2Kg', perEquivalent: 0.17 },
+      { id: 'showers', label: 'showers of water', metric: 'waterL', perEquivalent: 65 },
+      { id: 'bottles', label: 'plastic bottles kept from landfill', metric: 'wasteKg', perEquivalent: 0.025 },
+    ],
+  },
+];
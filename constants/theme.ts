@@ -413,6 +413,7 @@ export const Microcopy = {
     sync: 'Sync',
     keepLocal: 'Keep Local',
     useServer: 'Use Server',
+    merge: 'Merge',
   },
 
   // Status
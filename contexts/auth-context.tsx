@@ -1,7 +1,13 @@
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
-import { initializeDatabase } from "@/services/database";
+import { checkConnectivity } from "@/services/connectivity";
+import { clearAllData, initializeDatabase } from "@/services/database";
+import { inviteService } from "@/services/invite-service";
+import { leaderboardService } from "@/services/leaderboard-service";
+import { syncScheduler } from "@/services/sync-scheduler";
+import { syncService } from "@/services/sync-service";
 import { ConvexReactClient, useMutation } from "convex/react";
+import { FunctionReturnType } from "convex/server";
 import * as SecureStore from "expo-secure-store";
 import React, {
   createContext,
@@ -10,10 +16,41 @@ import React, {
   useEffect,
   useState,
 } from "react";
+import { Alert } from "react-native";
 
 // Convex client instance
 const convexUrl = process.env.EXPO_PUBLIC_CONVEX_URL!;
 export const convex = new ConvexReactClient(convexUrl);
+syncService.setConvexClient(convex);
+leaderboardService.setConvexClient(convex);
+inviteService.setConvexClient(convex);
+
+// Longest wait for the server to validate a stored session on launch
+const SESSION_CHECK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Reject if a promise hasn't settled in time
+ * Convex queries wait for the socket to reconnect instead of failing while
+ * offline, so anything that must finish offline needs a deadline.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out after ${ms}ms`)),
+      ms
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
 
 // Auth user type
 export interface AuthUser {
@@ -22,11 +59,26 @@ export interface AuthUser {
   displayName: string;
   ecoPoints: number;
   isAnonymous: boolean;
+  avatarEmoji?: string;
+  avatarColor?: string;
+  bio?: string;
+}
+
+// Editable profile fields
+export interface ProfileUpdate {
+  displayName?: string;
+  avatarEmoji?: string;
+  avatarColor?: string;
+  bio?: string;
 }
 
+// Server-side account export document
+export type AccountExport = FunctionReturnType<typeof api.account.exportMyData>;
+
 // Auth context type
 interface AuthContextType {
   user: AuthUser | null;
+  sessionToken: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   signIn: (email: string, password: string) => Promise<void>;
@@ -37,6 +89,16 @@ interface AuthContextType {
   ) => Promise<void>;
   signOut: () => Promise<void>;
   updatePrivacy: (isAnonymous: boolean) => Promise<void>;
+  updateProfile: (updates: ProfileUpdate) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (
+    email: string,
+    code: string,
+    newPassword: string
+  ) => Promise<void>;
+  exportMyData: () => Promise<AccountExport>;
+  deleteAccount: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -45,10 +107,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 const USER_ID_KEY = "econest_user_id";
 const USER_EMAIL_KEY = "econest_user_email";
 const USER_DISPLAY_NAME_KEY = "econest_user_display_name";
-const SESSION_EXPIRY_KEY = "econest_session_expiry";
-
-// Session duration: 7 days
-const SESSION_DURATION = 7 * 24 * 60 * 60 * 1000;
+const SESSION_TOKEN_KEY = "econest_session_token";
 
 interface AuthProviderProps {
   children: ReactNode;
@@ -56,12 +115,21 @@ interface AuthProviderProps {
 
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<AuthUser | null>(null);
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // Convex mutations
   const signInMutation = useMutation(api.auth.signIn);
   const signUpMutation = useMutation(api.auth.signUp);
+  const signOutMutation = useMutation(api.auth.signOut);
   const updatePrivacyMutation = useMutation(api.auth.updatePrivacy);
+  const updateProfileMutation = useMutation(api.profile.updateProfile);
+  const changePasswordMutation = useMutation(api.auth.changePassword);
+  const requestPasswordResetMutation = useMutation(
+    api.auth.requestPasswordReset
+  );
+  const resetPasswordMutation = useMutation(api.auth.resetPassword);
+  const deleteAccountMutation = useMutation(api.account.deleteAccount);
 
   // Initialize database and restore session on mount
   useEffect(() => {
@@ -82,36 +150,90 @@ export function AuthProvider({ children }: AuthProviderProps) {
     initialize();
   }, []);
 
+  // Keep the sync and leaderboard services authenticated as the current session
+  useEffect(() => {
+    syncService.setSessionToken(sessionToken);
+    leaderboardService.setSessionToken(sessionToken);
+
+    if (sessionToken) {
+      // Bring in history from other devices; local data still works offline
+      syncService.pullChanges().catch(() => {});
+      syncScheduler.start();
+
+      // Finish an invite link opened before signing in
+      inviteService
+        .redeemQueuedInvite(sessionToken)
+        .then((redemption) => {
+          if (redemption?.status === "added") {
+            Alert.alert(
+              "Friend added",
+              `You and ${redemption.inviter.displayName} are now friends.`
+            );
+          }
+        })
+        .catch((error: any) => {
+          Alert.alert(
+            "Invite couldn't be used",
+            error.message || "Please ask for a new invite link."
+          );
+        });
+    } else {
+      syncScheduler.stop();
+    }
+  }, [sessionToken]);
+
   // Restore session from secure storage
   const restoreSession = async () => {
     try {
       const userId = await SecureStore.getItemAsync(USER_ID_KEY);
       const email = await SecureStore.getItemAsync(USER_EMAIL_KEY);
       const displayName = await SecureStore.getItemAsync(USER_DISPLAY_NAME_KEY);
-      const expiryStr = await SecureStore.getItemAsync(SESSION_EXPIRY_KEY);
+      const token = await SecureStore.getItemAsync(SESSION_TOKEN_KEY);
 
-      if (!userId || !email || !displayName || !expiryStr) {
+      if (!userId || !email || !displayName || !token) {
         return;
       }
 
-      const expiry = parseInt(expiryStr, 10);
-      const now = Date.now();
+      // Validate the session with the server, which owns expiry
+      let currentUser;
+      try {
+        if (!(await checkConnectivity())) {
+          throw new Error("Server unreachable");
+        }
+        currentUser = await withTimeout(
+          convex.query(api.auth.getCurrentUser, { sessionToken: token }),
+          SESSION_CHECK_TIMEOUT_MS
+        );
+      } catch (error) {
+        // Offline: trust the stored session until we can reach the server
+        console.warn("Could not validate session, using cached user:", error);
+        setSessionToken(token);
+        setUser({
+          userId: userId as Id<"users">,
+          email,
+          displayName,
+          ecoPoints: 0,
+          isAnonymous: false,
+        });
+        return;
+      }
 
-      // Check if session expired
-      if (now > expiry) {
+      if (!currentUser) {
+        // Session expired or was revoked
         await clearSession();
         return;
       }
 
-      // Fetch current user data from Convex
-      // Note: We'll use the query hook in a separate component
-      // For now, set basic user data
+      setSessionToken(token);
       setUser({
-        userId: userId as Id<"users">,
-        email,
-        displayName,
-        ecoPoints: 0,
-        isAnonymous: false,
+        userId: currentUser.userId,
+        email: currentUser.email,
+        displayName: currentUser.displayName,
+        ecoPoints: currentUser.ecoPoints,
+        isAnonymous: currentUser.isAnonymous,
+        avatarEmoji: currentUser.avatarEmoji,
+        avatarColor: currentUser.avatarColor,
+        bio: currentUser.bio,
       });
     } catch (error) {
       console.error("Failed to restore session:", error);
@@ -120,17 +242,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
   };
 
   // Save session to secure storage
-  const saveSession = async (authUser: AuthUser) => {
+  const saveSession = async (authUser: AuthUser, token: string) => {
     try {
-      const expiry = Date.now() + SESSION_DURATION;
-
       await SecureStore.setItemAsync(USER_ID_KEY, authUser.userId);
       await SecureStore.setItemAsync(USER_EMAIL_KEY, authUser.email);
       await SecureStore.setItemAsync(
         USER_DISPLAY_NAME_KEY,
         authUser.displayName
       );
-      await SecureStore.setItemAsync(SESSION_EXPIRY_KEY, expiry.toString());
+      await SecureStore.setItemAsync(SESSION_TOKEN_KEY, token);
     } catch (error) {
       console.error("Failed to save session:", error);
       throw error;
@@ -143,7 +263,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       await SecureStore.deleteItemAsync(USER_ID_KEY);
       await SecureStore.deleteItemAsync(USER_EMAIL_KEY);
       await SecureStore.deleteItemAsync(USER_DISPLAY_NAME_KEY);
-      await SecureStore.deleteItemAsync(SESSION_EXPIRY_KEY);
+      await SecureStore.deleteItemAsync(SESSION_TOKEN_KEY);
     } catch (error) {
       console.error("Failed to clear session:", error);
     }
@@ -162,9 +282,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
         displayName: result.displayName,
         ecoPoints: result.ecoPoints,
         isAnonymous: result.isAnonymous,
+        avatarEmoji: result.avatarEmoji,
+        avatarColor: result.avatarColor,
+        bio: result.bio,
       };
 
-      await saveSession(authUser);
+      await saveSession(authUser, result.sessionToken);
+      setSessionToken(result.sessionToken);
       setUser(authUser);
     } catch (error) {
       console.error("Sign in failed:", error);
@@ -193,7 +317,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
         isAnonymous: false,
       };
 
-      await saveSession(authUser);
+      await saveSession(authUser, result.sessionToken);
+      setSessionToken(result.sessionToken);
       setUser(authUser);
     } catch (error) {
       console.error("Sign up failed:", error);
@@ -208,10 +333,20 @@ export function AuthProvider({ children }: AuthProviderProps) {
     try {
       setIsLoading(true);
 
+      // Revoke the session server-side (best effort when offline)
+      if (sessionToken) {
+        try {
+          await signOutMutation({ sessionToken });
+        } catch (error) {
+          console.warn("Failed to revoke session on server:", error);
+        }
+      }
+
       // Clear session
       await clearSession();
 
       // Clear user state
+      setSessionToken(null);
       setUser(null);
 
       // Note: Database cleanup will be handled by demo mode context
@@ -226,13 +361,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   // Update privacy settings
   const updatePrivacy = async (isAnonymous: boolean) => {
-    if (!user) {
+    if (!user || !sessionToken) {
       throw new Error("No user logged in");
     }
 
     try {
       await updatePrivacyMutation({
-        userId: user.userId,
+        sessionToken,
         isAnonymous,
       });
 
@@ -247,14 +382,137 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Update display name, avatar or bio
+  const updateProfile = async (updates: ProfileUpdate) => {
+    if (!user || !sessionToken) {
+      throw new Error("No user logged in");
+    }
+
+    try {
+      const profile = await updateProfileMutation({
+        sessionToken,
+        ...updates,
+      });
+
+      const updatedUser: AuthUser = {
+        ...user,
+        ...profile,
+      };
+
+      // Keep the cached display name in sync for offline restores
+      await SecureStore.setItemAsync(
+        USER_DISPLAY_NAME_KEY,
+        updatedUser.displayName
+      );
+      setUser(updatedUser);
+    } catch (error) {
+      console.error("Failed to update profile:", error);
+      throw error;
+    }
+  };
+
+  // Change password (requires the current password)
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string
+  ) => {
+    if (!sessionToken) {
+      throw new Error("No user logged in");
+    }
+
+    try {
+      await changePasswordMutation({
+        sessionToken,
+        currentPassword,
+        newPassword,
+      });
+    } catch (error) {
+      console.error("Failed to change password:", error);
+      throw error;
+    }
+  };
+
+  // Send a password reset code to the given email
+  const requestPasswordReset = async (email: string) => {
+    try {
+      await requestPasswordResetMutation({ email });
+    } catch (error) {
+      console.error("Failed to request password reset:", error);
+      throw error;
+    }
+  };
+
+  // Reset password with a code from requestPasswordReset
+  const resetPassword = async (
+    email: string,
+    code: string,
+    newPassword: string
+  ) => {
+    try {
+      const result = await resetPasswordMutation({ email, code, newPassword });
+
+      if (!result.success) {
+        throw new Error(result.message || "Invalid or expired reset code");
+      }
+    } catch (error) {
+      console.error("Failed to reset password:", error);
+      throw error;
+    }
+  };
+
+  // Fetch everything the server stores about the current user
+  const exportMyData = async () => {
+    if (!sessionToken) {
+      throw new Error("No user logged in");
+    }
+
+    try {
+      return await convex.query(api.account.exportMyData, { sessionToken });
+    } catch (error) {
+      console.error("Failed to export account data:", error);
+      throw error;
+    }
+  };
+
+  // Permanently delete the account, then wipe local data and sign out
+  const deleteAccount = async () => {
+    if (!sessionToken) {
+      throw new Error("No user logged in");
+    }
+
+    try {
+      setIsLoading(true);
+
+      await deleteAccountMutation({ sessionToken });
+
+      await clearAllData();
+      await clearSession();
+
+      setSessionToken(null);
+      setUser(null);
+    } catch (error) {
+      console.error("Failed to delete account:", error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const value: AuthContextType = {
     user,
+    sessionToken,
     isLoading,
     isAuthenticated: user !== null,
     signIn,
     signUp,
     signOut,
     updatePrivacy,
+    updateProfile,
+    changePassword,
+    requestPasswordReset,
+    resetPassword,
+    exportMyData,
+    deleteAccount,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
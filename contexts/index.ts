@@ -1,6 +1,6 @@
 // Export all contexts and hooks
 export { AuthProvider, convex, useAuth } from './auth-context';
-export type { AuthUser } from './auth-context';
+export type { AccountExport, AuthUser, ProfileUpdate } from './auth-context';
 
 export { DemoModeProvider, getDemoFriendsLeaderboard, useDemoMode } from './demo-mode-context';
 
@@ -0,0 +1,296 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { deleteCustomHabits } from "./customHabits";
+import { deleteFriendData } from "./friends";
+import { deleteInvites } from "./invites";
+import { deletePeriodPoints } from "./periods";
+import { ALL_TIME_SCOPE, recordPointsChange } from "./ranks";
+import { requireSessionUser } from "./sessions";
+import { deleteTeamData, getMembership } from "./teams";
+
+// Version of the export document layout, bumped when fields change
+const EXPORT_FORMAT_VERSION = 6;
+
+/**
+ * Export everything stored about the signed-in user as a single document
+ */
+export const exportMyData = query({
+    args: {
+        sessionToken: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const habitLogs = await ctx.db
+            .query("habit_logs")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const syncBatches = await ctx.db
+            .query("sync_batches")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const sessions = await ctx.db
+            .query("sessions")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const customHabits = await ctx.db
+            .query("custom_habits")
+            .withIndex("by_userId_and_habitId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const streaks = await ctx.db
+            .query("streaks")
+            .withIndex("by_userId_and_habitType", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const frozenDays = await ctx.db
+            .query("streak_freezes")
+            .withIndex("by_userId_and_habitType_and_day", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const periodPoints = await ctx.db
+            .query("period_points")
+            .withIndex("by_userId_and_periodId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const friendships = await ctx.db
+            .query("friendships")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const sentRequests = await ctx.db
+            .query("friend_requests")
+            .withIndex("by_fromUserId_and_toUserId", (q) => q.eq("fromUserId", user._id))
+            .collect();
+
+        const receivedRequests = await ctx.db
+            .query("friend_requests")
+            .withIndex("by_toUserId", (q) => q.eq("toUserId", user._id))
+            .collect();
+
+        const blocks = await ctx.db
+            .query("user_blocks")
+            .withIndex("by_blockerId_and_blockedId", (q) => q.eq("blockerId", user._id))
+            .collect();
+
+        const invites = await ctx.db
+            .query("invites")
+            .withIndex("by_inviterId", (q) => q.eq("inviterId", user._id))
+            .collect();
+
+        const emailSearches = await ctx.db
+            .query("email_searches")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const membership = await getMembership(ctx, user._id);
+        const team = membership ? await ctx.db.get(membership.teamId) : null;
+
+        const teamContributions = await ctx.db
+            .query("team_contributions")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const resetCodes = await ctx.db
+            .query("password_reset_codes")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        const emails = await ctx.db
+            .query("outbox")
+            .withIndex("by_to", (q) => q.eq("to", user.email))
+            .collect();
+
+        return {
+            formatVersion: EXPORT_FORMAT_VERSION,
+            exportedAt: Date.now(),
+            user: {
+                userId: user._id,
+                createdAt: user._creationTime,
+                email: user.email,
+                displayName: user.displayName,
+                ecoPoints: user.ecoPoints,
+                isAnonymous: user.isAnonymous,
+                lastActive: user.lastActive,
+                avatarEmoji: user.avatarEmoji,
+                avatarColor: user.avatarColor,
+                bio: user.bio,
+                timeZone: user.timeZone,
+                streakFreezes: user.streakFreezes ?? 0,
+            },
+            habitLogs: habitLogs.map((log) => ({
+                id: log._id,
+                clientId: log.clientId,
+                habitType: log.habitType,
+                customHabitId: log.customHabitId,
+                quantity: log.quantity,
+                unit: log.unit,
+                pointsAwarded: log.pointsAwarded,
+                loggedAt: log.loggedAt,
+                validated: log.validated,
+                timeZone: log.timeZone,
+                day: log.day,
+                teamId: log.teamId,
+            })),
+            customHabits: customHabits.map((habit) => ({
+                habitId: habit.habitId,
+                name: habit.name,
+                emoji: habit.emoji,
+                color: habit.color,
+                pointsTier: habit.pointsTier,
+                dailyCap: habit.dailyCap,
+                archived: habit.archived,
+            })),
+            streaks: streaks.map((streak) => ({
+                habitType: streak.habitType,
+                currentStreak: streak.currentStreak,
+                longestStreak: streak.longestStreak,
+                lastLoggedDate: streak.lastLoggedDate,
+            })),
+            frozenDays: frozenDays.map((freeze) => ({
+                habitType: freeze.habitType,
+                day: freeze.day,
+            })),
+            periodPoints: periodPoints.map((row) => ({
+                periodId: row.periodId,
+                points: row.points,
+            })),
+            friendIds: friendships.map((friendship) => friendship.friendId),
+            friendRequests: {
+                sent: sentRequests.map((request) => request.toUserId),
+                received: receivedRequests.map((request) => request.fromUserId),
+            },
+            // Blocks against the user belong to the blocker, so only the
+            // user's own blocks are exported
+            blockedUserIds: blocks.map((block) => block.blockedId),
+            invites: invites.map((invite) => ({
+                code: invite.code,
+                expiresAt: invite.expiresAt,
+                maxUses: invite.maxUses,
+                uses: invite.uses,
+            })),
+            // Only when each lookup was made; the addresses aren't stored
+            emailSearches: emailSearches.map((search) => ({
+                searchedAt: search.createdAt,
+            })),
+            team: membership && {
+                teamId: membership.teamId,
+                name: team?.name,
+                role: membership.role,
+                joinedAt: membership.joinedAt,
+            },
+            teamContributions: teamContributions.map((row) => ({
+                teamId: row.teamId,
+                weekId: row.weekId,
+                points: row.points,
+            })),
+            syncBatches: syncBatches.map((batch) => ({
+                id: batch._id,
+                createdAt: batch._creationTime,
+                itemCount: batch.itemCount,
+                status: batch.status,
+            })),
+            // Tokens are credentials, so only session metadata is exported
+            sessions: sessions.map((session) => ({
+                createdAt: session._creationTime,
+                expiresAt: session.expiresAt,
+            })),
+            // Reset codes and emails are credentials too, so without the
+            // hash or body
+            passwordResets: resetCodes.map((resetCode) => ({
+                createdAt: resetCode._creationTime,
+                expiresAt: resetCode.expiresAt,
+                usedAt: resetCode.usedAt,
+            })),
+            emails: emails.map((email) => ({
+                kind: email.kind,
+                subject: email.subject,
+                createdAt: email.createdAt,
+                deliveredAt: email.deliveredAt,
+            })),
+        };
+    },
+});
+
+/**
+ * Permanently delete the signed-in user and everything that belongs to them
+ */
+export const deleteAccount = mutation({
+    args: {
+        sessionToken: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const habitLogs = await ctx.db
+            .query("habit_logs")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+        for (const log of habitLogs) {
+            await ctx.db.delete(log._id);
+        }
+
+        const syncBatches = await ctx.db
+            .query("sync_batches")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+        for (const batch of syncBatches) {
+            await ctx.db.delete(batch._id);
+        }
+
+        const streaks = await ctx.db
+            .query("streaks")
+            .withIndex("by_userId_and_habitType", (q) => q.eq("userId", user._id))
+            .collect();
+        for (const streak of streaks) {
+            await ctx.db.delete(streak._id);
+        }
+
+        const streakFreezes = await ctx.db
+            .query("streak_freezes")
+            .withIndex("by_userId_and_habitType_and_day", (q) => q.eq("userId", user._id))
+            .collect();
+        for (const freeze of streakFreezes) {
+            await ctx.db.delete(freeze._id);
+        }
+
+        await deletePeriodPoints(ctx, user._id);
+        await deleteFriendData(ctx, user._id);
+        await deleteInvites(ctx, user._id);
+        await deleteTeamData(ctx, user._id);
+        await deleteCustomHabits(ctx, user._id);
+
+        const resetCodes = await ctx.db
+            .query("password_reset_codes")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+        for (const resetCode of resetCodes) {
+            await ctx.db.delete(resetCode._id);
+        }
+
+        const outboxMessages = await ctx.db
+            .query("outbox")
+            .withIndex("by_to", (q) => q.eq("to", user.email))
+            .collect();
+        for (const message of outboxMessages) {
+            await ctx.db.delete(message._id);
+        }
+
+        // Sessions last, including the one making this request
+        const sessions = await ctx.db
+            .query("sessions")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+        for (const session of sessions) {
+            await ctx.db.delete(session._id);
+        }
+
+        await ctx.db.delete(user._id);
+        await recordPointsChange(ctx, ALL_TIME_SCOPE, user.ecoPoints, null);
+
+        return { success: true };
+    },
+});
@@ -1,16 +1,177 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { enqueueMessage } from "./outbox";
+import {
+    ensureDisplayNameAvailable,
+    normalizeDisplayName,
+    validateDisplayName,
+} from "./profile";
+import { ALL_TIME_SCOPE, recordPointsChange } from "./ranks";
+import {
+    createSession,
+    getSessionUser,
+    requireSessionUser,
+    revokeUserSessions,
+} from "./sessions";
 
-// Simple password hashing (in production, use proper bcrypt or similar)
-// For MVP, we'll use a basic hash - should be replaced with proper auth
-function hashPassword(password: string): string {
-    // This is a placeholder - in production use bcrypt or similar
-    // For now, we'll just use a simple hash for demonstration
-    return Buffer.from(password).toString("base64");
+// Password hashing parameters. These are stored alongside each hash so they
+// can be raised later without invalidating existing accounts.
+const PASSWORD_HASH_SCHEME = "pbkdf2-sha256";
+const PASSWORD_HASH_ITERATIONS = 100_000;
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_KEY_BYTES = 32;
+const PASSWORD_MIN_LENGTH = 6;
+
+// Password reset codes: 6 digits, valid for 15 minutes, 5 guesses
+const RESET_CODE_DIGITS = 6;
+const RESET_CODE_TTL_MS = 15 * 60 * 1000;
+const RESET_CODE_MAX_ATTEMPTS = 5;
+// At most 3 codes per account per hour. Wrong guesses carry over to the
+// next code in the same hour, so re-requesting never buys more guesses.
+const RESET_REQUEST_WINDOW_MS = 60 * 60 * 1000;
+const RESET_REQUESTS_PER_WINDOW = 3;
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(encoded: string) {
+    const binary = atob(encoded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * Compare two byte arrays without short-circuiting on the first mismatch
+ */
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+    }
+    return diff === 0;
+}
+
+async function deriveKey(
+    password: string,
+    salt: BufferSource,
+    iterations: number,
+    keyBytes: number
+): Promise<Uint8Array> {
+    const keyMaterial = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(password),
+        "PBKDF2",
+        false,
+        ["deriveBits"]
+    );
+
+    const bits = await crypto.subtle.deriveBits(
+        { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+        keyMaterial,
+        keyBytes * 8
+    );
+
+    return new Uint8Array(bits);
+}
+
+/**
+ * Hash a password with a random per-user salt
+ * Format: pbkdf2-sha256$<iterations>$<salt>$<hash>
+ */
+async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+    const key = await deriveKey(
+        password,
+        salt,
+        PASSWORD_HASH_ITERATIONS,
+        PASSWORD_KEY_BYTES
+    );
+
+    return [
+        PASSWORD_HASH_SCHEME,
+        PASSWORD_HASH_ITERATIONS,
+        bytesToBase64(salt),
+        bytesToBase64(key),
+    ].join("$");
+}
+
+/**
+ * Check whether a stored hash was produced by the pre-KDF base64 scheme
+ */
+function isLegacyHash(hash: string): boolean {
+    return !hash.startsWith(`${PASSWORD_HASH_SCHEME}$`);
+}
+
+/**
+ * Check whether a stored hash should be rewritten with current parameters
+ */
+function needsRehash(hash: string): boolean {
+    if (isLegacyHash(hash)) return true;
+
+    const iterations = parseInt(hash.split("$")[1], 10);
+    return iterations < PASSWORD_HASH_ITERATIONS;
+}
+
+async function verifyPassword(password: string, hash: string): Promise<boolean> {
+    if (isLegacyHash(hash)) {
+        // Accounts created before the KDF stored base64(password)
+        const legacy = bytesToBase64(new TextEncoder().encode(password));
+        return constantTimeEqual(
+            new TextEncoder().encode(legacy),
+            new TextEncoder().encode(hash)
+        );
+    }
+
+    const [, iterationsStr, saltB64, keyB64] = hash.split("$");
+    const iterations = parseInt(iterationsStr, 10);
+    if (!iterations || !saltB64 || !keyB64) {
+        return false;
+    }
+
+    const expected = base64ToBytes(keyB64);
+    const actual = await deriveKey(
+        password,
+        base64ToBytes(saltB64),
+        iterations,
+        expected.length
+    );
+
+    return constantTimeEqual(actual, expected);
+}
+
+/**
+ * Throw if a password does not meet the minimum requirements
+ */
+function validatePassword(password: string): void {
+    if (password.length < PASSWORD_MIN_LENGTH) {
+        throw new Error(
+            `Password must be at least ${PASSWORD_MIN_LENGTH} characters`
+        );
+    }
+}
+
+/**
+ * Generate a random numeric reset code
+ */
+function generateResetCode(): string {
+    const values = crypto.getRandomValues(new Uint32Array(RESET_CODE_DIGITS));
+    return Array.from(values, (value) => (value % 10).toString()).join("");
 }
 
-function verifyPassword(password: string, hash: string): boolean {
-    return hashPassword(password) === hash;
+async function hashResetCode(code: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(code)
+    );
+    return bytesToBase64(new Uint8Array(digest));
 }
 
 /**
@@ -30,9 +191,11 @@ export const signUp = mutation({
         }
 
         // Validate password length
-        if (args.password.length < 6) {
-            throw new Error("Password must be at least 6 characters");
-        }
+        validatePassword(args.password);
+
+        // Validate display name and make sure it isn't taken
+        const displayName = validateDisplayName(args.displayName);
+        await ensureDisplayNameAvailable(ctx, displayName);
 
         // Check if user already exists
         const existingUser = await ctx.db
@@ -47,18 +210,24 @@ export const signUp = mutation({
         // Create new user
         const userId = await ctx.db.insert("users", {
             email: args.email,
-            displayName: args.displayName,
+            displayName,
+            displayNameKey: normalizeDisplayName(displayName),
             ecoPoints: 0,
             isAnonymous: false,
             lastActive: Date.now(),
-            passwordHash: hashPassword(args.password),
+            passwordHash: await hashPassword(args.password),
         });
+        await recordPointsChange(ctx, ALL_TIME_SCOPE, null, 0);
+
+        const session = await createSession(ctx, userId);
 
         return {
             userId,
             email: args.email,
-            displayName: args.displayName,
+            displayName,
             ecoPoints: 0,
+            sessionToken: session.token,
+            sessionExpiresAt: session.expiresAt,
         };
     },
 });
@@ -83,34 +252,71 @@ export const signIn = mutation({
         }
 
         // Verify password
-        if (!verifyPassword(args.password, user.passwordHash)) {
+        if (!(await verifyPassword(args.password, user.passwordHash))) {
             throw new Error("Invalid email or password");
         }
 
-        // Update last active timestamp
+        // Update last active timestamp, upgrading legacy or outdated hashes
+        // now that we have the plaintext password
         await ctx.db.patch(user._id, {
             lastActive: Date.now(),
+            ...(needsRehash(user.passwordHash)
+                ? { passwordHash: await hashPassword(args.password) }
+                : {}),
+            // Accounts created before display names were unique lack a key
+            ...(user.displayNameKey === undefined
+                ? { displayNameKey: normalizeDisplayName(user.displayName) }
+                : {}),
         });
 
+        const session = await createSession(ctx, user._id);
+
         return {
             userId: user._id,
             email: user.email,
             displayName: user.displayName,
             ecoPoints: user.ecoPoints,
             isAnonymous: user.isAnonymous,
+            avatarEmoji: user.avatarEmoji,
+            avatarColor: user.avatarColor,
+            bio: user.bio,
+            sessionToken: session.token,
+            sessionExpiresAt: session.expiresAt,
         };
     },
 });
 
+/**
+ * Sign out by revoking the session token
+ */
+export const signOut = mutation({
+    args: {
+        sessionToken: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const session = await ctx.db
+            .query("sessions")
+            .withIndex("by_token", (q) => q.eq("token", args.sessionToken))
+            .first();
+
+        if (session) {
+            await ctx.db.delete(session._id);
+        }
+
+        return { success: true };
+    },
+});
+
 /**
  * Get current user information
+ * Returns null if the session is invalid or has expired
  */
 export const getCurrentUser = query({
     args: {
-        userId: v.id("users"),
+        sessionToken: v.string(),
     },
     handler: async (ctx, args) => {
-        const user = await ctx.db.get(args.userId);
+        const user = await getSessionUser(ctx, args.sessionToken);
 
         if (!user) {
             return null;
@@ -122,6 +328,9 @@ export const getCurrentUser = query({
             displayName: user.displayName,
             ecoPoints: user.ecoPoints,
             isAnonymous: user.isAnonymous,
+            avatarEmoji: user.avatarEmoji,
+            avatarColor: user.avatarColor,
+            bio: user.bio,
         };
     },
 });
@@ -131,14 +340,175 @@ export const getCurrentUser = query({
  */
 export const updatePrivacy = mutation({
     args: {
-        userId: v.id("users"),
+        sessionToken: v.string(),
         isAnonymous: v.boolean(),
     },
     handler: async (ctx, args) => {
-        await ctx.db.patch(args.userId, {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        await ctx.db.patch(user._id, {
             isAnonymous: args.isAnonymous,
         });
 
         return { success: true };
     },
 });
+
+/**
+ * Change password for the signed-in user
+ * Requires the current password; all other sessions are revoked
+ */
+export const changePassword = mutation({
+    args: {
+        sessionToken: v.string(),
+        currentPassword: v.string(),
+        newPassword: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        if (!(await verifyPassword(args.currentPassword, user.passwordHash))) {
+            throw new Error("Current password is incorrect");
+        }
+
+        validatePassword(args.newPassword);
+
+        await ctx.db.patch(user._id, {
+            passwordHash: await hashPassword(args.newPassword),
+        });
+
+        await revokeUserSessions(ctx, user._id, args.sessionToken);
+
+        return { success: true };
+    },
+});
+
+/**
+ * Request a password reset code for an email address
+ * Always succeeds so callers cannot probe which emails have accounts.
+ * Requests over the hourly limit are silently dropped.
+ */
+export const requestPasswordReset = mutation({
+    args: {
+        email: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await ctx.db
+            .query("users")
+            .withIndex("by_email", (q) => q.eq("email", args.email))
+            .first();
+
+        if (!user) {
+            return { success: true };
+        }
+
+        const now = Date.now();
+        const previousCodes = await ctx.db
+            .query("password_reset_codes")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .order("desc")
+            .collect();
+
+        // Codes from this window count towards the limit; older ones can go
+        const recentCodes = [];
+        for (const previous of previousCodes) {
+            if (previous._creationTime > now - RESET_REQUEST_WINDOW_MS) {
+                recentCodes.push(previous);
+            } else {
+                await ctx.db.delete(previous._id);
+            }
+        }
+
+        if (recentCodes.length >= RESET_REQUESTS_PER_WINDOW) {
+            return { success: true };
+        }
+
+        // Only the most recent code is valid
+        for (const previous of recentCodes) {
+            if (previous.expiresAt > now) {
+                await ctx.db.patch(previous._id, { expiresAt: now });
+            }
+        }
+
+        const latest = recentCodes[0];
+        const code = generateResetCode();
+
+        await ctx.db.insert("password_reset_codes", {
+            userId: user._id,
+            codeHash: await hashResetCode(code),
+            expiresAt: now + RESET_CODE_TTL_MS,
+            attempts: latest && latest.usedAt === undefined ? latest.attempts : 0,
+        });
+
+        await enqueueMessage(ctx, {
+            to: user.email,
+            kind: "password_reset",
+            subject: "Your EcoNest password reset code",
+            body: `Your EcoNest password reset code is ${code}. It expires in ${RESET_CODE_TTL_MS / 60000} minutes.`,
+        });
+
+        return { success: true };
+    },
+});
+
+/**
+ * Reset a password using a code from requestPasswordReset
+ * Codes are single-use; all existing sessions are revoked
+ */
+export const resetPassword = mutation({
+    args: {
+        email: v.string(),
+        code: v.string(),
+        newPassword: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await ctx.db
+            .query("users")
+            .withIndex("by_email", (q) => q.eq("email", args.email))
+            .first();
+
+        if (!user) {
+            throw new Error("Invalid or expired reset code");
+        }
+
+        const resetCode = await ctx.db
+            .query("password_reset_codes")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .order("desc")
+            .first();
+
+        if (
+            !resetCode ||
+            resetCode.usedAt !== undefined ||
+            resetCode.expiresAt <= Date.now() ||
+            resetCode.attempts >= RESET_CODE_MAX_ATTEMPTS
+        ) {
+            throw new Error("Invalid or expired reset code");
+        }
+
+        const codeMatches = constantTimeEqual(
+            new TextEncoder().encode(await hashResetCode(args.code.trim())),
+            new TextEncoder().encode(resetCode.codeHash)
+        );
+
+        if (!codeMatches) {
+            // Returning (not throwing) keeps the attempt count, since a
+            // thrown error would roll back this mutation's writes
+            await ctx.db.patch(resetCode._id, {
+                attempts: resetCode.attempts + 1,
+            });
+            return { success: false, message: "Invalid or expired reset code" };
+        }
+
+        validatePassword(args.newPassword);
+
+        await ctx.db.patch(resetCode._id, { usedAt: Date.now() });
+        await ctx.db.patch(user._id, {
+            passwordHash: await hashPassword(args.newPassword),
+        });
+
+        await revokeUserSessions(ctx, user._id);
+
+        return { success: true };
+    },
+});
@@ -0,0 +1,139 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { ALL_TIME_SCOPE, recordPointsChange } from "./ranks";
+import { createSession } from "./sessions";
+
+// Seeded users are recognisable by email so they can be cleaned up
+const BENCHMARK_EMAIL_PREFIX = "benchmark-";
+const BENCHMARK_EMAIL_DOMAIN = "@benchmark.invalid";
+
+// Average points of a seeded user; most users score low, a few score high
+const MEAN_SEEDED_POINTS = 300;
+
+/**
+ * Refuse to run unless the deployment opted in
+ * Set with: npx convex env set ALLOW_BENCHMARK_SEEDING true
+ */
+function requireBenchmarkSeeding(): void {
+    if (process.env.ALLOW_BENCHMARK_SEEDING !== "true") {
+        throw new Error("Benchmark seeding is disabled on this deployment");
+    }
+}
+
+function benchmarkEmail(index: number): string {
+    return `${BENCHMARK_EMAIL_PREFIX}${String(index).padStart(7, "0")}${BENCHMARK_EMAIL_DOMAIN}`;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) so runs are repeatable
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Insert benchmark users [startIndex, startIndex + count)
+ * Points follow an exponential distribution from the seed, and rank
+ * counts are kept in step exactly as for real users.
+ */
+export const seedUsers = internalMutation({
+    args: {
+        startIndex: v.number(),
+        count: v.number(),
+        seed: v.number(),
+    },
+    handler: async (ctx, args) => {
+        requireBenchmarkSeeding();
+
+        const random = createRandom(args.seed + args.startIndex);
+        const now = Date.now();
+
+        for (let i = args.startIndex; i < args.startIndex + args.count; i++) {
+            const ecoPoints = Math.floor(-Math.log(1 - random()) * MEAN_SEEDED_POINTS);
+            const displayName = `Benchmark ${i}`;
+
+            await ctx.db.insert("users", {
+                email: benchmarkEmail(i),
+                displayName,
+                displayNameKey: displayName.toLowerCase(),
+                ecoPoints,
+                isAnonymous: false,
+                lastActive: now,
+                passwordHash: "benchmark", // not a valid hash; cannot sign in
+            });
+            await recordPointsChange(ctx, ALL_TIME_SCOPE, null, ecoPoints);
+        }
+
+        return { seeded: args.count };
+    },
+});
+
+/**
+ * Open a session as one seeded user so public queries can be timed
+ */
+export const createProbeSession = internalMutation({
+    args: {
+        index: v.number(),
+    },
+    handler: async (ctx, args) => {
+        requireBenchmarkSeeding();
+
+        const user = await ctx.db
+            .query("users")
+            .withIndex("by_email", (q) => q.eq("email", benchmarkEmail(args.index)))
+            .unique();
+
+        if (!user) {
+            throw new Error(`Benchmark user ${args.index} not found`);
+        }
+
+        const session = await createSession(ctx, user._id);
+        return { sessionToken: session.token, ecoPoints: user.ecoPoints };
+    },
+});
+
+/**
+ * Delete up to `limit` seeded users and their sessions
+ * Call repeatedly until isDone is true.
+ */
+export const clearUsers = internalMutation({
+    args: {
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        requireBenchmarkSeeding();
+        const limit = args.limit ?? 1000;
+
+        const users = await ctx.db
+            .query("users")
+            .withIndex("by_email", (q) =>
+                q
+                    .gte("email", BENCHMARK_EMAIL_PREFIX)
+                    // "." sorts right after "-", so this bounds the prefix
+                    .lt("email", "benchmark.")
+            )
+            .take(limit);
+
+        for (const user of users) {
+            const sessions = await ctx.db
+                .query("sessions")
+                .withIndex("by_userId", (q) => q.eq("userId", user._id))
+                .collect();
+            for (const session of sessions) {
+                await ctx.db.delete(session._id);
+            }
+
+            await ctx.db.delete(user._id);
+            await recordPointsChange(ctx, ALL_TIME_SCOPE, user.ecoPoints, null);
+        }
+
+        return { deleted: users.length, isDone: users.length < limit };
+    },
+});
@@ -0,0 +1,172 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { requireSessionUser } from "./sessions";
+
+// Base point range for each tier; must match CUSTOM_HABIT_TIERS in
+// services/custom-habit-service.ts
+export const POINTS_TIERS = {
+    small: { min: 3, max: 8 },
+    medium: { min: 5, max: 20 },
+    large: { min: 10, max: 25 },
+} as const;
+
+export type PointsTier = keyof typeof POINTS_TIERS;
+
+const MAX_CUSTOM_HABITS = 20; // including archived ones
+const NAME_MAX_LENGTH = 24;
+const EMOJI_MAX_LENGTH = 16; // one emoji can span several code units
+const HABIT_ID_MAX_LENGTH = 64;
+const MIN_DAILY_CAP = 5;
+const MAX_DAILY_CAP = 50; // same as a built-in habit's cap
+const COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+const pointsTierValidator = v.union(
+    v.literal("small"),
+    v.literal("medium"),
+    v.literal("large")
+);
+
+/**
+ * Get one of a user's custom habits by its client id, or null
+ */
+export async function getCustomHabit(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">,
+    habitId: string
+): Promise<Doc<"custom_habits"> | null> {
+    return await ctx.db
+        .query("custom_habits")
+        .withIndex("by_userId_and_habitId", (q) =>
+            q.eq("userId", userId).eq("habitId", habitId)
+        )
+        .unique();
+}
+
+async function getCustomHabits(ctx: QueryCtx | MutationCtx, userId: Id<"users">) {
+    return await ctx.db
+        .query("custom_habits")
+        .withIndex("by_userId_and_habitId", (q) => q.eq("userId", userId))
+        .collect();
+}
+
+function toCustomHabitSummary(habit: Doc<"custom_habits">) {
+    return {
+        habitId: habit.habitId,
+        name: habit.name,
+        emoji: habit.emoji,
+        color: habit.color,
+        pointsTier: habit.pointsTier,
+        dailyCap: habit.dailyCap,
+        archived: habit.archived,
+        createdAt: habit._creationTime,
+        updatedAt: habit.updatedAt,
+    };
+}
+
+/**
+ * Delete every custom habit a user defined (account deletion)
+ */
+export async function deleteCustomHabits(
+    ctx: MutationCtx,
+    userId: Id<"users">
+): Promise<void> {
+    for (const habit of await getCustomHabits(ctx, userId)) {
+        await ctx.db.delete(habit._id);
+    }
+}
+
+/**
+ * Get all of the caller's custom habits, archived ones included
+ */
+export const listCustomHabits = query({
+    args: {
+        sessionToken: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const habits = await getCustomHabits(ctx, user._id);
+
+        return habits.map(toCustomHabitSummary);
+    },
+});
+
+/**
+ * Create or update a custom habit
+ * Habits are created on the device, so the client picks the id. An edit
+ * older than the stored one is ignored and the stored habit is returned.
+ */
+export const saveCustomHabit = mutation({
+    args: {
+        sessionToken: v.string(),
+        habitId: v.string(),
+        name: v.string(),
+        emoji: v.string(),
+        color: v.string(),
+        pointsTier: pointsTierValidator,
+        dailyCap: v.number(),
+        archived: v.boolean(),
+        updatedAt: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const name = args.name.trim();
+        const emoji = args.emoji.trim();
+
+        if (args.habitId.length === 0 || args.habitId.length > HABIT_ID_MAX_LENGTH) {
+            throw new Error("Invalid custom habit id");
+        }
+        if (name.length === 0 || name.length > NAME_MAX_LENGTH) {
+            throw new Error(`Habit name must be 1-${NAME_MAX_LENGTH} characters`);
+        }
+        if (emoji.length === 0 || emoji.length > EMOJI_MAX_LENGTH) {
+            throw new Error("Pick a single emoji for the habit");
+        }
+        if (!COLOR_PATTERN.test(args.color)) {
+            throw new Error("Habit color must look like #34C759");
+        }
+        if (
+            !Number.isInteger(args.dailyCap) ||
+            args.dailyCap < MIN_DAILY_CAP ||
+            args.dailyCap > MAX_DAILY_CAP
+        ) {
+            throw new Error(
+                `Daily cap must be between ${MIN_DAILY_CAP} and ${MAX_DAILY_CAP} points`
+            );
+        }
+
+        const fields = {
+            name,
+            emoji,
+            color: args.color,
+            pointsTier: args.pointsTier,
+            dailyCap: args.dailyCap,
+            archived: args.archived,
+            updatedAt: args.updatedAt,
+        };
+
+        const existing = await getCustomHabit(ctx, user._id, args.habitId);
+
+        if (existing) {
+            if (existing.updatedAt > args.updatedAt) {
+                return toCustomHabitSummary(existing);
+            }
+            await ctx.db.patch(existing._id, fields);
+            return toCustomHabitSummary({ ...existing, ...fields });
+        }
+
+        const count = (await getCustomHabits(ctx, user._id)).length;
+        if (count >= MAX_CUSTOM_HABITS) {
+            throw new Error(`You can have up to ${MAX_CUSTOM_HABITS} custom habits`);
+        }
+
+        const id = await ctx.db.insert("custom_habits", {
+            userId: user._id,
+            habitId: args.habitId,
+            ...fields,
+        });
+
+        return toCustomHabitSummary((await ctx.db.get(id))!);
+    },
+});
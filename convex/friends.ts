@@ -0,0 +1,542 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { requireSessionUser } from "./sessions";
+
+// Search limits
+const SEARCH_MIN_LENGTH = 2;
+const SEARCH_RESULT_LIMIT = 20;
+const EMAIL_SEARCH_WINDOW_MS = 60 * 60 * 1000;
+const EMAIL_SEARCHES_PER_WINDOW = 10;
+
+/**
+ * How another user relates to the caller
+ */
+export type Relationship = "friend" | "incoming" | "outgoing" | "none";
+
+/**
+ * Public profile fields shown in friend lists and search results
+ * Friends see each other's real display name
+ */
+export function toFriendProfile(user: Doc<"users">) {
+    return {
+        userId: user._id,
+        displayName: user.displayName,
+        avatarEmoji: user.avatarEmoji,
+        avatarColor: user.avatarColor,
+    };
+}
+
+/**
+ * Get the ids of everyone a user is friends with
+ */
+export async function getFriendIds(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">
+): Promise<Id<"users">[]> {
+    const friendships = await ctx.db
+        .query("friendships")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .collect();
+
+    return friendships.map((friendship) => friendship.friendId);
+}
+
+/**
+ * Get the friendship row from userId to friendId, or null
+ */
+export async function getFriendship(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">,
+    friendId: Id<"users">
+) {
+    return await ctx.db
+        .query("friendships")
+        .withIndex("by_userId_and_friendId", (q) =>
+            q.eq("userId", userId).eq("friendId", friendId)
+        )
+        .unique();
+}
+
+async function getRequest(
+    ctx: QueryCtx | MutationCtx,
+    fromUserId: Id<"users">,
+    toUserId: Id<"users">
+) {
+    return await ctx.db
+        .query("friend_requests")
+        .withIndex("by_fromUserId_and_toUserId", (q) =>
+            q.eq("fromUserId", fromUserId).eq("toUserId", toUserId)
+        )
+        .unique();
+}
+
+async function hasBlocked(
+    ctx: QueryCtx | MutationCtx,
+    blockerId: Id<"users">,
+    blockedId: Id<"users">
+): Promise<boolean> {
+    const block = await ctx.db
+        .query("user_blocks")
+        .withIndex("by_blockerId_and_blockedId", (q) =>
+            q.eq("blockerId", blockerId).eq("blockedId", blockedId)
+        )
+        .unique();
+
+    return block !== null;
+}
+
+/**
+ * Whether either user has blocked the other
+ */
+export async function isBlockedEitherWay(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">,
+    otherId: Id<"users">
+): Promise<boolean> {
+    return (await hasBlocked(ctx, userId, otherId)) || (await hasBlocked(ctx, otherId, userId));
+}
+
+async function getRelationship(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    otherId: Id<"users">
+): Promise<Relationship> {
+    if (await getFriendship(ctx, userId, otherId)) {
+        return "friend";
+    }
+    if (await getRequest(ctx, otherId, userId)) {
+        return "incoming";
+    }
+    if (await getRequest(ctx, userId, otherId)) {
+        return "outgoing";
+    }
+    return "none";
+}
+
+/**
+ * Make two users friends (both directions; no-op if they already are)
+ */
+export async function addFriendship(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    friendId: Id<"users">
+): Promise<void> {
+    if (!(await getFriendship(ctx, userId, friendId))) {
+        await ctx.db.insert("friendships", { userId, friendId });
+    }
+    if (!(await getFriendship(ctx, friendId, userId))) {
+        await ctx.db.insert("friendships", { userId: friendId, friendId: userId });
+    }
+}
+
+async function removeFriendship(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    friendId: Id<"users">
+): Promise<void> {
+    const forward = await getFriendship(ctx, userId, friendId);
+    if (forward) {
+        await ctx.db.delete(forward._id);
+    }
+
+    const backward = await getFriendship(ctx, friendId, userId);
+    if (backward) {
+        await ctx.db.delete(backward._id);
+    }
+}
+
+/**
+ * Delete pending requests between two users in either direction
+ */
+export async function removeRequests(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    otherId: Id<"users">
+): Promise<void> {
+    for (const request of [
+        await getRequest(ctx, userId, otherId),
+        await getRequest(ctx, otherId, userId),
+    ]) {
+        if (request) {
+            await ctx.db.delete(request._id);
+        }
+    }
+}
+
+/**
+ * Remove every friendship, request and block involving a user
+ * (account deletion)
+ */
+export async function deleteFriendData(
+    ctx: MutationCtx,
+    userId: Id<"users">
+): Promise<void> {
+    for (const friendId of await getFriendIds(ctx, userId)) {
+        await removeFriendship(ctx, userId, friendId);
+    }
+
+    const sentRequests = await ctx.db
+        .query("friend_requests")
+        .withIndex("by_fromUserId_and_toUserId", (q) => q.eq("fromUserId", userId))
+        .collect();
+    const receivedRequests = await ctx.db
+        .query("friend_requests")
+        .withIndex("by_toUserId", (q) => q.eq("toUserId", userId))
+        .collect();
+    for (const request of [...sentRequests, ...receivedRequests]) {
+        await ctx.db.delete(request._id);
+    }
+
+    const blocksMade = await ctx.db
+        .query("user_blocks")
+        .withIndex("by_blockerId_and_blockedId", (q) => q.eq("blockerId", userId))
+        .collect();
+    const blocksReceived = await ctx.db
+        .query("user_blocks")
+        .withIndex("by_blockedId", (q) => q.eq("blockedId", userId))
+        .collect();
+    for (const block of [...blocksMade, ...blocksReceived]) {
+        await ctx.db.delete(block._id);
+    }
+
+    const emailSearches = await ctx.db
+        .query("email_searches")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .collect();
+    for (const search of emailSearches) {
+        await ctx.db.delete(search._id);
+    }
+}
+
+/**
+ * Send a friend request
+ * If the other user already asked the caller, they become friends instead.
+ */
+export const sendFriendRequest = mutation({
+    args: {
+        sessionToken: v.string(),
+        userId: v.id("users"),
+    },
+    handler: async (ctx, args): Promise<{ status: "sent" | "accepted" }> => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        if (args.userId === user._id) {
+            throw new Error("You can't add yourself as a friend");
+        }
+
+        const other = await ctx.db.get(args.userId);
+        if (!other || (await isBlockedEitherWay(ctx, user._id, other._id))) {
+            throw new Error("User not found");
+        }
+
+        if (await getFriendship(ctx, user._id, other._id)) {
+            throw new Error("You are already friends");
+        }
+
+        const reverseRequest = await getRequest(ctx, other._id, user._id);
+        if (reverseRequest) {
+            await ctx.db.delete(reverseRequest._id);
+            await addFriendship(ctx, user._id, other._id);
+            return { status: "accepted" };
+        }
+
+        if (!(await getRequest(ctx, user._id, other._id))) {
+            await ctx.db.insert("friend_requests", {
+                fromUserId: user._id,
+                toUserId: other._id,
+            });
+        }
+
+        return { status: "sent" };
+    },
+});
+
+/**
+ * Accept a friend request sent to the caller
+ */
+export const acceptFriendRequest = mutation({
+    args: {
+        sessionToken: v.string(),
+        requestId: v.id("friend_requests"),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const request = await ctx.db.get(args.requestId);
+        if (!request || request.toUserId !== user._id) {
+            throw new Error("Friend request not found");
+        }
+
+        await ctx.db.delete(request._id);
+        await addFriendship(ctx, user._id, request.fromUserId);
+
+        return { success: true };
+    },
+});
+
+/**
+ * Decline a request sent to the caller, or cancel one they sent
+ */
+export const declineFriendRequest = mutation({
+    args: {
+        sessionToken: v.string(),
+        requestId: v.id("friend_requests"),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const request = await ctx.db.get(args.requestId);
+        if (
+            !request ||
+            (request.toUserId !== user._id && request.fromUserId !== user._id)
+        ) {
+            throw new Error("Friend request not found");
+        }
+
+        await ctx.db.delete(request._id);
+
+        return { success: true };
+    },
+});
+
+/**
+ * Remove a friend (for both sides)
+ */
+export const removeFriend = mutation({
+    args: {
+        sessionToken: v.string(),
+        friendId: v.id("users"),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        await removeFriendship(ctx, user._id, args.friendId);
+
+        return { success: true };
+    },
+});
+
+/**
+ * Block a user
+ * Ends any friendship and pending requests, and hides each user from the
+ * other's search.
+ */
+export const blockUser = mutation({
+    args: {
+        sessionToken: v.string(),
+        userId: v.id("users"),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        if (args.userId === user._id) {
+            throw new Error("You can't block yourself");
+        }
+
+        await removeFriendship(ctx, user._id, args.userId);
+        await removeRequests(ctx, user._id, args.userId);
+
+        if (!(await hasBlocked(ctx, user._id, args.userId))) {
+            await ctx.db.insert("user_blocks", {
+                blockerId: user._id,
+                blockedId: args.userId,
+            });
+        }
+
+        return { success: true };
+    },
+});
+
+/**
+ * Lift a block the caller placed
+ */
+export const unblockUser = mutation({
+    args: {
+        sessionToken: v.string(),
+        userId: v.id("users"),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const block = await ctx.db
+            .query("user_blocks")
+            .withIndex("by_blockerId_and_blockedId", (q) =>
+                q.eq("blockerId", user._id).eq("blockedId", args.userId)
+            )
+            .unique();
+
+        if (block) {
+            await ctx.db.delete(block._id);
+        }
+
+        return { success: true };
+    },
+});
+
+/**
+ * List the caller's friends, sorted by display name
+ */
+export const getFriends = query({
+    args: {
+        sessionToken: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const friends: Doc<"users">[] = [];
+        for (const friendId of await getFriendIds(ctx, user._id)) {
+            const friend = await ctx.db.get(friendId);
+            if (friend) {
+                friends.push(friend);
+            }
+        }
+
+        return friends
+            .sort((a, b) => a.displayName.localeCompare(b.displayName))
+            .map(toFriendProfile);
+    },
+});
+
+/**
+ * List pending requests sent to and by the caller
+ */
+export const getFriendRequests = query({
+    args: {
+        sessionToken: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const received = await ctx.db
+            .query("friend_requests")
+            .withIndex("by_toUserId", (q) => q.eq("toUserId", user._id))
+            .collect();
+        const sent = await ctx.db
+            .query("friend_requests")
+            .withIndex("by_fromUserId_and_toUserId", (q) => q.eq("fromUserId", user._id))
+            .collect();
+
+        const withProfiles = async (
+            requests: Doc<"friend_requests">[],
+            otherId: (request: Doc<"friend_requests">) => Id<"users">
+        ) => {
+            const results = [];
+            for (const request of requests) {
+                const other = await ctx.db.get(otherId(request));
+                if (other) {
+                    results.push({ requestId: request._id, ...toFriendProfile(other) });
+                }
+            }
+            return results;
+        };
+
+        return {
+            incoming: await withProfiles(received, (request) => request.fromUserId),
+            outgoing: await withProfiles(sent, (request) => request.toUserId),
+        };
+    },
+});
+
+/**
+ * Find users to add by display name
+ * Anonymous and blocked users never show up; anonymous users can still be
+ * added with an invite link. Emails are looked up with findUserByEmail.
+ */
+export const searchUsers = query({
+    args: {
+        sessionToken: v.string(),
+        query: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const searchText = args.query.trim();
+
+        if (searchText.length < SEARCH_MIN_LENGTH) {
+            return [];
+        }
+
+        const matches = await ctx.db
+            .query("users")
+            .withSearchIndex("search_displayName", (q) => q.search("displayName", searchText))
+            .take(SEARCH_RESULT_LIMIT);
+        const candidates = matches.filter((match) => !match.isAnonymous);
+
+        const results = [];
+        for (const candidate of candidates) {
+            if (
+                candidate._id === user._id ||
+                (await isBlockedEitherWay(ctx, user._id, candidate._id))
+            ) {
+                continue;
+            }
+
+            results.push({
+                ...toFriendProfile(candidate),
+                relationship: await getRelationship(ctx, user._id, candidate._id),
+            });
+        }
+
+        return results;
+    },
+});
+
+/**
+ * Find a user to add by their exact email address
+ * Returns the same list as searchUsers, so an address without an account
+ * looks like any other search with no results. Lookups are rate limited so
+ * addresses can't be checked in bulk.
+ */
+export const findUserByEmail = mutation({
+    args: {
+        sessionToken: v.string(),
+        email: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const email = args.email.trim();
+
+        const now = Date.now();
+        const previousSearches = await ctx.db
+            .query("email_searches")
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
+            .collect();
+
+        // Searches from this window count towards the limit; older ones can go
+        let recentSearches = 0;
+        for (const previous of previousSearches) {
+            if (previous.createdAt > now - EMAIL_SEARCH_WINDOW_MS) {
+                recentSearches++;
+            } else {
+                await ctx.db.delete(previous._id);
+            }
+        }
+
+        if (recentSearches >= EMAIL_SEARCHES_PER_WINDOW) {
+            throw new Error("Too many email searches. Try again later.");
+        }
+
+        await ctx.db.insert("email_searches", { userId: user._id, createdAt: now });
+
+        const match = await ctx.db
+            .query("users")
+            .withIndex("by_email", (q) => q.eq("email", email))
+            .unique();
+
+        if (
+            !match ||
+            match.isAnonymous ||
+            match._id === user._id ||
+            (await isBlockedEitherWay(ctx, user._id, match._id))
+        ) {
+            return [];
+        }
+
+        return [
+            {
+                ...toFriendProfile(match),
+                relationship: await getRelationship(ctx, user._id, match._id),
+            },
+        ];
+    },
+});
@@ -0,0 +1,228 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import {
+    addFriendship,
+    getFriendship,
+    isBlockedEitherWay,
+    removeRequests,
+    toFriendProfile,
+} from "./friends";
+import { requireSessionUser } from "./sessions";
+
+// Codes avoid look-alike characters (0/O, 1/I/L) so they can be typed
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 8;
+
+// Longest expiry an invite can be created with
+const MAX_INVITE_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Whether an invite can still be redeemed
+ */
+export type InviteStatus = "valid" | "expired" | "used_up";
+
+/**
+ * Generate a random, easy-to-type invite code
+ * Callers check it against their table, since codes are not guaranteed
+ * unique.
+ */
+export function generateInviteCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH));
+    return Array.from(
+        bytes,
+        (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]
+    ).join("");
+}
+
+function normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+function getInviteStatus(invite: Doc<"invites">, now: number): InviteStatus {
+    if (invite.expiresAt !== undefined && invite.expiresAt <= now) {
+        return "expired";
+    }
+    if (invite.maxUses !== undefined && invite.uses >= invite.maxUses) {
+        return "used_up";
+    }
+    return "valid";
+}
+
+async function getInviteByCode(ctx: QueryCtx | MutationCtx, code: string) {
+    return await ctx.db
+        .query("invites")
+        .withIndex("by_code", (q) => q.eq("code", normalizeCode(code)))
+        .unique();
+}
+
+async function getInvitesFrom(ctx: QueryCtx | MutationCtx, inviterId: Id<"users">) {
+    return await ctx.db
+        .query("invites")
+        .withIndex("by_inviterId", (q) => q.eq("inviterId", inviterId))
+        .collect();
+}
+
+function toInviteSummary(invite: Doc<"invites">, now: number) {
+    return {
+        code: invite.code,
+        expiresAt: invite.expiresAt,
+        maxUses: invite.maxUses,
+        uses: invite.uses,
+        status: getInviteStatus(invite, now),
+    };
+}
+
+/**
+ * Delete every invite a user created (account deletion)
+ */
+export async function deleteInvites(
+    ctx: MutationCtx,
+    userId: Id<"users">
+): Promise<void> {
+    for (const invite of await getInvitesFrom(ctx, userId)) {
+        await ctx.db.delete(invite._id);
+    }
+}
+
+/**
+ * Get the caller's current invite, or null if they have not made one
+ */
+export const getMyInvite = query({
+    args: {
+        sessionToken: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const [invite] = await getInvitesFrom(ctx, user._id);
+
+        return invite ? toInviteSummary(invite, Date.now()) : null;
+    },
+});
+
+/**
+ * Create a new invite code for the caller, replacing their previous one
+ * Leave expiresInMs or maxUses out for an invite that never expires or
+ * can be used any number of times.
+ */
+export const createInvite = mutation({
+    args: {
+        sessionToken: v.string(),
+        expiresInMs: v.optional(v.number()),
+        maxUses: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        if (
+            args.expiresInMs !== undefined &&
+            (args.expiresInMs <= 0 || args.expiresInMs > MAX_INVITE_LIFETIME_MS)
+        ) {
+            throw new Error("Invite expiry must be between now and 30 days");
+        }
+        if (
+            args.maxUses !== undefined &&
+            (!Number.isInteger(args.maxUses) || args.maxUses < 1)
+        ) {
+            throw new Error("Invite usage limit must be a whole number of at least 1");
+        }
+
+        await deleteInvites(ctx, user._id);
+
+        let code = generateInviteCode();
+        while (await getInviteByCode(ctx, code)) {
+            code = generateInviteCode();
+        }
+
+        const now = Date.now();
+        const inviteId = await ctx.db.insert("invites", {
+            inviterId: user._id,
+            code,
+            expiresAt:
+                args.expiresInMs === undefined ? undefined : now + args.expiresInMs,
+            maxUses: args.maxUses,
+            uses: 0,
+        });
+
+        return toInviteSummary((await ctx.db.get(inviteId))!, now);
+    },
+});
+
+/**
+ * Look up an invite to show who sent it
+ * Works signed out, so the invite screen can show the inviter before
+ * sign-in. Returns null for unknown codes.
+ */
+export const getInvite = query({
+    args: {
+        code: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const invite = await getInviteByCode(ctx, args.code);
+        if (!invite) {
+            return null;
+        }
+
+        const inviter = await ctx.db.get(invite.inviterId);
+        if (!inviter) {
+            return null;
+        }
+
+        return {
+            status: getInviteStatus(invite, Date.now()),
+            inviter: toFriendProfile(inviter),
+        };
+    },
+});
+
+/**
+ * Redeem an invite, making the caller and the inviter friends
+ * Counts as a use only when a new friendship is created.
+ */
+export const redeemInvite = mutation({
+    args: {
+        sessionToken: v.string(),
+        code: v.string(),
+    },
+    handler: async (
+        ctx,
+        args
+    ): Promise<{
+        status: "added" | "already_friends";
+        inviter: ReturnType<typeof toFriendProfile>;
+    }> => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const invite = await getInviteByCode(ctx, args.code);
+        const inviter = invite ? await ctx.db.get(invite.inviterId) : null;
+        if (
+            !invite ||
+            !inviter ||
+            (await isBlockedEitherWay(ctx, user._id, inviter._id))
+        ) {
+            throw new Error("Invite not found");
+        }
+
+        if (inviter._id === user._id) {
+            throw new Error("You can't use your own invite");
+        }
+
+        if (await getFriendship(ctx, user._id, inviter._id)) {
+            return { status: "already_friends", inviter: toFriendProfile(inviter) };
+        }
+
+        const status = getInviteStatus(invite, Date.now());
+        if (status === "expired") {
+            throw new Error("This invite has expired");
+        }
+        if (status === "used_up") {
+            throw new Error("This invite has reached its usage limit");
+        }
+
+        await removeRequests(ctx, user._id, inviter._id);
+        await addFriendship(ctx, user._id, inviter._id);
+        await ctx.db.patch(invite._id, { uses: invite.uses + 1 });
+
+        return { status: "added", inviter: toFriendProfile(inviter) };
+    },
+});
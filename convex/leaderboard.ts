@@ -1,72 +1,341 @@
 import { v } from "convex/values";
-import { Id } from "./_generated/dataModel";
-import { query } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { query, QueryCtx } from "./_generated/server";
+import { getFriendIds } from "./friends";
+import {
+    getPeriodId,
+    isValidPeriodId,
+    LeaderboardPeriod,
+    leaderboardPeriodValidator,
+} from "./periods";
+import { ALL_TIME_SCOPE, getRankForPoints } from "./ranks";
+import { getSessionUser } from "./sessions";
+import { getDayString, getLogDay } from "./streaks";
+
+// Most entries a rankings query returns
+export const MAX_RANKINGS_LIMIT = 100;
+const MAX_COMPETITORS = 10;
 
 interface RankingEntry {
     userId: Id<"users">;
     displayName: string;
-    ecoPoints: number;
+    ecoPoints: number; // points within the requested period
     rank: number;
     isAnonymous: boolean;
+    avatarEmoji?: string;
+    avatarColor?: string;
+}
+
+/**
+ * A user and their points within one ranking scope
+ */
+interface Standing {
+    user: Doc<"users">;
+    points: number;
+}
+
+/**
+ * Avatar fields for a ranking entry, hidden for anonymous users
+ */
+function avatarFields(user: Doc<"users">) {
+    if (user.isAnonymous) {
+        return {};
+    }
+
+    return {
+        avatarEmoji: user.avatarEmoji,
+        avatarColor: user.avatarColor,
+    };
+}
+
+/**
+ * Build a ranking entry for a standing at a known rank
+ */
+function toRankingEntry(standing: Standing, rank: number): RankingEntry {
+    const { user, points } = standing;
+    return {
+        userId: user._id,
+        displayName: user.isAnonymous ? "Anonymous" : user.displayName,
+        ecoPoints: points,
+        rank,
+        isAnonymous: user.isAnonymous,
+        ...avatarFields(user),
+    };
+}
+
+/**
+ * Rank standings already sorted best first
+ * Ties share a rank and the next total skips past them (1, 2, 2, 4), the
+ * same rule getRankForPoints uses, so a list always starts from the top.
+ */
+function toRankedEntries(standings: Standing[]): RankingEntry[] {
+    let rank = 0;
+    return standings.map((standing, index) => {
+        if (index === 0 || standing.points !== standings[index - 1].points) {
+            rank = index + 1;
+        }
+        return toRankingEntry(standing, rank);
+    });
+}
+
+/**
+ * Clamp a client-supplied list size to 1..max
+ */
+export function clampLimit(limit: number | undefined, fallback: number, max: number): number {
+    return Math.min(Math.max(Math.floor(limit ?? fallback), 1), max);
+}
+
+/**
+ * Resolve the rank-count scope for a period
+ * Clients pass the period id from their own calendar so "this week" means
+ * their week; without one the current UTC period is used.
+ */
+function resolveScope(period: LeaderboardPeriod, periodId?: string): string {
+    if (period === "all") {
+        return ALL_TIME_SCOPE;
+    }
+
+    if (periodId !== undefined) {
+        if (!isValidPeriodId(period, periodId)) {
+            throw new Error(`Invalid ${period} period id: ${periodId}`);
+        }
+        return periodId;
+    }
+
+    return getPeriodId(period, getDayString(Date.now()));
+}
+
+/**
+ * Attach users to period_points rows, skipping deleted users
+ */
+async function loadStandings(
+    ctx: QueryCtx,
+    rows: Doc<"period_points">[]
+): Promise<Standing[]> {
+    const standings: Standing[] = [];
+    for (const row of rows) {
+        const user = await ctx.db.get(row.userId);
+        if (user) {
+            standings.push({ user, points: row.points });
+        }
+    }
+    return standings;
+}
+
+/**
+ * Get the highest standings in a scope, best first
+ */
+async function getTopStandings(
+    ctx: QueryCtx,
+    scope: string,
+    limit: number
+): Promise<Standing[]> {
+    if (scope === ALL_TIME_SCOPE) {
+        const users = await ctx.db
+            .query("users")
+            .withIndex("by_ecoPoints")
+            .order("desc")
+            .take(limit);
+        return users.map((user) => ({ user, points: user.ecoPoints }));
+    }
+
+    const rows = await ctx.db
+        .query("period_points")
+        .withIndex("by_periodId_and_points", (q) => q.eq("periodId", scope))
+        .order("desc")
+        .take(limit);
+    return await loadStandings(ctx, rows);
+}
+
+/**
+ * Get a user's points within a scope (0 if they scored nothing)
+ */
+async function getUserPoints(
+    ctx: QueryCtx,
+    user: Doc<"users">,
+    scope: string
+): Promise<number> {
+    if (scope === ALL_TIME_SCOPE) {
+        return user.ecoPoints;
+    }
+
+    const row = await ctx.db
+        .query("period_points")
+        .withIndex("by_userId_and_periodId", (q) =>
+            q.eq("userId", user._id).eq("periodId", scope)
+        )
+        .unique();
+    return row?.points ?? 0;
+}
+
+/**
+ * Find the users just above and just below a user in a scope
+ * Users tied with them count as above, nearest first. Reads only the
+ * requested neighbours from an index ordered by points and ranks them from
+ * the maintained rank counts.
+ */
+async function findCompetitors(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    scope: string,
+    points: number,
+    aboveCount: number,
+    belowCount: number
+): Promise<RankingEntry[]> {
+    let standingsAbove: Standing[];
+    let standingsBelow: Standing[];
+
+    if (scope === ALL_TIME_SCOPE) {
+        const usersAbove = await ctx.db
+            .query("users")
+            .withIndex("by_ecoPoints", (q) => q.gte("ecoPoints", points))
+            .order("asc")
+            .take(aboveCount + 1);
+
+        const usersBelow = await ctx.db
+            .query("users")
+            .withIndex("by_ecoPoints", (q) => q.lt("ecoPoints", points))
+            .order("desc")
+            .take(belowCount);
+
+        standingsAbove = usersAbove
+            .filter((user) => user._id !== userId)
+            .map((user) => ({ user, points: user.ecoPoints }));
+        standingsBelow = usersBelow.map((user) => ({ user, points: user.ecoPoints }));
+    } else {
+        const rowsAbove = await ctx.db
+            .query("period_points")
+            .withIndex("by_periodId_and_points", (q) =>
+                q.eq("periodId", scope).gte("points", points)
+            )
+            .order("asc")
+            .take(aboveCount + 1);
+
+        const rowsBelow = await ctx.db
+            .query("period_points")
+            .withIndex("by_periodId_and_points", (q) =>
+                q.eq("periodId", scope).lt("points", points)
+            )
+            .order("desc")
+            .take(belowCount);
+
+        standingsAbove = await loadStandings(
+            ctx,
+            rowsAbove.filter((row) => row.userId !== userId)
+        );
+        standingsBelow = await loadStandings(ctx, rowsBelow);
+    }
+
+    // Combine and sort by points descending
+    const competitors = [...standingsAbove.slice(0, aboveCount), ...standingsBelow].sort(
+        (a, b) => b.points - a.points
+    );
+
+    return await Promise.all(
+        competitors.map(async (competitor) =>
+            toRankingEntry(
+                competitor,
+                await getRankForPoints(ctx, scope, competitor.points)
+            )
+        )
+    );
 }
 
 /**
  * Get global leaderboard rankings
- * Returns top users sorted by ecoPoints
+ * Returns top users sorted by all-time ecoPoints
  */
 export const getGlobalRankings = query({
     args: {
         limit: v.optional(v.number()),
     },
     handler: async (ctx, args): Promise<RankingEntry[]> => {
-        const limit = args.limit ?? 100;
+        const limit = clampLimit(args.limit, MAX_RANKINGS_LIMIT, MAX_RANKINGS_LIMIT);
+        const standings = await getTopStandings(ctx, ALL_TIME_SCOPE, limit);
 
-        // Get all users sorted by ecoPoints (descending)
-        const users = await ctx.db
-            .query("users")
-            .withIndex("by_ecoPoints")
-            .order("desc")
-            .take(limit);
+        return toRankedEntries(standings);
+    },
+});
 
-        // Map to ranking entries with rank numbers
-        const rankings: RankingEntry[] = users.map((user, index) => ({
-            userId: user._id,
-            displayName: user.isAnonymous ? "Anonymous" : user.displayName,
-            ecoPoints: user.ecoPoints,
-            rank: index + 1,
-            isAnonymous: user.isAnonymous,
-        }));
+/**
+ * Get leaderboard rankings for a day, ISO week, month or all time
+ * Returns top users sorted by points earned in that period
+ */
+export const getRankings = query({
+    args: {
+        period: leaderboardPeriodValidator,
+        periodId: v.optional(v.string()),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args): Promise<RankingEntry[]> => {
+        const scope = resolveScope(args.period, args.periodId);
+        const limit = clampLimit(args.limit, MAX_RANKINGS_LIMIT, MAX_RANKINGS_LIMIT);
+        const standings = await getTopStandings(ctx, scope, limit);
 
-        return rankings;
+        return toRankedEntries(standings);
+    },
+});
+
+/**
+ * Get rankings among the caller and their friends
+ * The caller is always included, so a new user still sees themselves.
+ */
+export const getFriendsRankings = query({
+    args: {
+        sessionToken: v.string(),
+        period: v.optional(leaderboardPeriodValidator),
+        periodId: v.optional(v.string()),
+    },
+    handler: async (ctx, args): Promise<RankingEntry[]> => {
+        const user = await getSessionUser(ctx, args.sessionToken);
+
+        if (!user) {
+            return [];
+        }
+
+        const scope = resolveScope(args.period ?? "all", args.periodId);
+
+        const standings: Standing[] = [
+            { user, points: await getUserPoints(ctx, user, scope) },
+        ];
+        for (const friendId of await getFriendIds(ctx, user._id)) {
+            const friend = await ctx.db.get(friendId);
+            if (friend) {
+                standings.push({
+                    user: friend,
+                    points: await getUserPoints(ctx, friend, scope),
+                });
+            }
+        }
+
+        return toRankedEntries(standings.sort((a, b) => b.points - a.points));
     },
 });
 
 /**
  * Get user's current rank and position
+ * All-time unless a period is given
  */
 export const getUserRank = query({
     args: {
-        userId: v.id("users"),
+        sessionToken: v.string(),
+        period: v.optional(leaderboardPeriodValidator),
+        periodId: v.optional(v.string()),
     },
     handler: async (ctx, args) => {
-        const user = await ctx.db.get(args.userId);
+        const user = await getSessionUser(ctx, args.sessionToken);
 
         if (!user) {
             return null;
         }
 
-        // Count how many users have more points
-        const usersAbove = await ctx.db
-            .query("users")
-            .withIndex("by_ecoPoints")
-            .filter((q) => q.gt(q.field("ecoPoints"), user.ecoPoints))
-            .collect();
-
-        const rank = usersAbove.length + 1;
+        const scope = resolveScope(args.period ?? "all", args.periodId);
+        const ecoPoints = await getUserPoints(ctx, user, scope);
+        const rank = await getRankForPoints(ctx, scope, ecoPoints);
 
         return {
             rank,
-            ecoPoints: user.ecoPoints,
+            ecoPoints,
             displayName: user.isAnonymous ? "Anonymous" : user.displayName,
         };
     },
@@ -78,139 +347,69 @@ export const getUserRank = query({
  */
 export const getClosestCompetitors = query({
     args: {
-        userId: v.id("users"),
+        sessionToken: v.string(),
         count: v.optional(v.number()),
+        period: v.optional(leaderboardPeriodValidator),
+        periodId: v.optional(v.string()),
     },
     handler: async (ctx, args): Promise<RankingEntry[]> => {
-        const count = args.count ?? 3;
-        const user = await ctx.db.get(args.userId);
+        const count = clampLimit(args.count, 3, MAX_COMPETITORS);
+        const user = await getSessionUser(ctx, args.sessionToken);
 
         if (!user) {
             return [];
         }
 
-        // Get users with similar points (above and below)
-        const usersAbove = await ctx.db
-            .query("users")
-            .withIndex("by_ecoPoints")
-            .filter((q) => q.gt(q.field("ecoPoints"), user.ecoPoints))
-            .order("asc")
-            .take(Math.ceil(count / 2));
-
-        const usersBelow = await ctx.db
-            .query("users")
-            .withIndex("by_ecoPoints")
-            .filter((q) => q.lt(q.field("ecoPoints"), user.ecoPoints))
-            .order("desc")
-            .take(Math.floor(count / 2));
+        const scope = resolveScope(args.period ?? "all", args.periodId);
+        const points = await getUserPoints(ctx, user, scope);
 
-        // Combine and sort by points descending
-        const competitors = [...usersAbove, ...usersBelow].sort(
-            (a, b) => b.ecoPoints - a.ecoPoints
+        return await findCompetitors(
+            ctx,
+            user._id,
+            scope,
+            points,
+            Math.ceil(count / 2),
+            Math.floor(count / 2)
         );
-
-        // Calculate ranks
-        const allUsers = await ctx.db
-            .query("users")
-            .withIndex("by_ecoPoints")
-            .order("desc")
-            .collect();
-
-        const rankings: RankingEntry[] = competitors.map((competitor) => {
-            const rank = allUsers.findIndex((u) => u._id === competitor._id) + 1;
-            return {
-                userId: competitor._id,
-                displayName: competitor.isAnonymous ? "Anonymous" : competitor.displayName,
-                ecoPoints: competitor.ecoPoints,
-                rank,
-                isAnonymous: competitor.isAnonymous,
-            };
-        });
-
-        return rankings;
     },
 });
 
 /**
  * Get leaderboard with user's position highlighted
- * Includes global rankings and user's specific position
+ * Includes rankings for the period (all-time by default) and the user's
+ * specific position
  */
 export const getLeaderboardWithUserPosition = query({
     args: {
-        userId: v.id("users"),
+        sessionToken: v.string(),
         topLimit: v.optional(v.number()),
+        period: v.optional(leaderboardPeriodValidator),
+        periodId: v.optional(v.string()),
     },
     handler: async (ctx, args) => {
-        const topLimit = args.topLimit ?? 50;
-        const user = await ctx.db.get(args.userId);
+        const topLimit = clampLimit(args.topLimit, 50, MAX_RANKINGS_LIMIT);
+        const user = await getSessionUser(ctx, args.sessionToken);
 
         if (!user) {
             return null;
         }
 
-        // Get top rankings
-        const topUsers = await ctx.db
-            .query("users")
-            .withIndex("by_ecoPoints")
-            .order("desc")
-            .take(topLimit);
+        const scope = resolveScope(args.period ?? "all", args.periodId);
 
-        const topRankings: RankingEntry[] = topUsers.map((u, index) => ({
-            userId: u._id,
-            displayName: u.isAnonymous ? "Anonymous" : u.displayName,
-            ecoPoints: u.ecoPoints,
-            rank: index + 1,
-            isAnonymous: u.isAnonymous,
-        }));
+        // Get top rankings
+        const topStandings = await getTopStandings(ctx, scope, topLimit);
+        const topRankings = toRankedEntries(topStandings);
 
         // Get user's rank
-        const usersAboveUser = await ctx.db
-            .query("users")
-            .withIndex("by_ecoPoints")
-            .filter((q) => q.gt(q.field("ecoPoints"), user.ecoPoints))
-            .collect();
-
+        const ecoPoints = await getUserPoints(ctx, user, scope);
         const userRank = {
-            rank: usersAboveUser.length + 1,
-            ecoPoints: user.ecoPoints,
+            rank: await getRankForPoints(ctx, scope, ecoPoints),
+            ecoPoints,
             displayName: user.isAnonymous ? "Anonymous" : user.displayName,
         };
 
         // Get closest competitors
-        const usersAbove = await ctx.db
-            .query("users")
-            .withIndex("by_ecoPoints")
-            .filter((q) => q.gt(q.field("ecoPoints"), user.ecoPoints))
-            .order("asc")
-            .take(2);
-
-        const usersBelow = await ctx.db
-            .query("users")
-            .withIndex("by_ecoPoints")
-            .filter((q) => q.lt(q.field("ecoPoints"), user.ecoPoints))
-            .order("desc")
-            .take(1);
-
-        const competitors = [...usersAbove, ...usersBelow].sort(
-            (a, b) => b.ecoPoints - a.ecoPoints
-        );
-
-        const allUsers = await ctx.db
-            .query("users")
-            .withIndex("by_ecoPoints")
-            .order("desc")
-            .collect();
-
-        const closestCompetitors: RankingEntry[] = competitors.map((competitor) => {
-            const rank = allUsers.findIndex((u) => u._id === competitor._id) + 1;
-            return {
-                userId: competitor._id,
-                displayName: competitor.isAnonymous ? "Anonymous" : competitor.displayName,
-                ecoPoints: competitor.ecoPoints,
-                rank,
-                isAnonymous: competitor.isAnonymous,
-            };
-        });
+        const closestCompetitors = await findCompetitors(ctx, user._id, scope, ecoPoints, 2, 1);
 
         return {
             topRankings,
@@ -225,10 +424,10 @@ export const getLeaderboardWithUserPosition = query({
  */
 export const getUserStats = query({
     args: {
-        userId: v.id("users"),
+        sessionToken: v.string(),
     },
     handler: async (ctx, args) => {
-        const user = await ctx.db.get(args.userId);
+        const user = await getSessionUser(ctx, args.sessionToken);
 
         if (!user) {
             return null;
@@ -237,17 +436,17 @@ export const getUserStats = query({
         // Get total habit logs
         const allLogs = await ctx.db
             .query("habit_logs")
-            .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+            .withIndex("by_userId", (q) => q.eq("userId", user._id))
             .collect();
 
         // Get logs from last 7 days
         const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
         const recentLogs = allLogs.filter((log) => log.loggedAt >= sevenDaysAgo);
 
-        // Calculate points by day for sparkline
+        // Calculate points by day for sparkline, using each log's local day
         const pointsByDay: { [key: string]: number } = {};
         recentLogs.forEach((log) => {
-            const date = new Date(log.loggedAt).toISOString().split("T")[0];
+            const date = getLogDay(log);
             pointsByDay[date] = (pointsByDay[date] || 0) + log.pointsAwarded;
         });
 
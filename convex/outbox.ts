@@ -0,0 +1,67 @@
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+
+type OutboxMessage = Pick<Doc<"outbox">, "to" | "kind" | "subject" | "body">;
+
+/**
+ * Queue a message for delivery
+ * Delivery itself is pluggable: a mail worker (or a local stand-in during
+ * development and tests) reads undelivered rows and marks them delivered.
+ */
+export async function enqueueMessage(
+    ctx: MutationCtx,
+    message: OutboxMessage
+): Promise<void> {
+    await ctx.db.insert("outbox", {
+        ...message,
+        createdAt: Date.now(),
+    });
+}
+
+/**
+ * List messages that have not been delivered yet, oldest first
+ */
+export const listPending = internalQuery({
+    args: {
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("outbox")
+            .withIndex("by_deliveredAt", (q) => q.eq("deliveredAt", undefined))
+            .order("asc")
+            .take(args.limit ?? 50);
+    },
+});
+
+/**
+ * List all messages sent to an address, newest first
+ * Lets a local stand-in read reset codes without a real mail provider
+ */
+export const listForRecipient = internalQuery({
+    args: {
+        to: v.string(),
+    },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query("outbox")
+            .withIndex("by_to", (q) => q.eq("to", args.to))
+            .order("desc")
+            .collect();
+    },
+});
+
+/**
+ * Mark a message as handed off to the delivery provider
+ */
+export const markDelivered = internalMutation({
+    args: {
+        messageId: v.id("outbox"),
+    },
+    handler: async (ctx, args) => {
+        await ctx.db.patch(args.messageId, {
+            deliveredAt: Date.now(),
+        });
+    },
+});
@@ -0,0 +1,116 @@
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { MutationCtx } from "./_generated/server";
+import { recordPointsChange } from "./ranks";
+import { getDayStartUTC } from "./streaks";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ranking windows with their own aggregates; "all" reads users.ecoPoints
+export const PERIODS = ["day", "week", "month"] as const;
+
+export type Period = (typeof PERIODS)[number];
+export type LeaderboardPeriod = Period | "all";
+
+export const leaderboardPeriodValidator = v.union(
+    v.literal("day"),
+    v.literal("week"),
+    v.literal("month"),
+    v.literal("all")
+);
+
+/**
+ * Get the ISO 8601 week a YYYY-MM-DD day falls in, e.g. "2026-W42"
+ * Weeks start on Monday; week 1 is the week with the year's first Thursday.
+ */
+function getIsoWeekId(day: string): string {
+    const date = new Date(getDayStartUTC(day));
+    const weekday = date.getUTCDay() || 7; // Monday = 1 ... Sunday = 7
+
+    // The Thursday of this week decides which year the week belongs to
+    date.setUTCDate(date.getUTCDate() + 4 - weekday);
+    const year = date.getUTCFullYear();
+    const week = Math.ceil(((date.getTime() - Date.UTC(year, 0, 1)) / DAY_MS + 1) / 7);
+
+    return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Get the id of the period a YYYY-MM-DD day falls in
+ * "2026-10-19" for a day, "2026-W43" for a week, "2026-10" for a month
+ */
+export function getPeriodId(period: Period, day: string): string {
+    switch (period) {
+        case "day":
+            return day;
+        case "week":
+            return getIsoWeekId(day);
+        case "month":
+            return day.slice(0, 7);
+    }
+}
+
+/**
+ * Check that a period id has the shape getPeriodId produces for a period
+ */
+export function isValidPeriodId(period: Period, periodId: string): boolean {
+    switch (period) {
+        case "day":
+            return /^\d{4}-\d{2}-\d{2}$/.test(periodId);
+        case "week":
+            return /^\d{4}-W\d{2}$/.test(periodId);
+        case "month":
+            return /^\d{4}-\d{2}$/.test(periodId);
+    }
+}
+
+/**
+ * Add (or with a negative delta, take back) points in every period a day
+ * falls in, keeping each period's rank counts in step
+ */
+export async function addPeriodPoints(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    day: string,
+    delta: number
+): Promise<void> {
+    if (delta === 0) return;
+
+    for (const period of PERIODS) {
+        const periodId = getPeriodId(period, day);
+
+        const row = await ctx.db
+            .query("period_points")
+            .withIndex("by_userId_and_periodId", (q) =>
+                q.eq("userId", userId).eq("periodId", periodId)
+            )
+            .unique();
+
+        if (row) {
+            const points = Math.max(0, row.points + delta);
+            await ctx.db.patch(row._id, { points });
+            await recordPointsChange(ctx, periodId, row.points, points);
+        } else if (delta > 0) {
+            await ctx.db.insert("period_points", { userId, periodId, points: delta });
+            await recordPointsChange(ctx, periodId, null, delta);
+        }
+    }
+}
+
+/**
+ * Remove all of a user's period aggregates (account deletion)
+ */
+export async function deletePeriodPoints(
+    ctx: MutationCtx,
+    userId: Id<"users">
+): Promise<void> {
+    const rows = await ctx.db
+        .query("period_points")
+        .withIndex("by_userId_and_periodId", (q) => q.eq("userId", userId))
+        .collect();
+
+    for (const row of rows) {
+        await ctx.db.delete(row._id);
+        await recordPointsChange(ctx, row.periodId, row.points, null);
+    }
+}
@@ -0,0 +1,229 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { internalMutation, mutation, MutationCtx } from "./_generated/server";
+import { requireSessionUser } from "./sessions";
+
+// Profile field limits
+const DISPLAY_NAME_MIN_LENGTH = 2;
+const DISPLAY_NAME_MAX_LENGTH = 30;
+const BIO_MAX_LENGTH = 160;
+const AVATAR_EMOJI_MAX_LENGTH = 8; // UTF-16 units; covers ZWJ sequences
+
+// Users given a display name key per backfill run
+const BACKFILL_PAGE_SIZE = 500;
+
+// Names that can't be claimed because they impersonate the app or
+// collide with placeholder names shown in the UI
+const RESERVED_DISPLAY_NAMES = ["anonymous", "you", "guest", "demo user", "econest", "admin"];
+
+// Substrings rejected in display names and bios
+const BLOCKED_TERMS = [
+    "fuck",
+    "shit",
+    "bitch",
+    "cunt",
+    "asshole",
+    "bastard",
+    "dick",
+    "nigger",
+    "faggot",
+    "retard",
+    "slut",
+    "whore",
+];
+
+const AVATAR_COLOR_REGEX = /^#[0-9a-fA-F]{6}$/;
+const EMOJI_REGEX = /^\p{Extended_Pictographic}/u;
+
+/**
+ * Normalize a display name for uniqueness comparisons
+ */
+export function normalizeDisplayName(displayName: string): string {
+    return displayName.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Check text against the blocklist, ignoring case, spacing and common
+ * character substitutions
+ */
+function containsBlockedTerm(text: string): boolean {
+    const collapsed = text
+        .toLowerCase()
+        .replace(/[0@]/g, "o")
+        .replace(/[1!|]/g, "i")
+        .replace(/3/g, "e")
+        .replace(/4/g, "a")
+        .replace(/[5$]/g, "s")
+        .replace(/[^a-z]/g, "");
+
+    return BLOCKED_TERMS.some((term) => collapsed.includes(term));
+}
+
+/**
+ * Validate a display name, returning the trimmed value
+ */
+export function validateDisplayName(displayName: string): string {
+    const trimmed = displayName.trim().replace(/\s+/g, " ");
+
+    if (
+        trimmed.length < DISPLAY_NAME_MIN_LENGTH ||
+        trimmed.length > DISPLAY_NAME_MAX_LENGTH
+    ) {
+        throw new Error(
+            `Display name must be ${DISPLAY_NAME_MIN_LENGTH}-${DISPLAY_NAME_MAX_LENGTH} characters`
+        );
+    }
+
+    if (RESERVED_DISPLAY_NAMES.includes(trimmed.toLowerCase())) {
+        throw new Error("That display name is reserved");
+    }
+
+    if (containsBlockedTerm(trimmed)) {
+        throw new Error("Display name contains language that isn't allowed");
+    }
+
+    return trimmed;
+}
+
+/**
+ * Throw if another user already has this display name (case-insensitive)
+ */
+export async function ensureDisplayNameAvailable(
+    ctx: MutationCtx,
+    displayName: string,
+    excludeUserId?: Id<"users">
+): Promise<void> {
+    const existing = await ctx.db
+        .query("users")
+        .withIndex("by_displayNameKey", (q) =>
+            q.eq("displayNameKey", normalizeDisplayName(displayName))
+        )
+        .first();
+
+    if (existing && existing._id !== excludeUserId) {
+        throw new Error("That display name is already taken");
+    }
+}
+
+/**
+ * Give users created before display names were unique their displayNameKey
+ * Until they have one, ensureDisplayNameAvailable can't see their names.
+ * Run once after deploying; it schedules itself until every user has a key.
+ */
+export const backfillDisplayNameKeys = internalMutation({
+    args: {},
+    handler: async (ctx): Promise<{ updated: number; isDone: boolean }> => {
+        const users = await ctx.db
+            .query("users")
+            .withIndex("by_displayNameKey", (q) => q.eq("displayNameKey", undefined))
+            .take(BACKFILL_PAGE_SIZE);
+
+        for (const user of users) {
+            await ctx.db.patch(user._id, {
+                displayNameKey: normalizeDisplayName(user.displayName),
+            });
+        }
+
+        const isDone = users.length < BACKFILL_PAGE_SIZE;
+        if (!isDone) {
+            await ctx.scheduler.runAfter(0, internal.profile.backfillDisplayNameKeys, {});
+        }
+
+        return { updated: users.length, isDone };
+    },
+});
+
+function validateBio(bio: string): string {
+    const trimmed = bio.trim();
+
+    if (trimmed.length > BIO_MAX_LENGTH) {
+        throw new Error(`Bio must be at most ${BIO_MAX_LENGTH} characters`);
+    }
+
+    if (containsBlockedTerm(trimmed)) {
+        throw new Error("Bio contains language that isn't allowed");
+    }
+
+    return trimmed;
+}
+
+function validateAvatarEmoji(emoji: string): string {
+    const trimmed = emoji.trim();
+
+    if (
+        trimmed.length === 0 ||
+        trimmed.length > AVATAR_EMOJI_MAX_LENGTH ||
+        !EMOJI_REGEX.test(trimmed)
+    ) {
+        throw new Error("Avatar must be a single emoji");
+    }
+
+    return trimmed;
+}
+
+function validateAvatarColor(color: string): string {
+    if (!AVATAR_COLOR_REGEX.test(color)) {
+        throw new Error("Avatar color must be a hex color like #34C759");
+    }
+
+    return color.toUpperCase();
+}
+
+/**
+ * Update the signed-in user's profile
+ * Omitted fields are left unchanged; empty strings clear optional fields
+ */
+export const updateProfile = mutation({
+    args: {
+        sessionToken: v.string(),
+        displayName: v.optional(v.string()),
+        avatarEmoji: v.optional(v.string()),
+        avatarColor: v.optional(v.string()),
+        bio: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const updates: {
+            displayName?: string;
+            displayNameKey?: string;
+            avatarEmoji?: string;
+            avatarColor?: string;
+            bio?: string;
+        } = {};
+
+        if (args.displayName !== undefined) {
+            const displayName = validateDisplayName(args.displayName);
+            await ensureDisplayNameAvailable(ctx, displayName, user._id);
+            updates.displayName = displayName;
+            updates.displayNameKey = normalizeDisplayName(displayName);
+        }
+
+        if (args.avatarEmoji !== undefined) {
+            updates.avatarEmoji =
+                args.avatarEmoji === "" ? undefined : validateAvatarEmoji(args.avatarEmoji);
+        }
+
+        if (args.avatarColor !== undefined) {
+            updates.avatarColor =
+                args.avatarColor === "" ? undefined : validateAvatarColor(args.avatarColor);
+        }
+
+        if (args.bio !== undefined) {
+            const bio = validateBio(args.bio);
+            updates.bio = bio === "" ? undefined : bio;
+        }
+
+        await ctx.db.patch(user._id, updates);
+
+        const updated = await ctx.db.get(user._id);
+
+        return {
+            displayName: updated!.displayName,
+            avatarEmoji: updated!.avatarEmoji,
+            avatarColor: updated!.avatarColor,
+            bio: updated!.bio,
+        };
+    },
+});
@@ -0,0 +1,203 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+
+// Width of a rank bucket in points. Computing a rank reads every non-empty
+// bucket above the user plus at most this many point_counts rows, so the
+// cost depends on the spread of scores rather than the number of users.
+export const RANK_BUCKET_SIZE = 100;
+
+// Scope of the all-time ranking; period rankings use their period id
+export const ALL_TIME_SCOPE = "all";
+
+// Users counted per rebuildRankCounts call
+const REBUILD_PAGE_SIZE = 500;
+
+/**
+ * Get the rank bucket a points total falls in
+ */
+export function getRankBucket(points: number): number {
+    return Math.floor(Math.max(0, points) / RANK_BUCKET_SIZE);
+}
+
+async function adjustBucketCount(
+    ctx: MutationCtx,
+    scope: string,
+    bucket: number,
+    delta: number
+): Promise<void> {
+    const row = await ctx.db
+        .query("rank_buckets")
+        .withIndex("by_scope_and_bucket", (q) =>
+            q.eq("scope", scope).eq("bucket", bucket)
+        )
+        .unique();
+
+    if (!row) {
+        if (delta > 0) {
+            await ctx.db.insert("rank_buckets", { scope, bucket, count: delta });
+        }
+        return;
+    }
+
+    const count = row.count + delta;
+    if (count > 0) {
+        await ctx.db.patch(row._id, { count });
+    } else {
+        await ctx.db.delete(row._id);
+    }
+}
+
+async function adjustPointCount(
+    ctx: MutationCtx,
+    scope: string,
+    points: number,
+    delta: number
+): Promise<void> {
+    const row = await ctx.db
+        .query("point_counts")
+        .withIndex("by_scope_and_points", (q) =>
+            q.eq("scope", scope).eq("points", points)
+        )
+        .unique();
+
+    if (!row) {
+        if (delta > 0) {
+            await ctx.db.insert("point_counts", { scope, points, count: delta });
+        }
+        return;
+    }
+
+    const count = row.count + delta;
+    if (count > 0) {
+        await ctx.db.patch(row._id, { count });
+    } else {
+        await ctx.db.delete(row._id);
+    }
+}
+
+/**
+ * Move a user between rank counts after their points change
+ * Call it in the same mutation that writes the points (users.ecoPoints for
+ * ALL_TIME_SCOPE, period_points otherwise). Pass null for oldPoints when
+ * the user is new to the scope, and null for newPoints when removed.
+ */
+export async function recordPointsChange(
+    ctx: MutationCtx,
+    scope: string,
+    oldPoints: number | null,
+    newPoints: number | null
+): Promise<void> {
+    if (oldPoints === newPoints) return;
+
+    if (oldPoints !== null) {
+        await adjustPointCount(ctx, scope, oldPoints, -1);
+    }
+    if (newPoints !== null) {
+        await adjustPointCount(ctx, scope, newPoints, 1);
+    }
+
+    const oldBucket = oldPoints === null ? null : getRankBucket(oldPoints);
+    const newBucket = newPoints === null ? null : getRankBucket(newPoints);
+    if (oldBucket === newBucket) return;
+
+    if (oldBucket !== null) {
+        await adjustBucketCount(ctx, scope, oldBucket, -1);
+    }
+    if (newBucket !== null) {
+        await adjustBucketCount(ctx, scope, newBucket, 1);
+    }
+}
+
+/**
+ * Count users in a scope with strictly more points
+ */
+export async function countUsersAbove(
+    ctx: QueryCtx,
+    scope: string,
+    points: number
+): Promise<number> {
+    const bucket = getRankBucket(points);
+
+    const higherBuckets = await ctx.db
+        .query("rank_buckets")
+        .withIndex("by_scope_and_bucket", (q) =>
+            q.eq("scope", scope).gt("bucket", bucket)
+        )
+        .collect();
+
+    // Users in the same bucket with more points, one row per distinct total
+    const higherInBucket = await ctx.db
+        .query("point_counts")
+        .withIndex("by_scope_and_points", (q) =>
+            q
+                .eq("scope", scope)
+                .gt("points", points)
+                .lt("points", (bucket + 1) * RANK_BUCKET_SIZE)
+        )
+        .collect();
+
+    return [...higherBuckets, ...higherInBucket].reduce(
+        (total, row) => total + row.count,
+        0
+    );
+}
+
+/**
+ * Get the rank a points total holds within a scope (ties share a rank)
+ */
+export async function getRankForPoints(
+    ctx: QueryCtx,
+    scope: string,
+    points: number
+): Promise<number> {
+    return (await countUsersAbove(ctx, scope, points)) + 1;
+}
+
+/**
+ * Recount the all-time rank_buckets and point_counts from the users table
+ * For first deploy or repair. Clears the counts, then walks users a page
+ * at a time, scheduling itself until done. Run it while points are not
+ * changing, since users updated mid-rebuild can be counted twice.
+ */
+export const rebuildRankCounts = internalMutation({
+    args: {
+        cursor: v.optional(v.string()),
+    },
+    handler: async (ctx, args): Promise<{ counted: number; isDone: boolean }> => {
+        if (args.cursor === undefined) {
+            const buckets = await ctx.db
+                .query("rank_buckets")
+                .withIndex("by_scope_and_bucket", (q) => q.eq("scope", ALL_TIME_SCOPE))
+                .collect();
+            for (const row of buckets) {
+                await ctx.db.delete(row._id);
+            }
+
+            const pointCounts = await ctx.db
+                .query("point_counts")
+                .withIndex("by_scope_and_points", (q) => q.eq("scope", ALL_TIME_SCOPE))
+                .collect();
+            for (const row of pointCounts) {
+                await ctx.db.delete(row._id);
+            }
+        }
+
+        const page = await ctx.db.query("users").paginate({
+            cursor: args.cursor ?? null,
+            numItems: REBUILD_PAGE_SIZE,
+        });
+
+        for (const user of page.page) {
+            await recordPointsChange(ctx, ALL_TIME_SCOPE, null, user.ecoPoints);
+        }
+
+        if (!page.isDone) {
+            await ctx.scheduler.runAfter(0, internal.ranks.rebuildRankCounts, {
+                cursor: page.continueCursor,
+            });
+        }
+
+        return { counted: page.page.length, isDone: page.isDone };
+    },
+});
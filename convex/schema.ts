@@ -9,23 +9,100 @@ export default defineSchema({
         isAnonymous: v.boolean(),
         lastActive: v.number(),
         passwordHash: v.string(),
+        displayNameKey: v.optional(v.string()), // normalized for uniqueness
+        avatarEmoji: v.optional(v.string()),
+        avatarColor: v.optional(v.string()),
+        bio: v.optional(v.string()),
+        timeZone: v.optional(v.string()), // IANA name from the user's latest sync
+        streakFreezes: v.optional(v.number()), // held but not yet spent, shared by all habits
     })
         .index("by_email", ["email"])
+        .index("by_displayNameKey", ["displayNameKey"])
         .index("by_ecoPoints", ["ecoPoints"])
-        .index("by_lastActive", ["lastActive"]),
+        .index("by_lastActive", ["lastActive"])
+        .searchIndex("search_displayName", { searchField: "displayName" }),
+
+    sessions: defineTable({
+        userId: v.id("users"),
+        token: v.string(), // opaque bearer token handed to the client
+        expiresAt: v.number(),
+    })
+        .index("by_token", ["token"])
+        .index("by_userId", ["userId"]),
+
+    password_reset_codes: defineTable({
+        userId: v.id("users"),
+        codeHash: v.string(), // SHA-256 of the code, never the code itself
+        expiresAt: v.number(),
+        attempts: v.number(), // wrong guesses, carried over from earlier codes this hour
+        usedAt: v.optional(v.number()),
+    }).index("by_userId", ["userId"]),
+
+    // Outgoing messages (emails) waiting to be picked up by a delivery worker
+    outbox: defineTable({
+        to: v.string(),
+        kind: v.literal("password_reset"),
+        subject: v.string(),
+        body: v.string(),
+        createdAt: v.number(),
+        deliveredAt: v.optional(v.number()),
+    })
+        .index("by_to", ["to"])
+        .index("by_deliveredAt", ["deliveredAt"]),
 
     habit_logs: defineTable({
         userId: v.id("users"),
         habitType: v.string(),
+        customHabitId: v.optional(v.string()), // custom_habits.habitId for "custom" logs
+        quantity: v.optional(v.number()), // amount done, e.g. 12 (km)
+        unit: v.optional(v.string()),
         pointsAwarded: v.number(),
         clientId: v.string(), // for deduplication
         loggedAt: v.number(),
         validated: v.boolean(),
+        timeZone: v.optional(v.string()), // IANA zone the log was made in
+        day: v.optional(v.string()), // YYYY-MM-DD in that zone
+        teamId: v.optional(v.id("teams")), // team credited with the points
     })
         .index("by_userId", ["userId"])
         .index("by_userId_and_loggedAt", ["userId", "loggedAt"])
         .index("by_clientId", ["clientId"]),
 
+    streaks: defineTable({
+        userId: v.id("users"),
+        habitType: v.string(), // habit key: the type, or "custom:<habitId>"
+        currentStreak: v.number(),
+        longestStreak: v.number(),
+        lastLoggedDate: v.string(), // YYYY-MM-DD
+        lastLoggedAt: v.optional(v.number()),
+        lastTimeZone: v.optional(v.string()),
+    }).index("by_userId_and_habitType", ["userId", "habitType"]),
+
+    // Missed days a streak freeze covered, so recounts keep the streak
+    streak_freezes: defineTable({
+        userId: v.id("users"),
+        habitType: v.string(), // habit key, as in streaks
+        day: v.string(), // YYYY-MM-DD
+        clientId: v.optional(v.string()), // the log that spent the freeze
+    }).index("by_userId_and_habitType_and_day", ["userId", "habitType", "day"]),
+
+    // Habits a user defined themselves, logged with habitType "custom"
+    custom_habits: defineTable({
+        userId: v.id("users"),
+        habitId: v.string(), // client-generated, stable across devices
+        name: v.string(),
+        emoji: v.string(),
+        color: v.string(), // #RRGGBB
+        pointsTier: v.union(
+            v.literal("small"),
+            v.literal("medium"),
+            v.literal("large")
+        ),
+        dailyCap: v.number(), // points per day
+        archived: v.boolean(),
+        updatedAt: v.number(), // client edit time; newer edits win
+    }).index("by_userId_and_habitId", ["userId", "habitId"]),
+
     sync_batches: defineTable({
         userId: v.id("users"),
         itemCount: v.number(),
@@ -37,4 +114,104 @@ export default defineSchema({
     })
         .index("by_userId", ["userId"])
         .index("by_status", ["status"]),
+
+    // One row per direction, so each side lists friends with one index read
+    friendships: defineTable({
+        userId: v.id("users"),
+        friendId: v.id("users"),
+    })
+        .index("by_userId", ["userId"])
+        .index("by_userId_and_friendId", ["userId", "friendId"]),
+
+    // Pending requests; accepting or declining deletes the row
+    friend_requests: defineTable({
+        fromUserId: v.id("users"),
+        toUserId: v.id("users"),
+    })
+        .index("by_fromUserId_and_toUserId", ["fromUserId", "toUserId"])
+        .index("by_toUserId", ["toUserId"]),
+
+    // Blocked users cannot find, friend or request the blocker
+    user_blocks: defineTable({
+        blockerId: v.id("users"),
+        blockedId: v.id("users"),
+    })
+        .index("by_blockerId_and_blockedId", ["blockerId", "blockedId"])
+        .index("by_blockedId", ["blockedId"]),
+
+    // Email lookups a user made, kept for an hour to rate-limit them
+    email_searches: defineTable({
+        userId: v.id("users"),
+        createdAt: v.number(),
+    }).index("by_userId", ["userId"]),
+
+    // Invite codes that befriend the inviter when redeemed; one per user,
+    // replaced when a new one is generated
+    invites: defineTable({
+        inviterId: v.id("users"),
+        code: v.string(),
+        expiresAt: v.optional(v.number()), // no expiry when absent
+        maxUses: v.optional(v.number()), // unlimited when absent
+        uses: v.number(),
+    })
+        .index("by_code", ["code"])
+        .index("by_inviterId", ["inviterId"]),
+
+    // Households or offices pooling points; totals count logs made while
+    // a member, and stay with the team when a member leaves
+    teams: defineTable({
+        name: v.string(),
+        inviteCode: v.string(),
+        ownerId: v.id("users"),
+        totalPoints: v.number(),
+        memberCount: v.number(),
+    })
+        .index("by_inviteCode", ["inviteCode"])
+        .index("by_totalPoints", ["totalPoints"]),
+
+    // A user belongs to at most one team
+    team_members: defineTable({
+        teamId: v.id("teams"),
+        userId: v.id("users"),
+        role: v.union(v.literal("owner"), v.literal("admin"), v.literal("member")),
+        joinedAt: v.number(),
+    })
+        .index("by_teamId", ["teamId"])
+        .index("by_userId", ["userId"]),
+
+    // Points each member added to their team in an ISO week
+    team_contributions: defineTable({
+        teamId: v.id("teams"),
+        userId: v.id("users"),
+        weekId: v.string(), // "2026-W42"
+        points: v.number(),
+    })
+        .index("by_teamId_and_userId_and_weekId", ["teamId", "userId", "weekId"])
+        .index("by_teamId_and_weekId", ["teamId", "weekId"])
+        .index("by_userId", ["userId"]),
+
+    // Points each user earned in a day, ISO week or month
+    period_points: defineTable({
+        userId: v.id("users"),
+        periodId: v.string(), // "2026-10-19", "2026-W42" or "2026-10"
+        points: v.number(),
+    })
+        .index("by_userId_and_periodId", ["userId", "periodId"])
+        .index("by_periodId_and_points", ["periodId", "points"]),
+
+    // How many users sit in each RANK_BUCKET_SIZE-wide band of points
+    // Scope is "all" for all-time points, a period id, or "teams" for
+    // team totals
+    rank_buckets: defineTable({
+        scope: v.string(),
+        bucket: v.number(), // floor(points / RANK_BUCKET_SIZE)
+        count: v.number(),
+    }).index("by_scope_and_bucket", ["scope", "bucket"]),
+
+    // How many users have exactly this many points within a scope
+    point_counts: defineTable({
+        scope: v.string(),
+        points: v.number(),
+        count: v.number(),
+    }).index("by_scope_and_points", ["scope", "points"]),
 });
@@ -0,0 +1,113 @@
+import { Doc, Id } from "./_generated/dataModel";
+import { MutationCtx, QueryCtx } from "./_generated/server";
+
+// Sessions are valid for 7 days from sign-in
+export const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const SESSION_TOKEN_BYTES = 32;
+
+/**
+ * Generate an opaque, unguessable session token
+ */
+function generateSessionToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(SESSION_TOKEN_BYTES));
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Issue a new session for a user, pruning any of their expired sessions
+ */
+export async function createSession(
+    ctx: MutationCtx,
+    userId: Id<"users">
+): Promise<{ token: string; expiresAt: number }> {
+    const now = Date.now();
+
+    const existing = await ctx.db
+        .query("sessions")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .collect();
+
+    for (const session of existing) {
+        if (session.expiresAt <= now) {
+            await ctx.db.delete(session._id);
+        }
+    }
+
+    const token = generateSessionToken();
+    const expiresAt = now + SESSION_DURATION_MS;
+
+    await ctx.db.insert("sessions", { userId, token, expiresAt });
+
+    return { token, expiresAt };
+}
+
+/**
+ * Look up a live session by token
+ * Returns null for unknown or expired tokens
+ */
+export async function getSession(
+    ctx: QueryCtx | MutationCtx,
+    sessionToken: string
+): Promise<Doc<"sessions"> | null> {
+    const session = await ctx.db
+        .query("sessions")
+        .withIndex("by_token", (q) => q.eq("token", sessionToken))
+        .first();
+
+    if (!session || session.expiresAt <= Date.now()) {
+        return null;
+    }
+
+    return session;
+}
+
+/**
+ * Resolve a session token to its user, or null if the session is not valid
+ */
+export async function getSessionUser(
+    ctx: QueryCtx | MutationCtx,
+    sessionToken: string
+): Promise<Doc<"users"> | null> {
+    const session = await getSession(ctx, sessionToken);
+    if (!session) {
+        return null;
+    }
+
+    return await ctx.db.get(session.userId);
+}
+
+/**
+ * Resolve a session token to its user, throwing if the session is not valid
+ */
+export async function requireSessionUser(
+    ctx: QueryCtx | MutationCtx,
+    sessionToken: string
+): Promise<Doc<"users">> {
+    const user = await getSessionUser(ctx, sessionToken);
+    if (!user) {
+        throw new Error("Unauthorized: session is invalid or has expired");
+    }
+
+    return user;
+}
+
+/**
+ * Revoke every session belonging to a user, optionally keeping one alive
+ */
+export async function revokeUserSessions(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    exceptToken?: string
+): Promise<void> {
+    const sessions = await ctx.db
+        .query("sessions")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .collect();
+
+    for (const session of sessions) {
+        if (session.token !== exceptToken) {
+            await ctx.db.delete(session._id);
+        }
+    }
+}
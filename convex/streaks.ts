@@ -0,0 +1,427 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { MutationCtx, query, QueryCtx } from "./_generated/server";
+import { getSessionUser } from "./sessions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many days of logs to read per query while walking a streak backwards
+const STREAK_WINDOW_DAYS = 14;
+
+// A skipped calendar day is forgiven when the time zone changed between two
+// logs that are at most this far apart (e.g. flying east across the date line)
+const TRAVEL_GAP_MS = 48 * 60 * 60 * 1000;
+
+// One streak freeze is earned each time a streak reaches a multiple of this
+// many days; must match services/habit-service.ts
+const STREAK_FREEZE_EVERY_DAYS = 7;
+const MAX_STREAK_FREEZES = 3; // most a user can hold before spending any
+
+/**
+ * A log reduced to what streak math needs
+ */
+export interface DayLog {
+    day: string; // YYYY-MM-DD in the log's own time zone
+    loggedAt: number;
+    timeZone?: string;
+}
+
+/**
+ * Check that a string is an IANA time zone the runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get the YYYY-MM-DD day a timestamp falls on in a time zone
+ */
+export function getDayString(timestamp: number, timeZone: string = "UTC"): string {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+    }).formatToParts(new Date(timestamp));
+
+    const part = (type: string) =>
+        parts.find((p) => p.type === type)?.value ?? "";
+
+    return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+/**
+ * Get the day a stored log counts towards
+ * Logs synced before time zones were recorded fall back to their UTC day.
+ */
+export function getLogDay(log: Doc<"habit_logs">): string {
+    return log.day ?? getDayString(log.loggedAt);
+}
+
+/**
+ * Get the key a log's streak and daily cap are tracked under
+ * Built-in habits use their type; each custom habit has its own key.
+ */
+export function getHabitKey(log: {
+    habitType: string;
+    customHabitId?: string;
+}): string {
+    return log.customHabitId ? `custom:${log.customHabitId}` : log.habitType;
+}
+
+/**
+ * Get the timestamp of UTC midnight for a YYYY-MM-DD day
+ */
+export function getDayStartUTC(day: string): number {
+    return Date.parse(`${day}T00:00:00.000Z`);
+}
+
+/**
+ * Shift a YYYY-MM-DD day by a number of calendar days
+ */
+function addDays(day: string, days: number): string {
+    return new Date(getDayStartUTC(day) + days * DAY_MS)
+        .toISOString()
+        .split("T")[0];
+}
+
+/**
+ * Decide whether `next` extends a streak that ended with `prev`
+ * Consecutive calendar days always count. A single missing day also counts
+ * when the time zone changed and the logs are under 48 hours apart, so
+ * travelling never costs a streak.
+ */
+export function continuesStreak(prev: DayLog, next: DayLog): boolean {
+    const gap = Math.round(
+        (getDayStartUTC(next.day) - getDayStartUTC(prev.day)) / DAY_MS
+    );
+
+    if (gap === 1) {
+        return true;
+    }
+
+    return (
+        gap === 2 &&
+        prev.timeZone !== next.timeZone &&
+        next.loggedAt - prev.loggedAt <= TRAVEL_GAP_MS
+    );
+}
+
+/**
+ * Get the missed days streak freezes covered for a habit
+ */
+async function getFrozenDays(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">,
+    habitKey: string
+): Promise<Set<string>> {
+    const freezes = await ctx.db
+        .query("streak_freezes")
+        .withIndex("by_userId_and_habitType_and_day", (q) =>
+            q.eq("userId", userId).eq("habitType", habitKey)
+        )
+        .collect();
+
+    return new Set(freezes.map((freeze) => freeze.day));
+}
+
+/**
+ * Count consecutive days (including the entry's own day) on which the user
+ * logged this habit, ending at the entry's day
+ * Days covered by a streak freeze keep the run going but don't count.
+ * @param habitKey The habit's key (see getHabitKey)
+ */
+export async function calculateStreakDays(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">,
+    habitKey: string,
+    entry: DayLog
+): Promise<number> {
+    // Earliest and latest log for each day seen so far
+    const days = new Map<string, { earliest: DayLog; latest: DayLog }>();
+    const frozenDays = await getFrozenDays(ctx, userId, habitKey);
+
+    // Zones span UTC-12..UTC+14, so pad windows by a day on either side
+    let windowStart = Math.max(entry.loggedAt, getDayStartUTC(entry.day)) + 2 * DAY_MS;
+
+    const loadWindow = async () => {
+        const windowEnd = windowStart;
+        windowStart = windowEnd - STREAK_WINDOW_DAYS * DAY_MS;
+
+        const logs = await ctx.db
+            .query("habit_logs")
+            .withIndex("by_userId_and_loggedAt", (q) =>
+                q
+                    .eq("userId", userId)
+                    .gte("loggedAt", windowStart)
+                    .lt("loggedAt", windowEnd)
+            )
+            .collect();
+
+        for (const log of logs) {
+            if (getHabitKey(log) !== habitKey) continue;
+
+            const dayLog: DayLog = {
+                day: getLogDay(log),
+                loggedAt: log.loggedAt,
+                timeZone: log.timeZone,
+            };
+            const seen = days.get(dayLog.day);
+            if (!seen) {
+                days.set(dayLog.day, { earliest: dayLog, latest: dayLog });
+            } else {
+                if (dayLog.loggedAt < seen.earliest.loggedAt) seen.earliest = dayLog;
+                if (dayLog.loggedAt > seen.latest.loggedAt) seen.latest = dayLog;
+            }
+        }
+    };
+
+    const isLoaded = (day: string) => windowStart <= getDayStartUTC(day) - DAY_MS;
+
+    await loadWindow();
+
+    const sameDay = days.get(entry.day);
+    let current =
+        sameDay && sameDay.earliest.loggedAt < entry.loggedAt
+            ? sameDay.earliest
+            : entry;
+    let streak = 1;
+
+    // Walk backwards one day at a time until the chain breaks
+    while (true) {
+        const dayBefore = addDays(current.day, -1);
+        const twoDaysBack = addDays(current.day, -2);
+        while (!isLoaded(twoDaysBack)) {
+            await loadWindow();
+        }
+
+        // Step over missed days a freeze covered
+        let previousDay = dayBefore;
+        while (!days.has(previousDay) && frozenDays.has(previousDay)) {
+            previousDay = addDays(previousDay, -1);
+            while (!isLoaded(previousDay)) {
+                await loadWindow();
+            }
+        }
+
+        const bridged = previousDay !== dayBefore;
+        const previous = bridged
+            ? days.get(previousDay)
+            : days.get(dayBefore) ?? days.get(twoDaysBack);
+
+        if (!previous || (!bridged && !continuesStreak(previous.latest, current))) {
+            return streak;
+        }
+
+        streak++;
+        current = previous.earliest;
+    }
+}
+
+/**
+ * Cover the days missed since a habit was last logged with the user's
+ * streak freezes, if they hold enough for all of them
+ * Call before counting a new log's streak. Backfills and logs that already
+ * continue the streak use none.
+ * @param clientId The log spending the freezes, so removing it refunds them
+ * @returns How many freezes were used
+ */
+export async function applyStreakFreezes(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    habitKey: string,
+    entry: DayLog,
+    clientId: string
+): Promise<number> {
+    const existing = await ctx.db
+        .query("streaks")
+        .withIndex("by_userId_and_habitType", (q) =>
+            q.eq("userId", userId).eq("habitType", habitKey)
+        )
+        .first();
+
+    if (!existing || entry.day <= existing.lastLoggedDate) {
+        return 0;
+    }
+
+    const last: DayLog = {
+        day: existing.lastLoggedDate,
+        loggedAt: existing.lastLoggedAt ?? getDayStartUTC(existing.lastLoggedDate),
+        timeZone: existing.lastTimeZone,
+    };
+    if (continuesStreak(last, entry)) {
+        return 0;
+    }
+
+    const missedDays: string[] = [];
+    for (let day = addDays(last.day, 1); day < entry.day; day = addDays(day, 1)) {
+        missedDays.push(day);
+    }
+
+    const user = await ctx.db.get(userId);
+    const freezes = user?.streakFreezes ?? 0;
+    if (missedDays.length > freezes) {
+        return 0;
+    }
+
+    for (const day of missedDays) {
+        await ctx.db.insert("streak_freezes", { userId, habitType: habitKey, day, clientId });
+    }
+    await ctx.db.patch(userId, { streakFreezes: freezes - missedDays.length });
+
+    return missedDays.length;
+}
+
+/**
+ * Give back the streak freezes a log spent and forget the days they covered
+ * Call when the log is removed. The user never holds more than
+ * MAX_STREAK_FREEZES.
+ * @returns How many freezes were refunded
+ */
+export async function refundStreakFreezes(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    habitKey: string,
+    clientId: string
+): Promise<number> {
+    const freezes = await ctx.db
+        .query("streak_freezes")
+        .withIndex("by_userId_and_habitType_and_day", (q) =>
+            q.eq("userId", userId).eq("habitType", habitKey)
+        )
+        .collect();
+
+    const spent = freezes.filter((freeze) => freeze.clientId === clientId);
+    if (spent.length === 0) {
+        return 0;
+    }
+
+    for (const freeze of spent) {
+        await ctx.db.delete(freeze._id);
+    }
+    const user = await ctx.db.get(userId);
+    if (user) {
+        await ctx.db.patch(userId, {
+            streakFreezes: Math.min(MAX_STREAK_FREEZES, (user.streakFreezes ?? 0) + spent.length),
+        });
+    }
+
+    return spent.length;
+}
+
+/**
+ * Award a streak freeze when a streak reaches a multiple of
+ * STREAK_FREEZE_EVERY_DAYS, unless the user already holds the most
+ */
+async function earnStreakFreeze(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    currentStreak: number
+): Promise<void> {
+    if (currentStreak % STREAK_FREEZE_EVERY_DAYS !== 0) {
+        return;
+    }
+
+    const user = await ctx.db.get(userId);
+    const freezes = user?.streakFreezes ?? 0;
+    if (user && freezes < MAX_STREAK_FREEZES) {
+        await ctx.db.patch(userId, { streakFreezes: freezes + 1 });
+    }
+}
+
+/**
+ * Update the user's streak row for a habit after a log is recorded
+ * Logs can arrive out of order from offline devices, so an older log
+ * triggers a recount from the latest logged day. Rows are stored under the
+ * habit's key (see getHabitKey).
+ */
+export async function recordStreakDay(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    habitKey: string,
+    entry: DayLog,
+    streakAtLog: number
+): Promise<void> {
+    const existing = await ctx.db
+        .query("streaks")
+        .withIndex("by_userId_and_habitType", (q) =>
+            q.eq("userId", userId).eq("habitType", habitKey)
+        )
+        .first();
+
+    if (!existing) {
+        await ctx.db.insert("streaks", {
+            userId,
+            habitType: habitKey,
+            currentStreak: streakAtLog,
+            longestStreak: streakAtLog,
+            lastLoggedDate: entry.day,
+            lastLoggedAt: entry.loggedAt,
+            lastTimeZone: entry.timeZone,
+        });
+        return;
+    }
+
+    if (entry.day === existing.lastLoggedDate) {
+        return;
+    }
+
+    if (entry.day > existing.lastLoggedDate) {
+        await ctx.db.patch(existing._id, {
+            currentStreak: streakAtLog,
+            longestStreak: Math.max(existing.longestStreak, streakAtLog),
+            lastLoggedDate: entry.day,
+            lastLoggedAt: entry.loggedAt,
+            lastTimeZone: entry.timeZone,
+        });
+        await earnStreakFreeze(ctx, userId, streakAtLog);
+        return;
+    }
+
+    // A backfilled day may have bridged a gap in the current run
+    const currentStreak = await calculateStreakDays(ctx, userId, habitKey, {
+        day: existing.lastLoggedDate,
+        loggedAt: existing.lastLoggedAt ?? getDayStartUTC(existing.lastLoggedDate),
+        timeZone: existing.lastTimeZone,
+    });
+
+    await ctx.db.patch(existing._id, {
+        currentStreak,
+        longestStreak: Math.max(existing.longestStreak, currentStreak, streakAtLog),
+    });
+}
+
+/**
+ * Get all of the signed-in user's habit streaks
+ */
+export const getStreaks = query({
+    args: {
+        sessionToken: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await getSessionUser(ctx, args.sessionToken);
+
+        if (!user) {
+            return [];
+        }
+
+        const streaks = await ctx.db
+            .query("streaks")
+            .withIndex("by_userId_and_habitType", (q) => q.eq("userId", user._id))
+            .collect();
+
+        return streaks.map((streak) => ({
+            habitType: streak.habitType,
+            currentStreak: streak.currentStreak,
+            longestStreak: streak.longestStreak,
+            lastLoggedDate: streak.lastLoggedDate,
+            lastLoggedAt: streak.lastLoggedAt,
+            lastTimeZone: streak.lastTimeZone,
+        }));
+    },
+});
@@ -1,14 +1,46 @@
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
-import { mutation } from "./_generated/server";
+import { mutation, query } from "./_generated/server";
+import { getCustomHabit, POINTS_TIERS } from "./customHabits";
+import { addPeriodPoints } from "./periods";
+import { ALL_TIME_SCOPE, recordPointsChange } from "./ranks";
+import { requireSessionUser } from "./sessions";
+import {
+    applyStreakFreezes,
+    calculateStreakDays,
+    DayLog,
+    getDayStartUTC,
+    getDayString,
+    getHabitKey,
+    getLogDay,
+    isValidTimeZone,
+    recordStreakDay,
+    refundStreakFreezes,
+} from "./streaks";
+import { addTeamPoints, getMembership } from "./teams";
 
 // Point calculation constants
 const BASE_POINTS_MIN = 5;
 const BASE_POINTS_MAX = 20;
 const DAILY_CAP_PER_CATEGORY = 50;
+// Shared by all of a user's custom habits, so defining more of them doesn't
+// raise what a day can earn; must match CUSTOM_HABITS_DAILY_CAP in
+// services/custom-habit-service.ts
+const CUSTOM_HABITS_DAILY_CAP = 100;
 const STREAK_BONUS_3_DAYS = 5;
 const STREAK_BONUS_7_DAYS = 10;
 const STREAK_BONUS_14_DAYS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+// How long after a log's time it can still be recorded, so users can
+// backfill a forgotten day; must match BACKFILL_WINDOW_HOURS in
+// services/habit-service.ts
+const BACKFILL_WINDOW_MS = 48 * 60 * 60 * 1000;
+// How far behind the server's clock a device's recording time is trusted,
+// so logs queued offline can still sync late
+const LATE_SYNC_GRACE_MS = 24 * 60 * 60 * 1000;
+const PULL_PAGE_SIZE = 200;
+const MAX_BATCH_SIZE = 50; // must match SyncService.MAX_BATCH_SIZE
 
 // Habit types
 const VALID_HABIT_TYPES = [
@@ -21,13 +53,35 @@ const VALID_HABIT_TYPES = [
     "custom",
 ];
 
+// Points for logs that record a quantity, replacing the random base points;
+// must match QUANTITY_FORMULAS in services/habit-service.ts
+const QUANTITY_FORMULAS: Record<
+    string,
+    { unit: string; pointsPerUnit: number; maxQuantity: number }
+> = {
+    recycle: { unit: "items", pointsPerUnit: 2, maxQuantity: 100 },
+    bike: { unit: "km", pointsPerUnit: 3, maxQuantity: 300 },
+    meatless: { unit: "meals", pointsPerUnit: 10, maxQuantity: 5 },
+    reusable: { unit: "items", pointsPerUnit: 3, maxQuantity: 50 },
+    compost: { unit: "kg", pointsPerUnit: 8, maxQuantity: 50 },
+    water: { unit: "L", pointsPerUnit: 0.5, maxQuantity: 1000 },
+};
+
 interface SyncItem {
     id: string;
     type: "habit";
     payload: {
         habitType: string;
-        pointsAwarded: number;
+        customHabitId?: string; // required when habitType is "custom"
+        quantity?: number; // amount done, e.g. km biked
+        unit?: string; // must match the habit's formula
+        pointsAwarded: number; // client estimate, never trusted
         loggedAt: number;
+        basePoints?: number;
+        streakBonus?: number;
+        currentStreak?: number;
+        timeZone?: string; // IANA zone the device was in when logging
+        day?: string;
     };
     createdAt: number;
 }
@@ -38,7 +92,66 @@ interface SyncItemResult {
     serverId?: Id<"habit_logs">;
     message?: string;
     retryAfter?: number;
+    retryable?: boolean; // errors only: true if resending later may succeed
     serverData?: any;
+    // Server-validated award (accepted items only)
+    pointsAwarded?: number;
+    basePoints?: number;
+    streakBonus?: number;
+    currentStreak?: number;
+}
+
+/**
+ * Deterministic base points for a log, seeded from its client id
+ * Uses 32-bit FNV-1a; must match HabitService.calculateBasePoints so the
+ * client's optimistic award agrees with the server's.
+ */
+function calculateBasePoints(
+    clientId: string,
+    min: number = BASE_POINTS_MIN,
+    max: number = BASE_POINTS_MAX
+): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < clientId.length; i++) {
+        hash ^= clientId.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+
+    const range = max - min + 1;
+    return min + ((hash >>> 0) % range);
+}
+
+/**
+ * Base points for a log that records a quantity, at least 1
+ */
+function calculateQuantityPoints(pointsPerUnit: number, quantity: number): number {
+    return Math.max(1, Math.round(quantity * pointsPerUnit));
+}
+
+/**
+ * Check a log's quantity against its habit's formula
+ * @returns An error message, or null if the quantity is usable
+ */
+function validateQuantity(
+    habitType: string,
+    quantity: number | undefined,
+    unit: string | undefined
+): string | null {
+    if (quantity === undefined) {
+        return unit === undefined ? null : "Unit given without a quantity";
+    }
+
+    const formula = QUANTITY_FORMULAS[habitType];
+    if (!formula) {
+        return `Quantities aren't tracked for ${habitType}`;
+    }
+    if (unit !== formula.unit) {
+        return `Invalid unit for ${habitType}: expected ${formula.unit}`;
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0 || quantity > formula.maxQuantity) {
+        return `Quantity for ${habitType} must be more than 0 and at most ${formula.maxQuantity} ${formula.unit}`;
+    }
+    return null;
 }
 
 /**
@@ -52,25 +165,41 @@ function calculateStreakBonus(streakDays: number): number {
 }
 
 /**
- * Get today's logs for a specific habit type and user
+ * Pick the zone a log is counted in: the one sent with it when valid,
+ * otherwise the user's last known zone
  */
-async function getTodayLogsForHabit(
-    ctx: any,
-    userId: Id<"users">,
-    habitType: string
-): Promise<number> {
-    const todayStart = new Date();
-    todayStart.setHours(0, 0, 0, 0);
-    const todayStartTimestamp = todayStart.getTime();
+function resolveTimeZone(
+    timeZone: string | undefined,
+    fallbackTimeZone: string
+): string {
+    if (timeZone && isValidTimeZone(timeZone)) {
+        return timeZone;
+    }
+    return isValidTimeZone(fallbackTimeZone) ? fallbackTimeZone : "UTC";
+}
+
+/**
+ * Get a user's logs for a given day
+ * Each log counts towards the day it was made on in its own time zone.
+ */
+async function getDayLogs(ctx: any, userId: Id<"users">, day: string): Promise<any[]> {
+    // Zones span UTC-12..UTC+14, so read a day either side and filter by day
+    const dayStart = getDayStartUTC(day);
 
     const logs = await ctx.db
         .query("habit_logs")
         .withIndex("by_userId_and_loggedAt", (q: any) =>
-            q.eq("userId", userId).gte("loggedAt", todayStartTimestamp)
+            q
+                .eq("userId", userId)
+                .gte("loggedAt", dayStart - DAY_MS)
+                .lt("loggedAt", dayStart + 2 * DAY_MS)
         )
-        .filter((q: any) => q.eq(q.field("habitType"), habitType))
         .collect();
 
+    return logs.filter((log: any) => getLogDay(log) === day);
+}
+
+function sumPoints(logs: any[]): number {
     return logs.reduce((sum: number, log: any) => sum + log.pointsAwarded, 0);
 }
 
@@ -80,9 +209,10 @@ async function getTodayLogsForHabit(
 async function processHabitLog(
     ctx: any,
     userId: Id<"users">,
-    item: SyncItem
+    item: SyncItem,
+    fallbackTimeZone: string
 ): Promise<SyncItemResult> {
-    const { habitType, pointsAwarded, loggedAt } = item.payload;
+    const { habitType, loggedAt, quantity, unit } = item.payload;
 
     // Validate habit type
     if (!VALID_HABIT_TYPES.includes(habitType)) {
@@ -93,12 +223,63 @@ async function processHabitLog(
         };
     }
 
+    // Custom habits must name one of the user's own definitions; it may
+    // still be on its way from the device, so the log can be retried
+    const customHabitId =
+        habitType === "custom" ? item.payload.customHabitId : undefined;
+    const customHabit = customHabitId
+        ? await getCustomHabit(ctx, userId, customHabitId)
+        : null;
+
+    if (habitType === "custom" && !customHabit) {
+        return {
+            id: item.id,
+            status: "error",
+            message: customHabitId
+                ? `Unknown custom habit: ${customHabitId}`
+                : "Custom habit logs need a customHabitId",
+            retryable: !!customHabitId,
+        };
+    }
+
+    // Archived habits can't be logged; logs made before the archive (which
+    // syncs ahead of them) still count
+    if (customHabit?.archived && loggedAt > customHabit.updatedAt) {
+        return {
+            id: item.id,
+            status: "error",
+            message: `Custom habit is archived: ${customHabit.name}`,
+        };
+    }
+
+    const quantityError = validateQuantity(habitType, quantity, unit);
+    if (quantityError) {
+        return {
+            id: item.id,
+            status: "error",
+            message: quantityError,
+        };
+    }
+
+    const habitKey = getHabitKey({ habitType, customHabitId });
+    const dailyCap = customHabit?.dailyCap ?? DAILY_CAP_PER_CATEGORY;
+
     // Check for duplicate (by clientId)
     const existingLog = await ctx.db
         .query("habit_logs")
         .withIndex("by_clientId", (q: any) => q.eq("clientId", item.id))
         .first();
 
+    // A client id another user's log already has is rejected without
+    // revealing anything about that log
+    if (existingLog && existingLog.userId !== userId) {
+        return {
+            id: item.id,
+            status: "error",
+            message: "Log id already in use",
+        };
+    }
+
     if (existingLog) {
         // Already synced - return conflict with server data
         return {
@@ -107,100 +288,194 @@ async function processHabitLog(
             serverId: existingLog._id,
             message: "Log already exists on server",
             serverData: {
+                serverId: existingLog._id,
                 habitType: existingLog.habitType,
+                customHabitId: existingLog.customHabitId,
+                quantity: existingLog.quantity,
+                unit: existingLog.unit,
                 pointsAwarded: existingLog.pointsAwarded,
                 loggedAt: existingLog.loggedAt,
+                timeZone: existingLog.timeZone,
+                day: getLogDay(existingLog),
             },
         };
     }
 
-    // Validate points are within range
-    if (pointsAwarded < BASE_POINTS_MIN || pointsAwarded > BASE_POINTS_MAX + STREAK_BONUS_14_DAYS) {
+    // Reject logs from the future (allowing a little clock skew)
+    if (loggedAt > Date.now() + CLOCK_SKEW_MS || item.createdAt > Date.now() + CLOCK_SKEW_MS) {
+        return {
+            id: item.id,
+            status: "error",
+            message: "Invalid log time: in the future",
+        };
+    }
+
+    // Backfills are stamped with a past time but recorded now, and had to be
+    // recorded within the window. The recording time comes from the device,
+    // so a forged one can reach back at most LATE_SYNC_GRACE_MS further.
+    const recordedAt = Math.max(item.createdAt, Date.now() - LATE_SYNC_GRACE_MS);
+    if (recordedAt - loggedAt > BACKFILL_WINDOW_MS) {
         return {
             id: item.id,
             status: "error",
-            message: `Invalid points awarded: ${pointsAwarded}`,
+            message: `Invalid log time: more than ${BACKFILL_WINDOW_MS / (60 * 60 * 1000)} hours before it was recorded`,
         };
     }
 
-    // Check daily cap for this habit category
-    const todayPoints = await getTodayLogsForHabit(ctx, userId, habitType);
+    // The log's day is fixed by the zone it was made in, so later travel
+    // never moves it
+    const timeZone = resolveTimeZone(item.payload.timeZone, fallbackTimeZone);
+    const entry: DayLog = {
+        day: getDayString(loggedAt, timeZone),
+        loggedAt,
+        timeZone,
+    };
 
-    if (todayPoints >= DAILY_CAP_PER_CATEGORY) {
+    // Check the daily cap for this habit on the log's own day, which for a
+    // backfill is a past day
+    const dayLogs = await getDayLogs(ctx, userId, entry.day);
+    const pointsLeft =
+        dailyCap - sumPoints(dayLogs.filter((log) => getHabitKey(log) === habitKey));
+
+    if (pointsLeft <= 0) {
         return {
             id: item.id,
             status: "error",
-            message: `Daily cap reached for ${habitType} (${DAILY_CAP_PER_CATEGORY} points)`,
+            message: `Daily cap reached for ${customHabit?.name ?? habitType} on ${entry.day} (${dailyCap} points)`,
         };
     }
 
-    // Calculate validated points (may differ from client)
-    let validatedPoints = pointsAwarded;
+    // Custom habits also share one cap between them
+    const customPointsLeft = customHabit
+        ? CUSTOM_HABITS_DAILY_CAP -
+          sumPoints(dayLogs.filter((log) => log.habitType === "custom"))
+        : Infinity;
 
-    // If adding this would exceed cap, adjust points
-    if (todayPoints + pointsAwarded > DAILY_CAP_PER_CATEGORY) {
-        validatedPoints = DAILY_CAP_PER_CATEGORY - todayPoints;
+    if (customPointsLeft <= 0) {
+        return {
+            id: item.id,
+            status: "error",
+            message: `Daily cap reached for custom habits on ${entry.day} (${CUSTOM_HABITS_DAILY_CAP} points)`,
+        };
     }
 
+    // Compute points server-side; the client's pointsAwarded is ignored
+    const tier = customHabit ? POINTS_TIERS[customHabit.pointsTier] : null;
+    let basePoints: number;
+    if (quantity !== undefined) {
+        basePoints = calculateQuantityPoints(
+            QUANTITY_FORMULAS[habitType].pointsPerUnit,
+            quantity
+        );
+    } else if (tier) {
+        basePoints = calculateBasePoints(item.id, tier.min, tier.max);
+    } else {
+        basePoints = calculateBasePoints(item.id);
+    }
+    // A freeze covers each missed day before the streak is counted
+    await applyStreakFreezes(ctx, userId, habitKey, entry, item.id);
+    const currentStreak = await calculateStreakDays(ctx, userId, habitKey, entry);
+    const streakBonus = calculateStreakBonus(currentStreak);
+    const pointsAwarded = basePoints + streakBonus;
+
+    // If adding this would exceed a cap, adjust points
+    const validatedPoints = Math.min(pointsAwarded, pointsLeft, customPointsLeft);
+
+    // Credit the user's current team; the log remembers which team it was
+    const membership = await getMembership(ctx, userId);
+
     // Insert the habit log
     const logId = await ctx.db.insert("habit_logs", {
         userId,
         habitType,
+        customHabitId,
+        quantity,
+        unit,
         pointsAwarded: validatedPoints,
         clientId: item.id,
         loggedAt,
         validated: true,
+        timeZone,
+        day: entry.day,
+        teamId: membership?.teamId,
     });
 
+    // Keep the server-side streak in step with this log
+    await recordStreakDay(ctx, userId, habitKey, entry, currentStreak);
+
     // Update user's total ecoPoints
     const user = await ctx.db.get(userId);
     if (user) {
+        const ecoPoints = user.ecoPoints + validatedPoints;
         await ctx.db.patch(userId, {
-            ecoPoints: user.ecoPoints + validatedPoints,
+            ecoPoints,
             lastActive: Date.now(),
         });
+        await recordPointsChange(ctx, ALL_TIME_SCOPE, user.ecoPoints, ecoPoints);
+    }
+
+    // Day, week and month totals for period leaderboards
+    await addPeriodPoints(ctx, userId, entry.day, validatedPoints);
+
+    if (membership) {
+        await addTeamPoints(ctx, membership.teamId, userId, entry.day, validatedPoints);
     }
 
     return {
         id: item.id,
         status: "accepted",
         serverId: logId,
+        pointsAwarded: validatedPoints,
+        basePoints,
+        streakBonus,
+        currentStreak,
     };
 }
 
+const syncItemValidator = v.object({
+    id: v.string(),
+    type: v.literal("habit"),
+    payload: v.object({
+        habitType: v.string(),
+        customHabitId: v.optional(v.string()),
+        quantity: v.optional(v.number()),
+        unit: v.optional(v.string()),
+        pointsAwarded: v.number(),
+        loggedAt: v.number(),
+        basePoints: v.optional(v.number()),
+        streakBonus: v.optional(v.number()),
+        currentStreak: v.optional(v.number()),
+        timeZone: v.optional(v.string()),
+        day: v.optional(v.string()), // client's view; recomputed here
+    }),
+    createdAt: v.number(),
+});
+
 /**
  * Sync batch of items from client
- * Processes up to 50 items per batch
+ * Accepts at most 50 items; larger batches are rejected outright so the
+ * client never believes items were uploaded when they were not
  */
 export const syncBatch = mutation({
     args: {
-        userId: v.id("users"),
-        items: v.array(
-            v.object({
-                id: v.string(),
-                type: v.literal("habit"),
-                payload: v.object({
-                    habitType: v.string(),
-                    pointsAwarded: v.number(),
-                    loggedAt: v.number(),
-                }),
-                createdAt: v.number(),
-            })
-        ),
+        sessionToken: v.string(),
+        items: v.array(syncItemValidator),
     },
     handler: async (ctx, args): Promise<{ results: SyncItemResult[] }> => {
-        // Validate user exists
-        const user = await ctx.db.get(args.userId);
-        if (!user) {
-            throw new Error("User not found");
+        // Resolve the caller from their session
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        if (args.items.length > MAX_BATCH_SIZE) {
+            throw new Error(
+                `Batch too large: ${args.items.length} items (max ${MAX_BATCH_SIZE})`
+            );
         }
 
-        // Limit batch size to 50 items
-        const itemsToProcess = args.items.slice(0, 50);
+        const itemsToProcess = args.items;
 
         // Create sync batch record
         const batchId = await ctx.db.insert("sync_batches", {
-            userId: args.userId,
+            userId: user._id,
             itemCount: itemsToProcess.length,
             status: "processing",
         });
@@ -211,7 +486,12 @@ export const syncBatch = mutation({
         for (const item of itemsToProcess) {
             try {
                 if (item.type === "habit") {
-                    const result = await processHabitLog(ctx, args.userId, item);
+                    const result = await processHabitLog(
+                        ctx,
+                        user._id,
+                        item,
+                        user.timeZone ?? "UTC"
+                    );
                     results.push(result);
                 } else {
                     results.push({
@@ -221,14 +501,25 @@ export const syncBatch = mutation({
                     });
                 }
             } catch (error) {
+                // Unexpected failures are transient as far as the client knows
                 results.push({
                     id: item.id,
                     status: "error",
                     message: error instanceof Error ? error.message : "Unknown error",
+                    retryable: true,
                 });
             }
         }
 
+        // Remember the zone the user is syncing from for logs that omit one
+        const latestTimeZone = itemsToProcess
+            .map((item) => item.payload.timeZone)
+            .filter((tz): tz is string => !!tz && isValidTimeZone(tz))
+            .pop();
+        if (latestTimeZone && latestTimeZone !== user.timeZone) {
+            await ctx.db.patch(user._id, { timeZone: latestTimeZone });
+        }
+
         // Update batch status
         const hasErrors = results.some((r) => r.status === "error");
         await ctx.db.patch(batchId, {
@@ -238,3 +529,126 @@ export const syncBatch = mutation({
         return { results };
     },
 });
+
+/**
+ * Replace the server's copy of a log with the client's version
+ * Used when the user resolves a conflict with "keep local". The old log is
+ * removed and the client's version is validated and scored as if it were
+ * new, so caps and streaks stay consistent. Creates the log if the server
+ * has no copy. Any validation failure rolls the whole overwrite back.
+ */
+export const overwriteHabitLog = mutation({
+    args: {
+        sessionToken: v.string(),
+        item: syncItemValidator,
+    },
+    handler: async (ctx, args): Promise<SyncItemResult> => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const existingLog = await ctx.db
+            .query("habit_logs")
+            .withIndex("by_clientId", (q) => q.eq("clientId", args.item.id))
+            .first();
+
+        if (existingLog) {
+            if (existingLog.userId !== user._id) {
+                throw new Error("Unauthorized: log belongs to another user");
+            }
+
+            // Freezes the old log spent carry over to a replacement on the
+            // same day; moved to another day, they are refunded
+            const replacementDay = getDayString(
+                args.item.payload.loggedAt,
+                resolveTimeZone(args.item.payload.timeZone, user.timeZone ?? "UTC")
+            );
+            if (replacementDay !== getLogDay(existingLog)) {
+                await refundStreakFreezes(
+                    ctx,
+                    user._id,
+                    getHabitKey(existingLog),
+                    existingLog.clientId
+                );
+            }
+
+            // Take back the old award before scoring the replacement
+            const ecoPoints = Math.max(0, user.ecoPoints - existingLog.pointsAwarded);
+            await ctx.db.delete(existingLog._id);
+            await ctx.db.patch(user._id, { ecoPoints });
+            await recordPointsChange(ctx, ALL_TIME_SCOPE, user.ecoPoints, ecoPoints);
+            await addPeriodPoints(
+                ctx,
+                user._id,
+                getLogDay(existingLog),
+                -existingLog.pointsAwarded
+            );
+            if (existingLog.teamId) {
+                await addTeamPoints(
+                    ctx,
+                    existingLog.teamId,
+                    user._id,
+                    getLogDay(existingLog),
+                    -existingLog.pointsAwarded
+                );
+            }
+        }
+
+        const result = await processHabitLog(
+            ctx,
+            user._id,
+            args.item,
+            user.timeZone ?? "UTC"
+        );
+
+        if (result.status !== "accepted") {
+            throw new Error(result.message ?? "Could not overwrite log");
+        }
+
+        return result;
+    },
+});
+
+/**
+ * Get the user's habit logs written after a cursor, oldest first
+ * Lets a device download history logged elsewhere. The cursor is the
+ * `_creationTime` of the last log the device has seen; pass 0 to start over.
+ */
+export const getChangesSince = query({
+    args: {
+        sessionToken: v.string(),
+        cursor: v.number(),
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const limit = Math.min(Math.max(1, args.limit ?? PULL_PAGE_SIZE), PULL_PAGE_SIZE);
+
+        const logs = await ctx.db
+            .query("habit_logs")
+            .withIndex("by_userId", (q) =>
+                q.eq("userId", user._id).gt("_creationTime", args.cursor)
+            )
+            .take(limit + 1);
+
+        const page = logs.slice(0, limit);
+
+        return {
+            logs: page.map((log) => ({
+                serverId: log._id,
+                clientId: log.clientId,
+                habitType: log.habitType,
+                customHabitId: log.customHabitId,
+                quantity: log.quantity,
+                unit: log.unit,
+                pointsAwarded: log.pointsAwarded,
+                loggedAt: log.loggedAt,
+                timeZone: log.timeZone,
+                day: getLogDay(log),
+            })),
+            cursor: page.length > 0 ? page[page.length - 1]._creationTime : args.cursor,
+            hasMore: logs.length > limit,
+            totalPoints: user.ecoPoints,
+            streakFreezes: user.streakFreezes ?? 0,
+        };
+    },
+});
@@ -0,0 +1,544 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { toFriendProfile } from "./friends";
+import { generateInviteCode } from "./invites";
+import { clampLimit, MAX_RANKINGS_LIMIT } from "./leaderboard";
+import { getPeriodId, isValidPeriodId } from "./periods";
+import { getRankForPoints, recordPointsChange } from "./ranks";
+import { getSessionUser, requireSessionUser } from "./sessions";
+import { getDayString } from "./streaks";
+
+// Rank-count scope for team totals (users use "all" and period ids)
+export const TEAM_SCOPE = "teams";
+
+const MAX_TEAM_MEMBERS = 50;
+const TEAM_NAME_MIN_LENGTH = 2;
+const TEAM_NAME_MAX_LENGTH = 40;
+
+export type TeamRole = "owner" | "admin" | "member";
+
+// Display order of members in a team
+const ROLE_ORDER: Record<TeamRole, number> = { owner: 0, admin: 1, member: 2 };
+
+interface TeamRankingEntry {
+    teamId: Id<"teams">;
+    name: string;
+    totalPoints: number;
+    memberCount: number;
+    rank: number;
+}
+
+/**
+ * Get a user's team membership, or null if they are not in a team
+ */
+export async function getMembership(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">
+): Promise<Doc<"team_members"> | null> {
+    return await ctx.db
+        .query("team_members")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .unique();
+}
+
+/**
+ * Resolve the ISO week to report on
+ * Clients pass the week id from their own calendar; without one the
+ * current UTC week is used.
+ */
+function resolveWeekId(weekId?: string): string {
+    if (weekId !== undefined) {
+        if (!isValidPeriodId("week", weekId)) {
+            throw new Error(`Invalid week id: ${weekId}`);
+        }
+        return weekId;
+    }
+
+    return getPeriodId("week", getDayString(Date.now()));
+}
+
+function validateTeamName(name: string): string {
+    const trimmed = name.trim();
+    if (trimmed.length < TEAM_NAME_MIN_LENGTH || trimmed.length > TEAM_NAME_MAX_LENGTH) {
+        throw new Error(
+            `Team name must be ${TEAM_NAME_MIN_LENGTH}-${TEAM_NAME_MAX_LENGTH} characters`
+        );
+    }
+    return trimmed;
+}
+
+async function generateTeamCode(ctx: MutationCtx): Promise<string> {
+    let code = generateInviteCode();
+    while (
+        await ctx.db
+            .query("teams")
+            .withIndex("by_inviteCode", (q) => q.eq("inviteCode", code))
+            .unique()
+    ) {
+        code = generateInviteCode();
+    }
+    return code;
+}
+
+/**
+ * Require the caller to be in a team with one of the given roles
+ */
+async function requireMembership(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    roles: TeamRole[] = ["owner", "admin", "member"]
+): Promise<Doc<"team_members">> {
+    const membership = await getMembership(ctx, userId);
+    if (!membership) {
+        throw new Error("You are not in a team");
+    }
+    if (!roles.includes(membership.role)) {
+        throw new Error("You don't have permission to do that");
+    }
+    return membership;
+}
+
+async function getContribution(
+    ctx: QueryCtx | MutationCtx,
+    teamId: Id<"teams">,
+    userId: Id<"users">,
+    weekId: string
+) {
+    return await ctx.db
+        .query("team_contributions")
+        .withIndex("by_teamId_and_userId_and_weekId", (q) =>
+            q.eq("teamId", teamId).eq("userId", userId).eq("weekId", weekId)
+        )
+        .unique();
+}
+
+async function getTeamWeekPoints(
+    ctx: QueryCtx,
+    teamId: Id<"teams">,
+    weekId: string
+): Promise<number> {
+    const rows = await ctx.db
+        .query("team_contributions")
+        .withIndex("by_teamId_and_weekId", (q) =>
+            q.eq("teamId", teamId).eq("weekId", weekId)
+        )
+        .collect();
+
+    return rows.reduce((total, row) => total + row.points, 0);
+}
+
+/**
+ * Add (or with a negative delta, take back) a member's points for a log
+ * Call it in the same mutation that writes the log, with the team the log
+ * was credited to (habit_logs.teamId), even if the user has since left.
+ */
+export async function addTeamPoints(
+    ctx: MutationCtx,
+    teamId: Id<"teams">,
+    userId: Id<"users">,
+    day: string,
+    delta: number
+): Promise<void> {
+    if (delta === 0) return;
+
+    const team = await ctx.db.get(teamId);
+    if (!team) return;
+
+    const totalPoints = Math.max(0, team.totalPoints + delta);
+    await ctx.db.patch(teamId, { totalPoints });
+    await recordPointsChange(ctx, TEAM_SCOPE, team.totalPoints, totalPoints);
+
+    const weekId = getPeriodId("week", day);
+    const row = await getContribution(ctx, teamId, userId, weekId);
+    if (row) {
+        await ctx.db.patch(row._id, { points: Math.max(0, row.points + delta) });
+    } else if (delta > 0) {
+        await ctx.db.insert("team_contributions", {
+            teamId,
+            userId,
+            weekId,
+            points: delta,
+        });
+    }
+}
+
+/**
+ * Delete a team with its members and contributions
+ */
+async function deleteTeam(ctx: MutationCtx, team: Doc<"teams">): Promise<void> {
+    const members = await ctx.db
+        .query("team_members")
+        .withIndex("by_teamId", (q) => q.eq("teamId", team._id))
+        .collect();
+    for (const member of members) {
+        await ctx.db.delete(member._id);
+    }
+
+    const contributions = await ctx.db
+        .query("team_contributions")
+        .withIndex("by_teamId_and_userId_and_weekId", (q) => q.eq("teamId", team._id))
+        .collect();
+    for (const contribution of contributions) {
+        await ctx.db.delete(contribution._id);
+    }
+
+    await ctx.db.delete(team._id);
+    await recordPointsChange(ctx, TEAM_SCOPE, team.totalPoints, null);
+}
+
+/**
+ * Take a user out of their team
+ * An owner hands the team to the longest-standing admin, or failing that
+ * the longest-standing member; the last member leaving deletes the team.
+ */
+async function leaveTeamAs(
+    ctx: MutationCtx,
+    membership: Doc<"team_members">
+): Promise<void> {
+    const team = await ctx.db.get(membership.teamId);
+    await ctx.db.delete(membership._id);
+    if (!team) return;
+
+    const remaining = await ctx.db
+        .query("team_members")
+        .withIndex("by_teamId", (q) => q.eq("teamId", team._id))
+        .collect();
+
+    if (remaining.length === 0) {
+        await deleteTeam(ctx, team);
+        return;
+    }
+
+    await ctx.db.patch(team._id, { memberCount: remaining.length });
+
+    if (membership.role === "owner") {
+        const successor = [...remaining].sort(
+            (a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role] || a.joinedAt - b.joinedAt
+        )[0];
+        await ctx.db.patch(successor._id, { role: "owner" });
+        await ctx.db.patch(team._id, { ownerId: successor.userId });
+    }
+}
+
+/**
+ * Remove a user from their team and delete their contributions
+ * (account deletion). Team totals keep the points.
+ */
+export async function deleteTeamData(
+    ctx: MutationCtx,
+    userId: Id<"users">
+): Promise<void> {
+    const membership = await getMembership(ctx, userId);
+    if (membership) {
+        await leaveTeamAs(ctx, membership);
+    }
+
+    const contributions = await ctx.db
+        .query("team_contributions")
+        .withIndex("by_userId", (q) => q.eq("userId", userId))
+        .collect();
+    for (const contribution of contributions) {
+        await ctx.db.delete(contribution._id);
+    }
+}
+
+/**
+ * Create a team with the caller as owner
+ */
+export const createTeam = mutation({
+    args: {
+        sessionToken: v.string(),
+        name: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const name = validateTeamName(args.name);
+
+        if (await getMembership(ctx, user._id)) {
+            throw new Error("Leave your current team first");
+        }
+
+        const inviteCode = await generateTeamCode(ctx);
+        const teamId = await ctx.db.insert("teams", {
+            name,
+            inviteCode,
+            ownerId: user._id,
+            totalPoints: 0,
+            memberCount: 1,
+        });
+        await ctx.db.insert("team_members", {
+            teamId,
+            userId: user._id,
+            role: "owner",
+            joinedAt: Date.now(),
+        });
+        await recordPointsChange(ctx, TEAM_SCOPE, null, 0);
+
+        return { teamId, inviteCode };
+    },
+});
+
+/**
+ * Join a team by its invite code
+ */
+export const joinTeam = mutation({
+    args: {
+        sessionToken: v.string(),
+        inviteCode: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+
+        const team = await ctx.db
+            .query("teams")
+            .withIndex("by_inviteCode", (q) =>
+                q.eq("inviteCode", args.inviteCode.trim().toUpperCase())
+            )
+            .unique();
+        if (!team) {
+            throw new Error("Team not found. Check the code and try again.");
+        }
+
+        const membership = await getMembership(ctx, user._id);
+        if (membership?.teamId === team._id) {
+            return { teamId: team._id, name: team.name };
+        }
+        if (membership) {
+            throw new Error("Leave your current team first");
+        }
+        if (team.memberCount >= MAX_TEAM_MEMBERS) {
+            throw new Error(`Teams can have at most ${MAX_TEAM_MEMBERS} members`);
+        }
+
+        await ctx.db.insert("team_members", {
+            teamId: team._id,
+            userId: user._id,
+            role: "member",
+            joinedAt: Date.now(),
+        });
+        await ctx.db.patch(team._id, { memberCount: team.memberCount + 1 });
+
+        return { teamId: team._id, name: team.name };
+    },
+});
+
+/**
+ * Leave the caller's team
+ */
+export const leaveTeam = mutation({
+    args: {
+        sessionToken: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const membership = await requireMembership(ctx, user._id);
+
+        await leaveTeamAs(ctx, membership);
+    },
+});
+
+/**
+ * Remove a member from the caller's team
+ * Owners can remove anyone; admins can remove members only.
+ */
+export const removeTeamMember = mutation({
+    args: {
+        sessionToken: v.string(),
+        userId: v.id("users"),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const membership = await requireMembership(ctx, user._id, ["owner", "admin"]);
+
+        if (args.userId === user._id) {
+            throw new Error("Use leave team to remove yourself");
+        }
+
+        const target = await getMembership(ctx, args.userId);
+        if (!target || target.teamId !== membership.teamId) {
+            throw new Error("Member not found");
+        }
+        if (membership.role === "admin" && target.role !== "member") {
+            throw new Error("Only the owner can remove admins");
+        }
+
+        await leaveTeamAs(ctx, target);
+    },
+});
+
+/**
+ * Make a member an admin or back (owner only)
+ */
+export const setTeamMemberRole = mutation({
+    args: {
+        sessionToken: v.string(),
+        userId: v.id("users"),
+        role: v.union(v.literal("admin"), v.literal("member")),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const membership = await requireMembership(ctx, user._id, ["owner"]);
+
+        const target = await getMembership(ctx, args.userId);
+        if (!target || target.teamId !== membership.teamId || target.role === "owner") {
+            throw new Error("Member not found");
+        }
+
+        await ctx.db.patch(target._id, { role: args.role });
+    },
+});
+
+/**
+ * Rename the caller's team (owner or admin)
+ */
+export const renameTeam = mutation({
+    args: {
+        sessionToken: v.string(),
+        name: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const membership = await requireMembership(ctx, user._id, ["owner", "admin"]);
+
+        await ctx.db.patch(membership.teamId, { name: validateTeamName(args.name) });
+    },
+});
+
+/**
+ * Replace the team's invite code so the old one stops working
+ * (owner or admin)
+ */
+export const regenerateTeamInviteCode = mutation({
+    args: {
+        sessionToken: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const membership = await requireMembership(ctx, user._id, ["owner", "admin"]);
+
+        const inviteCode = await generateTeamCode(ctx);
+        await ctx.db.patch(membership.teamId, { inviteCode });
+
+        return { inviteCode };
+    },
+});
+
+/**
+ * Get the caller's team with its members and this week's points
+ * Returns null when the caller is not in a team.
+ */
+export const getMyTeam = query({
+    args: {
+        sessionToken: v.string(),
+        weekId: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const user = await requireSessionUser(ctx, args.sessionToken);
+        const weekId = resolveWeekId(args.weekId);
+
+        const membership = await getMembership(ctx, user._id);
+        const team = membership ? await ctx.db.get(membership.teamId) : null;
+        if (!membership || !team) {
+            return null;
+        }
+
+        const memberships = await ctx.db
+            .query("team_members")
+            .withIndex("by_teamId", (q) => q.eq("teamId", team._id))
+            .collect();
+
+        const members = [];
+        for (const member of memberships) {
+            const memberUser = await ctx.db.get(member.userId);
+            if (!memberUser) continue;
+
+            const contribution = await getContribution(ctx, team._id, member.userId, weekId);
+            members.push({
+                ...toFriendProfile(memberUser),
+                role: member.role,
+                weekPoints: contribution?.points ?? 0,
+            });
+        }
+        members.sort(
+            (a, b) => ROLE_ORDER[a.role] - ROLE_ORDER[b.role] || b.weekPoints - a.weekPoints
+        );
+
+        return {
+            teamId: team._id,
+            name: team.name,
+            inviteCode: team.inviteCode,
+            totalPoints: team.totalPoints,
+            rank: await getRankForPoints(ctx, TEAM_SCOPE, team.totalPoints),
+            weekPoints: await getTeamWeekPoints(ctx, team._id, weekId),
+            role: membership.role,
+            members,
+        };
+    },
+});
+
+/**
+ * Get what the caller added to their team this week
+ * Returns null when signed out or not in a team.
+ */
+export const getMyTeamContribution = query({
+    args: {
+        sessionToken: v.string(),
+        weekId: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const user = await getSessionUser(ctx, args.sessionToken);
+        if (!user) {
+            return null;
+        }
+
+        const weekId = resolveWeekId(args.weekId);
+        const membership = await getMembership(ctx, user._id);
+        const team = membership ? await ctx.db.get(membership.teamId) : null;
+        if (!team) {
+            return null;
+        }
+
+        const contribution = await getContribution(ctx, team._id, user._id, weekId);
+        return {
+            teamId: team._id,
+            teamName: team.name,
+            weekId,
+            points: contribution?.points ?? 0,
+            teamPoints: await getTeamWeekPoints(ctx, team._id, weekId),
+        };
+    },
+});
+
+/**
+ * Get the top teams by total points
+ */
+export const getTeamRankings = query({
+    args: {
+        limit: v.optional(v.number()),
+    },
+    handler: async (ctx, args): Promise<TeamRankingEntry[]> => {
+        const teams = await ctx.db
+            .query("teams")
+            .withIndex("by_totalPoints")
+            .order("desc")
+            .take(clampLimit(args.limit, MAX_RANKINGS_LIMIT, MAX_RANKINGS_LIMIT));
+
+        const entries: TeamRankingEntry[] = [];
+        for (const [index, team] of teams.entries()) {
+            const previous = entries[index - 1];
+            entries.push({
+                teamId: team._id,
+                name: team.name,
+                totalPoints: team.totalPoints,
+                memberCount: team.memberCount,
+                // Ties share a rank
+                rank:
+                    previous && previous.totalPoints === team.totalPoints
+                        ? previous.rank
+                        : index + 1,
+            });
+        }
+        return entries;
+    },
+});
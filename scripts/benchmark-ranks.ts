@@ -0,0 +1,117 @@
+/**
+ * Rank query benchmark for EcoNest
+ * Seeds a Convex dev deployment with 10k and then 100k users, times the
+ * public rank queries for a mid-table user at each size, then removes the
+ * seeded users.
+ *
+ * Usage:
+ *   npx convex env set ALLOW_BENCHMARK_SEEDING true
+ *   EXPO_PUBLIC_CONVEX_URL=<dev deployment url> npm run benchmark:ranks
+ *
+ * Never point this at production: it writes and deletes users.
+ */
+
+import { execFileSync } from 'child_process';
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '../convex/_generated/api';
+
+const SIZES = [10_000, 100_000];
+const SEED = 42;
+const SEED_BATCH_SIZE = 1000;
+const RUNS_PER_QUERY = 20;
+
+/**
+ * Run a Convex function (internal ones included) through the CLI
+ */
+function convexRun<T>(functionName: string, args: object): T {
+    const output = execFileSync(
+        'npx',
+        ['convex', 'run', functionName, JSON.stringify(args)],
+        { encoding: 'utf8' }
+    );
+    return JSON.parse(output) as T;
+}
+
+function percentile(sorted: number[], p: number): number {
+    const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+}
+
+/**
+ * Time a query RUNS_PER_QUERY times after one warm-up call
+ */
+async function timeQuery(name: string, run: () => Promise<unknown>): Promise<void> {
+    await run();
+
+    const durations: number[] = [];
+    for (let i = 0; i < RUNS_PER_QUERY; i++) {
+        const start = performance.now();
+        await run();
+        durations.push(performance.now() - start);
+    }
+
+    durations.sort((a, b) => a - b);
+    console.log(
+        `   ${name.padEnd(32)} p50 ${percentile(durations, 50).toFixed(1)}ms  ` +
+        `p95 ${percentile(durations, 95).toFixed(1)}ms`
+    );
+}
+
+async function runRankBenchmark() {
+    const convexUrl = process.env.EXPO_PUBLIC_CONVEX_URL;
+    if (!convexUrl) {
+        throw new Error('Set EXPO_PUBLIC_CONVEX_URL to a dev deployment');
+    }
+
+    const client = new ConvexHttpClient(convexUrl);
+    let seeded = 0;
+
+    try {
+        for (const size of SIZES) {
+            console.log(`\n🌱 Seeding up to ${size.toLocaleString()} users...`);
+            while (seeded < size) {
+                const count = Math.min(SEED_BATCH_SIZE, size - seeded);
+                convexRun('benchmark:seedUsers', { startIndex: seeded, count, seed: SEED });
+                seeded += count;
+            }
+
+            const { sessionToken, ecoPoints } = convexRun<{
+                sessionToken: string;
+                ecoPoints: number;
+            }>('benchmark:createProbeSession', { index: Math.floor(size / 2) });
+
+            console.log(`⏱️  ${size.toLocaleString()} users (probe user has ${ecoPoints} points)`);
+            await timeQuery('getUserRank', () =>
+                client.query(api.leaderboard.getUserRank, { sessionToken })
+            );
+            await timeQuery('getClosestCompetitors', () =>
+                client.query(api.leaderboard.getClosestCompetitors, { sessionToken })
+            );
+            await timeQuery('getLeaderboardWithUserPosition', () =>
+                client.query(api.leaderboard.getLeaderboardWithUserPosition, {
+                    sessionToken,
+                })
+            );
+        }
+    } finally {
+        console.log('\n🧹 Removing seeded users...');
+        let isDone = false;
+        while (!isDone) {
+            ({ isDone } = convexRun<{ isDone: boolean }>('benchmark:clearUsers', {}));
+        }
+    }
+
+    console.log('\n✅ Rank benchmark completed!\n');
+}
+
+// Run benchmark if executed directly
+if (require.main === module) {
+    runRankBenchmark()
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
+
+export { runRankBenchmark };
@@ -0,0 +1,150 @@
+/**
+ * In-memory stand-in for a Convex database, for running query and
+ * mutation handlers from test scripts
+ * Index ranges are applied as plain field filters and results come back in
+ * index order, using the index definitions in convex/schema.ts.
+ */
+
+import schema from '../convex/schema';
+
+type Doc = { _id: string; _creationTime: number; [field: string]: any };
+type Condition = { field: string; op: 'eq' | 'gt' | 'gte' | 'lt' | 'lte'; value: any };
+
+export class FakeConvexDb {
+    private tables = new Map<string, Map<string, Doc>>();
+    private nextId = 1;
+    private clock = 1;
+
+    // Tables each operation touched, for checking what a handler did
+    readTables = new Set<string>();
+    deletedFrom = new Set<string>();
+
+    private table(name: string): Map<string, Doc> {
+        if (!this.tables.has(name)) {
+            this.tables.set(name, new Map());
+        }
+        return this.tables.get(name)!;
+    }
+
+    private tableOf(id: string): string {
+        return id.split(':')[0];
+    }
+
+    rows(table: string): Doc[] {
+        return [...this.table(table).values()];
+    }
+
+    async insert(table: string, value: Record<string, any>): Promise<string> {
+        const id = `${table}:${this.nextId++}`;
+        this.table(table).set(id, { ...value, _id: id, _creationTime: this.clock++ });
+        return id;
+    }
+
+    async get(id: string): Promise<Doc | null> {
+        this.readTables.add(this.tableOf(id));
+        return this.table(this.tableOf(id)).get(id) ?? null;
+    }
+
+    async patch(id: string, value: Record<string, any>): Promise<void> {
+        const doc = this.table(this.tableOf(id)).get(id);
+        if (!doc) throw new Error(`Patch of missing document ${id}`);
+        Object.assign(doc, value);
+    }
+
+    async replace(id: string, value: Record<string, any>): Promise<void> {
+        const doc = this.table(this.tableOf(id)).get(id);
+        if (!doc) throw new Error(`Replace of missing document ${id}`);
+        this.table(this.tableOf(id)).set(id, {
+            ...value,
+            _id: id,
+            _creationTime: doc._creationTime,
+        });
+    }
+
+    async delete(id: string): Promise<void> {
+        this.deletedFrom.add(this.tableOf(id));
+        this.table(this.tableOf(id)).delete(id);
+    }
+
+    query(table: string) {
+        this.readTables.add(table);
+        const conditions: Condition[] = [];
+        let descending = false;
+        let indexFields: string[] = [];
+
+        const range: any = {};
+        for (const op of ['eq', 'gt', 'gte', 'lt', 'lte'] as const) {
+            range[op] = (field: string, value: any) => {
+                conditions.push({ field, op, value });
+                return range;
+            };
+        }
+
+        const matches = (doc: Doc) =>
+            conditions.every(({ field, op, value }) => {
+                const actual = doc[field];
+                switch (op) {
+                    case 'eq':
+                        return actual === value;
+                    case 'gt':
+                        return actual > value;
+                    case 'gte':
+                        return actual >= value;
+                    case 'lt':
+                        return actual < value;
+                    case 'lte':
+                        return actual <= value;
+                }
+            });
+
+        const results = () => {
+            const docs = this.rows(table).filter(matches);
+            docs.sort((a, b) => {
+                for (const field of indexFields) {
+                    if (a[field] < b[field]) return -1;
+                    if (a[field] > b[field]) return 1;
+                }
+                return a._creationTime - b._creationTime;
+            });
+            return descending ? docs.reverse() : docs;
+        };
+
+        const builder: any = {
+            withIndex: (name: string, build?: (q: any) => any) => {
+                const index = (schema as any).tables[table].indexes.find(
+                    (candidate: any) => candidate.indexDescriptor === name
+                );
+                if (!index) throw new Error(`Unknown index ${table}.${name}`);
+                indexFields = index.fields;
+                build?.(range);
+                return builder;
+            },
+            order: (order: 'asc' | 'desc') => {
+                descending = order === 'desc';
+                return builder;
+            },
+            collect: async () => results(),
+            take: async (n: number) => results().slice(0, n),
+            first: async () => results()[0] ?? null,
+            unique: async () => {
+                const docs = results();
+                if (docs.length > 1) {
+                    throw new Error(`unique() matched ${docs.length} ${table} rows`);
+                }
+                return docs[0] ?? null;
+            },
+        };
+        return builder;
+    }
+}
+
+/**
+ * Call a registered query or mutation with a fake context
+ */
+export async function runHandler<T>(
+    fn: any,
+    db: FakeConvexDb,
+    args: Record<string, any>
+): Promise<T> {
+    return await fn._handler({ db }, args);
+}
@@ -0,0 +1,174 @@
+/**
+ * Verification script for the account export
+ * Seeds one user's rows in every table, then checks that exportMyData reads
+ * every table deleteAccount deletes from, so the export stays complete as
+ * tables are added.
+ */
+
+import { deleteAccount, exportMyData } from '../convex/account';
+import { FakeConvexDb, runHandler } from './fake-convex-db';
+
+// Shared rank counts, which hold no one's personal data
+const AGGREGATE_TABLES = ['rank_buckets', 'point_counts'];
+
+const SESSION_TOKEN = 'test-session';
+
+async function seedUser(db: FakeConvexDb): Promise<void> {
+    const now = Date.now();
+    const userId = await db.insert('users', {
+        email: 'sam@example.com',
+        displayName: 'Sam',
+        ecoPoints: 40,
+        isAnonymous: false,
+        lastActive: now,
+        passwordHash: 'hash',
+        bio: 'Cycling to work',
+        timeZone: 'Europe/Berlin',
+        streakFreezes: 1,
+    });
+    const otherId = await db.insert('users', {
+        email: 'alex@example.com',
+        displayName: 'Alex',
+        ecoPoints: 10,
+        isAnonymous: false,
+        lastActive: now,
+        passwordHash: 'hash',
+    });
+
+    await db.insert('sessions', { userId, token: SESSION_TOKEN, expiresAt: now + 60_000 });
+    await db.insert('password_reset_codes', {
+        userId,
+        codeHash: 'code-hash',
+        expiresAt: now,
+        attempts: 0,
+    });
+    await db.insert('outbox', {
+        to: 'sam@example.com',
+        kind: 'password_reset',
+        subject: 'Reset your password',
+        body: 'Your code is 123456',
+        createdAt: now,
+    });
+    await db.insert('habit_logs', {
+        userId,
+        habitType: 'bike',
+        pointsAwarded: 40,
+        clientId: 'log-1',
+        loggedAt: now,
+        validated: true,
+        day: '2026-10-19',
+    });
+    await db.insert('streaks', {
+        userId,
+        habitType: 'bike',
+        currentStreak: 3,
+        longestStreak: 3,
+        lastLoggedDate: '2026-10-19',
+    });
+    await db.insert('streak_freezes', { userId, habitType: 'bike', day: '2026-10-16' });
+    await db.insert('custom_habits', {
+        userId,
+        habitId: 'habit-1',
+        name: 'Line dry laundry',
+        emoji: '👕',
+        color: '#34C759',
+        pointsTier: 'small',
+        dailyCap: 10,
+        archived: false,
+        updatedAt: now,
+    });
+    await db.insert('sync_batches', { userId, itemCount: 1, status: 'completed' });
+    await db.insert('friendships', { userId, friendId: otherId });
+    await db.insert('friendships', { userId: otherId, friendId: userId });
+    await db.insert('friend_requests', { fromUserId: userId, toUserId: otherId });
+    await db.insert('friend_requests', { fromUserId: otherId, toUserId: userId });
+    await db.insert('user_blocks', { blockerId: userId, blockedId: otherId });
+    await db.insert('invites', { inviterId: userId, code: 'ABCDEFGH', uses: 0 });
+    await db.insert('email_searches', { userId, createdAt: now });
+
+    const teamId = await db.insert('teams', {
+        name: 'Flat 4',
+        inviteCode: 'HGFEDCBA',
+        ownerId: userId,
+        totalPoints: 40,
+        memberCount: 1,
+    });
+    await db.insert('team_members', { teamId, userId, role: 'owner', joinedAt: now });
+    await db.insert('team_contributions', { teamId, userId, weekId: '2026-W43', points: 40 });
+    await db.insert('period_points', { userId, periodId: '2026-10-19', points: 40 });
+}
+
+async function testAccountExport() {
+    console.log('🧪 Testing account export...\n');
+
+    try {
+        console.log('1️⃣ Deleting a seeded account...');
+        const deleteDb = new FakeConvexDb();
+        await seedUser(deleteDb);
+        await runHandler(deleteAccount, deleteDb, { sessionToken: SESSION_TOKEN });
+        const deleted = [...deleteDb.deletedFrom].filter(
+            (table) => !AGGREGATE_TABLES.includes(table)
+        );
+        console.log(`✅ Deleted from ${deleted.length} tables: ${deleted.join(', ')}\n`);
+
+        console.log('2️⃣ Exporting the same account...');
+        const exportDb = new FakeConvexDb();
+        await seedUser(exportDb);
+        const data: any = await runHandler(exportMyData, exportDb, {
+            sessionToken: SESSION_TOKEN,
+        });
+        console.log(`✅ Exported format v${data.formatVersion}\n`);
+
+        console.log('3️⃣ Checking every deleted table is exported...');
+        const missing = deleted.filter((table) => !exportDb.readTables.has(table));
+        if (missing.length > 0) {
+            throw new Error(`Deleted but not exported: ${missing.join(', ')}`);
+        }
+        console.log('✅ Export covers every deleted table\n');
+
+        console.log('4️⃣ Checking exported values...');
+        const checks: [string, boolean][] = [
+            [
+                'profile',
+                data.user.bio === 'Cycling to work' && data.user.timeZone === 'Europe/Berlin',
+            ],
+            ['streaks', data.streaks.length === 1 && data.frozenDays.length === 1],
+            ['friends', data.friendIds.length === 1 && data.blockedUserIds.length === 1],
+            [
+                'friend requests',
+                data.friendRequests.sent.length === 1 && data.friendRequests.received.length === 1,
+            ],
+            ['invites', data.invites[0]?.code === 'ABCDEFGH'],
+            ['email searches', data.emailSearches.length === 1],
+            ['team', data.team?.name === 'Flat 4' && data.teamContributions.length === 1],
+            ['period points', data.periodPoints.length === 1],
+            ['no credentials', !JSON.stringify(data).match(/code-hash|123456|test-session/)],
+        ];
+        for (const [name, passed] of checks) {
+            if (!passed) {
+                throw new Error(`Unexpected export for ${name}`);
+            }
+        }
+        console.log(`✅ ${checks.length} checks passed\n`);
+
+        console.log('🎉 All tests passed!');
+    } catch (error) {
+        console.error('❌ Test failed:', error);
+        throw error;
+    }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    testAccountExport()
+        .then(() => {
+            console.log('\n✨ Account export verification complete');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('\n💥 Verification failed:', error);
+            process.exit(1);
+        });
+}
+
+export { testAccountExport };
@@ -0,0 +1,98 @@
+/**
+ * Verification script for the email lookup in convex/friends.ts
+ * Looks up addresses through findUserByEmail against an in-memory database
+ * and checks that a miss looks like any empty search and that lookups are
+ * rate limited.
+ */
+
+import { findUserByEmail } from '../convex/friends';
+import { FakeConvexDb, runHandler } from './fake-convex-db';
+
+const SESSION_TOKEN = 'test-session';
+const SEARCHES_PER_HOUR = 10;
+
+async function seedUsers(db: FakeConvexDb): Promise<void> {
+    const now = Date.now();
+    const userId = await db.insert('users', {
+        email: 'sam@example.com',
+        displayName: 'Sam',
+        ecoPoints: 0,
+        isAnonymous: false,
+        lastActive: now,
+        passwordHash: 'hash',
+    });
+    await db.insert('users', {
+        email: 'alex@example.com',
+        displayName: 'Alex',
+        ecoPoints: 0,
+        isAnonymous: false,
+        lastActive: now,
+        passwordHash: 'hash',
+    });
+    await db.insert('sessions', { userId, token: SESSION_TOKEN, expiresAt: now + 60_000 });
+}
+
+async function lookUp(db: FakeConvexDb, email: string): Promise<any[]> {
+    return await runHandler(findUserByEmail, db, { sessionToken: SESSION_TOKEN, email });
+}
+
+async function testEmailSearch() {
+    console.log('🧪 Testing email search...\n');
+
+    try {
+        const db = new FakeConvexDb();
+        await seedUsers(db);
+
+        console.log('1️⃣ Looking up an address with an account...');
+        const found = await lookUp(db, ' alex@example.com ');
+        if (found.length !== 1 || found[0].displayName !== 'Alex') {
+            throw new Error(`Unexpected results: ${JSON.stringify(found)}`);
+        }
+        if (found[0].relationship !== 'none' || 'email' in found[0]) {
+            throw new Error(`Unexpected profile: ${JSON.stringify(found[0])}`);
+        }
+        console.log('✅ Found the profile, without the address\n');
+
+        console.log('2️⃣ Looking up an address without an account...');
+        const missing = await lookUp(db, 'nobody@example.com');
+        if (!Array.isArray(missing) || missing.length !== 0) {
+            throw new Error(`Unexpected results: ${JSON.stringify(missing)}`);
+        }
+        console.log('✅ Same empty list as any other search\n');
+
+        console.log('3️⃣ Looking up more addresses than the limit allows...');
+        for (let i = 2; i < SEARCHES_PER_HOUR; i++) {
+            await lookUp(db, `person${i}@example.com`);
+        }
+        let limited = false;
+        try {
+            await lookUp(db, 'alex@example.com');
+        } catch {
+            limited = true;
+        }
+        if (!limited) {
+            throw new Error(`Lookup ${SEARCHES_PER_HOUR + 1} was not rate limited`);
+        }
+        console.log(`✅ Lookup ${SEARCHES_PER_HOUR + 1} in an hour was refused\n`);
+
+        console.log('🎉 All tests passed!');
+    } catch (error) {
+        console.error('❌ Test failed:', error);
+        throw error;
+    }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    testEmailSearch()
+        .then(() => {
+            console.log('\n✨ Email search verification complete');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('\n💥 Verification failed:', error);
+            process.exit(1);
+        });
+}
+
+export { testEmailSearch };
@@ -3,11 +3,13 @@
  * This script tests the core functionality without requiring a full test framework
  */
 
-import { initializeDatabase } from '../services/database';
 import {
+    checkConnectivity,
     isOnline,
-    leaderboardService
-} from '../services/leaderboard-service';
+    setReachabilityProbe
+} from '../services/connectivity';
+import { initializeDatabase } from '../services/database';
+import { leaderboardService } from '../services/leaderboard-service';
 
 async function testLeaderboardService() {
     console.log('🧪 Testing LeaderboardService...\n');
@@ -20,8 +22,16 @@ async function testLeaderboardService() {
 
         // Test network status detection
         console.log('2️⃣ Testing network status detection...');
-        const online = isOnline();
-        console.log(`✅ Network status: ${online ? 'Online' : 'Offline'}\n`);
+        const online = await checkConnectivity();
+        console.log(`✅ Network status: ${online ? 'Online' : 'Offline'}`);
+
+        // Fake an outage with a stub probe, then restore the real one
+        setReachabilityProbe(async () => false);
+        await checkConnectivity();
+        console.log(`✅ Faked outage reported as: ${isOnline() ? 'Online' : 'Offline'}`);
+        setReachabilityProbe(null);
+        await checkConnectivity();
+        console.log('');
 
         // Test demo friends rankings
         console.log('3️⃣ Testing getDemoFriendsRankings...');
@@ -0,0 +1,100 @@
+/**
+ * Verification script for duplicate detection in convex/sync.ts
+ * Syncs logs with the same client id for two users against an in-memory
+ * database and checks that only the owner of the server's copy is shown it.
+ */
+
+import { syncBatch } from '../convex/sync';
+import { FakeConvexDb, runHandler } from './fake-convex-db';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function addUser(db: FakeConvexDb, name: string, sessionToken: string): Promise<void> {
+    const now = Date.now();
+    const userId = await db.insert('users', {
+        email: `${name.toLowerCase()}@example.com`,
+        displayName: name,
+        ecoPoints: 0,
+        isAnonymous: false,
+        lastActive: now,
+        passwordHash: 'hash',
+    });
+    await db.insert('sessions', { userId, token: sessionToken, expiresAt: now + HOUR_MS });
+}
+
+async function syncLog(db: FakeConvexDb, sessionToken: string, id: string): Promise<any> {
+    const now = Date.now();
+    const response: any = await runHandler(syncBatch, db, {
+        sessionToken,
+        items: [
+            {
+                id,
+                type: 'habit',
+                payload: {
+                    habitType: 'recycle',
+                    pointsAwarded: 10,
+                    loggedAt: now,
+                    timeZone: 'UTC',
+                },
+                createdAt: now,
+            },
+        ],
+    });
+    return response.results[0];
+}
+
+async function testSyncDuplicates() {
+    console.log('🧪 Testing sync duplicate detection...\n');
+
+    try {
+        const db = new FakeConvexDb();
+        await addUser(db, 'Sam', 'sam-session');
+        await addUser(db, 'Alex', 'alex-session');
+
+        console.log('1️⃣ Syncing a new log...');
+        const first = await syncLog(db, 'sam-session', 'shared-id');
+        if (first.status !== 'accepted') {
+            throw new Error(`Expected accepted, got ${first.status}: ${first.message}`);
+        }
+        console.log('✅ Accepted\n');
+
+        console.log('2️⃣ Sending the same log again...');
+        const resent = await syncLog(db, 'sam-session', 'shared-id');
+        if (resent.status !== 'conflict' || resent.serverData?.serverId !== first.serverId) {
+            throw new Error(
+                `Expected a conflict with the server's copy: ${JSON.stringify(resent)}`
+            );
+        }
+        console.log("✅ Conflict with the server's copy\n");
+
+        console.log("3️⃣ Syncing another user's log with the same id...");
+        const other = await syncLog(db, 'alex-session', 'shared-id');
+        if (other.status !== 'error' || other.serverId || other.serverData) {
+            throw new Error(`Expected a bare rejection: ${JSON.stringify(other)}`);
+        }
+        if (db.rows('habit_logs').length !== 1) {
+            throw new Error('A second log was stored under the same id');
+        }
+        console.log(`✅ Rejected: ${other.message}\n`);
+
+        console.log('🎉 All tests passed!');
+    } catch (error) {
+        console.error('❌ Test failed:', error);
+        throw error;
+    }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+    testSyncDuplicates()
+        .then(() => {
+            console.log('\n✨ Sync duplicate verification complete');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('\n💥 Verification failed:', error);
+            process.exit(1);
+        });
+}
+
+export { testSyncDuplicates };
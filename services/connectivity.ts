@@ -0,0 +1,274 @@
+import { AppState, type AppStateStatus } from 'react-native';
+
+// ============================================================================
+// Types and Constants
+// ============================================================================
+
+/**
+ * Resolves true when the backend can be reached
+ * Swap it with setReachabilityProbe() to fake connectivity in tests
+ */
+export type ReachabilityProbe = () => Promise<boolean>;
+
+type NetworkListener = (online: boolean) => void;
+
+const PROBE_TIMEOUT_MS = 5 * 1000; // 5 seconds
+const ONLINE_POLL_MS = 30 * 1000; // 30 seconds
+const OFFLINE_POLL_MS = 5 * 1000; // 5 seconds
+
+// ============================================================================
+// Reachability Probe
+// ============================================================================
+
+/**
+ * Whether the browser reports itself as offline (always false on native)
+ */
+function browserReportsOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Default probe: a small GET against the Convex deployment's /version
+ * endpoint. Any HTTP response counts as reachable; a network error or
+ * timeout counts as offline.
+ */
+export const convexReachabilityProbe: ReachabilityProbe = async () => {
+    if (browserReportsOffline()) {
+        return false;
+    }
+
+    const convexUrl = process.env.EXPO_PUBLIC_CONVEX_URL;
+    if (!convexUrl) {
+        // Nothing to probe; trust the platform
+        return true;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+
+    try {
+        await fetch(`${convexUrl.replace(/\/$/, '')}/version`, {
+            method: 'GET',
+            cache: 'no-store',
+            signal: controller.signal,
+        });
+        return true;
+    } catch {
+        return false;
+    } finally {
+        clearTimeout(timeout);
+    }
+};
+
+// ============================================================================
+// Connectivity Monitor
+// ============================================================================
+
+/**
+ * Single source of truth for whether the app is online
+ * Probes on demand, when the app returns to the foreground, on browser
+ * online/offline events, and on a poll that runs only while something is
+ * listening (faster while offline so reconnects are noticed quickly).
+ */
+class ConnectivityMonitor {
+    private probe: ReachabilityProbe = convexReachabilityProbe;
+    // Optimistic until the first probe says otherwise
+    private online: boolean = true;
+    private inFlight: Promise<boolean> | null = null;
+    private pollTimer: ReturnType<typeof setTimeout> | null = null;
+    private cleanups: (() => void)[] = [];
+    private listeners = new Set<NetworkListener>();
+
+    /**
+     * Last known connectivity state (does not probe)
+     */
+    isOnline(): boolean {
+        return this.online;
+    }
+
+    /**
+     * Probe reachability now and notify listeners if the state changed
+     * Concurrent calls share one probe.
+     */
+    checkConnectivity(): Promise<boolean> {
+        if (!this.inFlight) {
+            this.inFlight = this.runProbe().finally(() => {
+                this.inFlight = null;
+            });
+        }
+        return this.inFlight;
+    }
+
+    /**
+     * Replace the reachability probe (pass null to restore the default)
+     */
+    setReachabilityProbe(probe: ReachabilityProbe | null): void {
+        this.probe = probe ?? convexReachabilityProbe;
+    }
+
+    /**
+     * Subscribe to connectivity changes
+     * Monitoring starts with the first listener and stops with the last.
+     * @returns Cleanup function to remove the listener
+     */
+    addListener(listener: NetworkListener): () => void {
+        this.listeners.add(listener);
+        if (this.listeners.size === 1) {
+            this.startMonitoring();
+        }
+
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) {
+                this.stopMonitoring();
+            }
+        };
+    }
+
+    private async runProbe(): Promise<boolean> {
+        let reachable: boolean;
+        try {
+            reachable = await this.probe();
+        } catch {
+            reachable = false;
+        }
+        this.setOnline(reachable);
+        return reachable;
+    }
+
+    private setOnline(online: boolean): void {
+        if (online === this.online) return;
+
+        this.online = online;
+        this.listeners.forEach((listener) => {
+            try {
+                listener(online);
+            } catch (error) {
+                console.error('Network listener failed:', error);
+            }
+        });
+
+        // Poll faster while offline, slower once back online
+        if (this.cleanups.length > 0) {
+            this.schedulePoll();
+        }
+    }
+
+    private startMonitoring(): void {
+        const appStateSubscription = AppState.addEventListener(
+            'change',
+            (state: AppStateStatus) => {
+                if (state === 'active') {
+                    this.checkConnectivity();
+                }
+            }
+        );
+        this.cleanups.push(() => appStateSubscription.remove());
+
+        if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+            const handleOnline = () => this.checkConnectivity();
+            const handleOffline = () => this.setOnline(false);
+
+            window.addEventListener('online', handleOnline);
+            window.addEventListener('offline', handleOffline);
+            this.cleanups.push(() => {
+                window.removeEventListener('online', handleOnline);
+                window.removeEventListener('offline', handleOffline);
+            });
+        }
+
+        this.checkConnectivity();
+        this.schedulePoll();
+    }
+
+    private stopMonitoring(): void {
+        this.cleanups.forEach((cleanup) => cleanup());
+        this.cleanups = [];
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = null;
+        }
+    }
+
+    private schedulePoll(): void {
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+        }
+        this.pollTimer = setTimeout(
+            async () => {
+                this.pollTimer = null;
+                await this.checkConnectivity();
+                if (this.cleanups.length > 0 && !this.pollTimer) {
+                    this.schedulePoll();
+                }
+            },
+            this.online ? ONLINE_POLL_MS : OFFLINE_POLL_MS
+        );
+    }
+}
+
+const connectivityMonitor = new ConnectivityMonitor();
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Check if the device is online (last known state, never blocks)
+ */
+export function isOnline(): boolean {
+    return connectivityMonitor.isOnline();
+}
+
+/**
+ * Probe the backend now
+ * @returns Whether it was reachable
+ */
+export function checkConnectivity(): Promise<boolean> {
+    return connectivityMonitor.checkConnectivity();
+}
+
+/**
+ * Replace how reachability is checked (pass null to restore the default)
+ * @param probe Resolves true when the backend can be reached
+ */
+export function setReachabilityProbe(probe: ReachabilityProbe | null): void {
+    connectivityMonitor.setReachabilityProbe(probe);
+}
+
+/**
+ * Add listener for network status changes
+ * @param callback Function to call when network status changes
+ * @returns Cleanup function to remove listener
+ */
+export function addNetworkListener(callback: (online: boolean) => void): () => void {
+    return connectivityMonitor.addListener(callback);
+}
+
+/**
+ * Retry a function when connection is restored
+ * @param fn Function to retry
+ * @param onSuccess Callback when retry succeeds
+ * @returns Cleanup function
+ */
+export function retryOnReconnect(
+    fn: () => Promise<void>,
+    onSuccess?: () => void
+): () => void {
+    const handleOnline = async () => {
+        try {
+            await fn();
+            if (onSuccess) {
+                onSuccess();
+            }
+        } catch (error) {
+            console.error('Retry failed:', error);
+        }
+    };
+
+    return addNetworkListener((online) => {
+        if (online) {
+            handleOnline();
+        }
+    });
+}
@@ -0,0 +1,224 @@
+import { classifyError, logError } from '@/utils/error-handler';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    getCustomHabit as dbGetCustomHabit,
+    getCustomHabits as dbGetCustomHabits,
+    saveCustomHabit,
+    type CustomHabitRow,
+} from './database';
+
+// ============================================================================
+// Types and Interfaces
+// ============================================================================
+
+export type PointsTier = 'small' | 'medium' | 'large';
+
+export interface CustomHabit {
+    id: string; // stable across devices; sent with every log
+    name: string;
+    emoji: string;
+    color: string;
+    pointsTier: PointsTier;
+    dailyCap: number;
+    archived: boolean;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface CustomHabitInput {
+    name: string;
+    emoji: string;
+    color: string;
+    pointsTier: PointsTier;
+    dailyCap: number;
+}
+
+// Base point range for each tier; must match POINTS_TIERS in
+// convex/customHabits.ts
+export const CUSTOM_HABIT_TIERS: Record<PointsTier, { label: string; min: number; max: number }> = {
+    small: { label: 'Small', min: 3, max: 8 },
+    medium: { label: 'Medium', min: 5, max: 20 },
+    large: { label: 'Large', min: 10, max: 25 },
+};
+
+// Daily caps offered when editing a habit (the server allows 5-50)
+export const CUSTOM_HABIT_DAILY_CAPS = [10, 25, 50];
+
+// Most points all custom habits together can earn in a day; must match
+// convex/sync.ts
+export const CUSTOM_HABITS_DAILY_CAP = 100;
+
+export const CUSTOM_HABIT_COLORS = [
+    '#34C759',
+    '#007AFF',
+    '#FF9500',
+    '#5856D6',
+    '#FF2D55',
+    '#AF52DE',
+    '#30B0C7',
+    '#8E8E93',
+];
+
+// ============================================================================
+// CustomHabitService Class
+// ============================================================================
+
+/**
+ * Stores the user's own habits locally. SyncService uploads edits and
+ * downloads habits defined on other devices.
+ */
+class CustomHabitService {
+    // Limits enforced by convex/customHabits.ts
+    private readonly MAX_CUSTOM_HABITS = 20;
+    private readonly NAME_MAX_LENGTH = 24;
+    private readonly MIN_DAILY_CAP = 5;
+    private readonly MAX_DAILY_CAP = 50;
+
+    /**
+     * Get custom habits in the order they were created
+     * @param includeArchived Also return archived habits
+     */
+    async getCustomHabits(includeArchived: boolean = false): Promise<CustomHabit[]> {
+        try {
+            const rows = await dbGetCustomHabits(includeArchived);
+            return rows.map((row) => this.toCustomHabit(row));
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'CustomHabitService.getCustomHabits');
+            return []; // Built-in habits still work
+        }
+    }
+
+    /**
+     * Get a custom habit by id, archived or not
+     */
+    async getCustomHabit(id: string): Promise<CustomHabit | null> {
+        const row = await dbGetCustomHabit(id);
+        return row ? this.toCustomHabit(row) : null;
+    }
+
+    /**
+     * Define a new custom habit
+     */
+    async createCustomHabit(input: CustomHabitInput): Promise<CustomHabit> {
+        const existing = await dbGetCustomHabits(true);
+        if (existing.length >= this.MAX_CUSTOM_HABITS) {
+            throw new Error(`You can have up to ${this.MAX_CUSTOM_HABITS} custom habits`);
+        }
+
+        const now = Date.now();
+        const row: CustomHabitRow = {
+            id: uuidv4(),
+            ...this.toRowFields(this.validate(input)),
+            archived: 0,
+            created_at: now,
+            updated_at: now,
+            synced: 0,
+        };
+
+        await saveCustomHabit(row);
+        return this.toCustomHabit(row);
+    }
+
+    /**
+     * Change a custom habit's name, look, points tier or daily cap
+     * Logs already made keep the points they were awarded.
+     */
+    async updateCustomHabit(id: string, input: CustomHabitInput): Promise<CustomHabit> {
+        const existing = await dbGetCustomHabit(id);
+        if (!existing) {
+            throw new Error('Custom habit not found');
+        }
+
+        const row: CustomHabitRow = {
+            ...existing,
+            ...this.toRowFields(this.validate(input)),
+            updated_at: Math.max(Date.now(), existing.updated_at + 1),
+            synced: 0,
+        };
+
+        await saveCustomHabit(row);
+        return this.toCustomHabit(row);
+    }
+
+    /**
+     * Archive or restore a custom habit
+     * Archived habits leave the Quick Log grid but keep their history.
+     */
+    async setArchived(id: string, archived: boolean): Promise<void> {
+        const existing = await dbGetCustomHabit(id);
+        if (!existing) {
+            throw new Error('Custom habit not found');
+        }
+
+        await saveCustomHabit({
+            ...existing,
+            archived: archived ? 1 : 0,
+            updated_at: Math.max(Date.now(), existing.updated_at + 1),
+            synced: 0,
+        });
+    }
+
+    // ========================================================================
+    // Private Helper Methods
+    // ========================================================================
+
+    /**
+     * Check an edit against the server's rules so it can't be rejected later
+     */
+    private validate(input: CustomHabitInput): CustomHabitInput {
+        const name = input.name.trim();
+        const emoji = input.emoji.trim();
+
+        if (name.length === 0 || name.length > this.NAME_MAX_LENGTH) {
+            throw new Error(`Habit name must be 1-${this.NAME_MAX_LENGTH} characters`);
+        }
+        if (emoji.length === 0) {
+            throw new Error('Pick a single emoji for the habit');
+        }
+        if (!CUSTOM_HABIT_COLORS.includes(input.color)) {
+            throw new Error('Pick one of the habit colors');
+        }
+        if (
+            !Number.isInteger(input.dailyCap) ||
+            input.dailyCap < this.MIN_DAILY_CAP ||
+            input.dailyCap > this.MAX_DAILY_CAP
+        ) {
+            throw new Error(
+                `Daily cap must be between ${this.MIN_DAILY_CAP} and ${this.MAX_DAILY_CAP} points`
+            );
+        }
+
+        return { ...input, name, emoji };
+    }
+
+    private toRowFields(input: CustomHabitInput) {
+        return {
+            name: input.name,
+            emoji: input.emoji,
+            color: input.color,
+            points_tier: input.pointsTier,
+            daily_cap: input.dailyCap,
+        };
+    }
+
+    private toCustomHabit(row: CustomHabitRow): CustomHabit {
+        return {
+            id: row.id,
+            name: row.name,
+            emoji: row.emoji,
+            color: row.color,
+            pointsTier: row.points_tier,
+            dailyCap: row.daily_cap,
+            archived: row.archived === 1,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+}
+
+// ============================================================================
+// Export Singleton Instance
+// ============================================================================
+
+export const customHabitService = new CustomHabitService();
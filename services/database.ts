@@ -48,12 +48,13 @@ async function createTables(): Promise<void> {
       id TEXT PRIMARY KEY,
       type TEXT NOT NULL,
       payload_json TEXT NOT NULL,
-      status TEXT NOT NULL CHECK(status IN ('pending', 'synced', 'failed')),
+      status TEXT NOT NULL CHECK(status IN ('pending', 'synced', 'failed', 'dead')),
       created_at INTEGER NOT NULL,
       synced_at INTEGER,
       server_id TEXT,
       attempts INTEGER DEFAULT 0,
-      error_message TEXT
+      error_message TEXT,
+      next_attempt_at INTEGER
     );
   `);
 
@@ -69,18 +70,22 @@ async function createTables(): Promise<void> {
     // leaderboard_cache table - stores cached leaderboard data
     await db.execAsync(`
     CREATE TABLE IF NOT EXISTS leaderboard_cache (
-      user_id TEXT PRIMARY KEY,
+      period TEXT NOT NULL DEFAULT 'all',
+      user_id TEXT NOT NULL,
       display_name TEXT NOT NULL,
       eco_points INTEGER NOT NULL,
       rank INTEGER NOT NULL,
       is_anonymous INTEGER NOT NULL,
-      cached_at INTEGER NOT NULL
+      avatar_emoji TEXT,
+      avatar_color TEXT,
+      cached_at INTEGER NOT NULL,
+      PRIMARY KEY (period, user_id)
     );
   `);
 
     // Create index for leaderboard_cache
     await db.execAsync(`
-    CREATE INDEX IF NOT EXISTS idx_leaderboard_rank ON leaderboard_cache(rank);
+    CREATE INDEX IF NOT EXISTS idx_leaderboard_rank ON leaderboard_cache(period, rank);
   `);
 
     // user_stats table - single row storing user statistics
@@ -90,7 +95,13 @@ async function createTables(): Promise<void> {
       total_eco_points INTEGER DEFAULT 0,
       current_rank INTEGER,
       last_sync_at INTEGER,
-      unsynced_count INTEGER DEFAULT 0
+      unsynced_count INTEGER DEFAULT 0,
+      pull_cursor INTEGER DEFAULT 0,
+      team_id TEXT,
+      team_name TEXT,
+      team_week_id TEXT,
+      team_week_points INTEGER,
+      streak_freezes INTEGER DEFAULT 0
     );
   `);
 
@@ -100,7 +111,35 @@ async function createTables(): Promise<void> {
       habit_type TEXT PRIMARY KEY,
       current_streak INTEGER DEFAULT 0,
       last_logged_date TEXT,
-      longest_streak INTEGER DEFAULT 0
+      longest_streak INTEGER DEFAULT 0,
+      last_logged_at INTEGER,
+      last_time_zone TEXT
+    );
+  `);
+
+    // streak_freezes table - missed days a freeze kept a habit's streak alive
+    await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS streak_freezes (
+      habit_type TEXT NOT NULL,
+      day TEXT NOT NULL,
+      log_id TEXT,
+      PRIMARY KEY (habit_type, day)
+    );
+  `);
+
+    // custom_habits table - habits the user defined, synced to the server
+    await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS custom_habits (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      emoji TEXT NOT NULL,
+      color TEXT NOT NULL,
+      points_tier TEXT NOT NULL CHECK(points_tier IN ('small', 'medium', 'large')),
+      daily_cap INTEGER NOT NULL,
+      archived INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      synced INTEGER NOT NULL DEFAULT 0
     );
   `);
 }
@@ -150,12 +189,13 @@ export interface HabitQueueItem {
     id: string;
     type: string;
     payload_json: string;
-    status: 'pending' | 'synced' | 'failed';
+    status: 'pending' | 'synced' | 'failed' | 'dead';
     created_at: number;
     synced_at?: number;
     server_id?: string;
     attempts: number;
     error_message?: string;
+    next_attempt_at?: number | null; // when a failed item may be retried
 }
 
 /**
@@ -202,6 +242,30 @@ export async function getPendingHabitLogs(limit?: number, offset?: number): Prom
     return await database.getAllAsync<HabitQueueItem>(query, params);
 }
 
+/**
+ * Count habit logs still waiting to be synced
+ */
+export async function countPendingHabitLogs(): Promise<number> {
+    const database = getDatabase();
+
+    const result = await database.getFirstAsync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM habits_queue WHERE status = 'pending'`
+    );
+
+    return result?.count || 0;
+}
+
+/**
+ * Get every habit log in the queue regardless of status, oldest first
+ */
+export async function getAllHabitLogs(): Promise<HabitQueueItem[]> {
+    const database = getDatabase();
+
+    return await database.getAllAsync<HabitQueueItem>(
+        'SELECT * FROM habits_queue ORDER BY created_at ASC'
+    );
+}
+
 /**
  * Update habit log status after sync
  */
@@ -228,6 +292,157 @@ export async function updateHabitLogStatus(
     }
 }
 
+/**
+ * Mark a habit log as failed and schedule its next retry
+ */
+export async function scheduleHabitLogRetry(
+    id: string,
+    errorMessage: string,
+    nextAttemptAt: number
+): Promise<void> {
+    const database = getDatabase();
+
+    await database.runAsync(
+        `UPDATE habits_queue
+     SET status = 'failed', error_message = ?, next_attempt_at = ?, attempts = attempts + 1
+     WHERE id = ?`,
+        [errorMessage, nextAttemptAt, id]
+    );
+}
+
+/**
+ * Move a habit log to the dead-letter state; it is only retried manually
+ */
+export async function markHabitLogDead(id: string, errorMessage: string): Promise<void> {
+    const database = getDatabase();
+
+    await database.runAsync(
+        `UPDATE habits_queue
+     SET status = 'dead', error_message = ?, next_attempt_at = NULL, attempts = attempts + 1
+     WHERE id = ?`,
+        [errorMessage, id]
+    );
+}
+
+/**
+ * Move failed habit logs whose retry time has passed back to pending
+ * @returns Number of logs re-queued
+ */
+export async function requeueDueHabitLogs(now: number = Date.now()): Promise<number> {
+    const database = getDatabase();
+
+    const result = await database.runAsync(
+        `UPDATE habits_queue
+     SET status = 'pending', next_attempt_at = NULL
+     WHERE status = 'failed' AND next_attempt_at IS NOT NULL AND next_attempt_at <= ?`,
+        [now]
+    );
+
+    return result.changes;
+}
+
+/**
+ * Get habit logs in the dead-letter state, newest first
+ */
+export async function getDeadHabitLogs(): Promise<HabitQueueItem[]> {
+    const database = getDatabase();
+
+    return await database.getAllAsync<HabitQueueItem>(
+        `SELECT * FROM habits_queue WHERE status = 'dead' ORDER BY created_at DESC`
+    );
+}
+
+/**
+ * Put a failed or dead habit log back in the queue with a fresh attempt count
+ */
+export async function resetHabitLogForRetry(id: string): Promise<void> {
+    const database = getDatabase();
+
+    await database.runAsync(
+        `UPDATE habits_queue
+     SET status = 'pending', attempts = 0, error_message = NULL, next_attempt_at = NULL
+     WHERE id = ? AND status IN ('failed', 'dead')`,
+        [id]
+    );
+}
+
+/**
+ * Replace the payload of a habit log
+ */
+export async function updateHabitLogPayload(id: string, payload: any): Promise<void> {
+    const database = getDatabase();
+
+    await database.runAsync(
+        'UPDATE habits_queue SET payload_json = ? WHERE id = ?',
+        [JSON.stringify(payload), id]
+    );
+}
+
+/**
+ * Merge a habit log downloaded from the server into the queue
+ * Rows are keyed by the client-generated ID, so a log this device created
+ * is updated in place rather than duplicated.
+ * @returns True if a new row was inserted
+ */
+export async function upsertSyncedHabitLog(
+    id: string,
+    type: string,
+    payload: any,
+    serverId: string,
+    createdAt: number
+): Promise<boolean> {
+    const database = getDatabase();
+
+    const existing = await database.getFirstAsync<HabitQueueItem>(
+        'SELECT * FROM habits_queue WHERE id = ?',
+        [id]
+    );
+
+    if (!existing) {
+        await database.runAsync(
+            `INSERT INTO habits_queue (id, type, payload_json, status, created_at, synced_at, server_id, attempts)
+       VALUES (?, ?, ?, 'synced', ?, ?, ?, 0)`,
+            [id, type, JSON.stringify(payload), createdAt, Date.now(), serverId]
+        );
+        return true;
+    }
+
+    const merged = { ...JSON.parse(existing.payload_json), ...payload };
+    await database.runAsync(
+        `UPDATE habits_queue
+     SET payload_json = ?, status = 'synced', synced_at = ?, server_id = ?, error_message = NULL
+     WHERE id = ?`,
+        [JSON.stringify(merged), Date.now(), serverId, id]
+    );
+
+    // The server already has it, so it no longer counts as unsynced
+    if (existing.status !== 'synced') {
+        await database.runAsync(
+            'UPDATE user_stats SET unsynced_count = MAX(0, unsynced_count - 1) WHERE id = 1'
+        );
+    }
+
+    return false;
+}
+
+/**
+ * Get the total points of logs the server's total doesn't include yet
+ * That is logs still queued, waiting on a retry, or dead until they are
+ * discarded. A conflict is marked failed with no retry scheduled; the server
+ * already has that log, so it is left out.
+ */
+export async function getUnsyncedPointsTotal(): Promise<number> {
+    const database = getDatabase();
+
+    const result = await database.getFirstAsync<{ total: number }>(
+        `SELECT COALESCE(SUM(json_extract(payload_json, '$.pointsAwarded')), 0) as total
+     FROM habits_queue
+     WHERE status IN ('pending', 'dead') OR (status = 'failed' AND next_attempt_at IS NOT NULL)`
+    );
+
+    return result?.total || 0;
+}
+
 /**
  * Delete a habit log by ID
  */
@@ -242,8 +457,8 @@ export async function deleteHabitLog(id: string): Promise<void> {
 
     await database.runAsync('DELETE FROM habits_queue WHERE id = ?', [id]);
 
-    // Decrement unsynced count if it was pending
-    if (item && item.status === 'pending') {
+    // Decrement unsynced count if it never reached the server
+    if (item && item.status !== 'synced') {
         await database.runAsync(
             'UPDATE user_stats SET unsynced_count = MAX(0, unsynced_count - 1) WHERE id = 1'
         );
@@ -273,37 +488,71 @@ export interface LeaderboardCacheEntry {
     eco_points: number;
     rank: number;
     is_anonymous: number;
+    avatar_emoji?: string | null;
+    avatar_color?: string | null;
     cached_at: number;
 }
 
 /**
  * Cache leaderboard data
+ * Each snapshot key (a period, or friends_<period> for the friends board)
+ * keeps its own rows.
  */
-export async function cacheLeaderboardData(entries: Omit<LeaderboardCacheEntry, 'cached_at'>[]): Promise<void> {
+export async function cacheLeaderboardData(
+    entries: Omit<LeaderboardCacheEntry, 'cached_at'>[],
+    period: string = 'all'
+): Promise<void> {
     const database = getDatabase();
 
-    // Clear existing cache
-    await database.runAsync('DELETE FROM leaderboard_cache');
+    // Clear existing cache for this period
+    await database.runAsync('DELETE FROM leaderboard_cache WHERE period = ?', [period]);
 
     // Insert new entries
     const cachedAt = Date.now();
     for (const entry of entries) {
         await database.runAsync(
-            `INSERT INTO leaderboard_cache (user_id, display_name, eco_points, rank, is_anonymous, cached_at)
-       VALUES (?, ?, ?, ?, ?, ?)`,
-            [entry.user_id, entry.display_name, entry.eco_points, entry.rank, entry.is_anonymous, cachedAt]
+            `INSERT INTO leaderboard_cache (period, user_id, display_name, eco_points, rank, is_anonymous, avatar_emoji, avatar_color, cached_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                period,
+                entry.user_id,
+                entry.display_name,
+                entry.eco_points,
+                entry.rank,
+                entry.is_anonymous,
+                entry.avatar_emoji ?? null,
+                entry.avatar_color ?? null,
+                cachedAt,
+            ]
         );
     }
 }
 
+/**
+ * Get when a period's leaderboard cache was last written
+ * @returns Timestamp in ms, or null if the cache is empty
+ */
+export async function getLeaderboardCachedAt(period: string = 'all'): Promise<number | null> {
+    const database = getDatabase();
+    const result = await database.getFirstAsync<{ cached_at: number | null }>(
+        'SELECT MAX(cached_at) as cached_at FROM leaderboard_cache WHERE period = ?',
+        [period]
+    );
+    return result?.cached_at ?? null;
+}
+
 /**
  * Get cached leaderboard data with pagination support
  */
-export async function getCachedLeaderboard(limit?: number, offset?: number): Promise<LeaderboardCacheEntry[]> {
+export async function getCachedLeaderboard(
+    limit?: number,
+    offset?: number,
+    period: string = 'all'
+): Promise<LeaderboardCacheEntry[]> {
     const database = getDatabase();
 
-    let query = 'SELECT * FROM leaderboard_cache ORDER BY rank ASC';
-    const params: any[] = [];
+    let query = 'SELECT * FROM leaderboard_cache WHERE period = ? ORDER BY rank ASC';
+    const params: any[] = [period];
 
     if (limit !== undefined) {
         query += ` LIMIT ?`;
@@ -336,6 +585,14 @@ export interface UserStats {
     current_rank?: number;
     last_sync_at?: number;
     unsynced_count: number;
+    pull_cursor?: number; // server _creationTime of the last pulled log
+    // Last known team and this user's points for it in team_week_id;
+    // null when not in a team
+    team_id?: string | null;
+    team_name?: string | null;
+    team_week_id?: string | null;
+    team_week_points?: number | null;
+    streak_freezes?: number; // held but not yet spent, shared by all habits
 }
 
 /**
@@ -384,6 +641,36 @@ export async function updateUserStats(updates: Partial<Omit<UserStats, 'id'>>):
         values.push(updates.unsynced_count);
     }
 
+    if (updates.pull_cursor !== undefined) {
+        fields.push('pull_cursor = ?');
+        values.push(updates.pull_cursor);
+    }
+
+    if (updates.team_id !== undefined) {
+        fields.push('team_id = ?');
+        values.push(updates.team_id);
+    }
+
+    if (updates.team_name !== undefined) {
+        fields.push('team_name = ?');
+        values.push(updates.team_name);
+    }
+
+    if (updates.team_week_id !== undefined) {
+        fields.push('team_week_id = ?');
+        values.push(updates.team_week_id);
+    }
+
+    if (updates.team_week_points !== undefined) {
+        fields.push('team_week_points = ?');
+        values.push(updates.team_week_points);
+    }
+
+    if (updates.streak_freezes !== undefined) {
+        fields.push('streak_freezes = ?');
+        values.push(updates.streak_freezes);
+    }
+
     if (fields.length === 0) return;
 
     values.push(1); // WHERE id = 1
@@ -415,6 +702,8 @@ export interface StreakData {
     current_streak: number;
     last_logged_date?: string;
     longest_streak: number;
+    last_logged_at?: number | null;
+    last_time_zone?: string | null;
 }
 
 /**
@@ -435,7 +724,9 @@ export async function getStreakData(habitType: string): Promise<StreakData | nul
 export async function updateStreakData(
     habitType: string,
     currentStreak: number,
-    lastLoggedDate: string
+    lastLoggedDate: string,
+    lastLoggedAt: number | null = null,
+    lastTimeZone: string | null = null
 ): Promise<void> {
     const database = getDatabase();
 
@@ -446,12 +737,88 @@ export async function updateStreakData(
         : currentStreak;
 
     await database.runAsync(
-        `INSERT OR REPLACE INTO streaks (habit_type, current_streak, last_logged_date, longest_streak)
-     VALUES (?, ?, ?, ?)`,
-        [habitType, currentStreak, lastLoggedDate, longestStreak]
+        `INSERT OR REPLACE INTO streaks (habit_type, current_streak, last_logged_date, longest_streak, last_logged_at, last_time_zone)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+        [habitType, currentStreak, lastLoggedDate, longestStreak, lastLoggedAt, lastTimeZone]
+    );
+}
+
+/**
+ * Merge a streak from another source (the server, or one rebuilt from
+ * the queue) into the local streaks table
+ * The more recent last_logged_date wins; on the same day the longer run wins.
+ * longest_streak never decreases.
+ */
+export async function mergeStreakData(incoming: StreakData): Promise<void> {
+    const database = getDatabase();
+
+    const existing = await getStreakData(incoming.habit_type);
+    const localDate = existing?.last_logged_date ?? '';
+    const incomingDate = incoming.last_logged_date ?? '';
+
+    let currentStreak = incoming.current_streak;
+    let lastLoggedDate = incomingDate;
+    let lastLoggedAt = incoming.last_logged_at ?? null;
+    let lastTimeZone = incoming.last_time_zone ?? null;
+    if (existing && localDate > incomingDate) {
+        currentStreak = existing.current_streak;
+        lastLoggedDate = localDate;
+        lastLoggedAt = existing.last_logged_at ?? null;
+        lastTimeZone = existing.last_time_zone ?? null;
+    } else if (existing && localDate === incomingDate) {
+        currentStreak = Math.max(existing.current_streak, incoming.current_streak);
+    }
+
+    const longestStreak = Math.max(
+        existing?.longest_streak ?? 0,
+        incoming.longest_streak,
+        currentStreak
+    );
+
+    await database.runAsync(
+        `INSERT OR REPLACE INTO streaks (habit_type, current_streak, last_logged_date, longest_streak, last_logged_at, last_time_zone)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+        [incoming.habit_type, currentStreak, lastLoggedDate, longestStreak, lastLoggedAt, lastTimeZone]
     );
 }
 
+/**
+ * Overwrite a habit's streak with one recounted from its logs
+ * Unlike mergeStreakData this can lower the current streak, for when a log
+ * was removed. A longest_streak set by an earlier run is kept.
+ */
+export async function replaceStreakData(streak: StreakData): Promise<void> {
+    const database = getDatabase();
+
+    const existing = await getStreakData(streak.habit_type);
+    const longestStreak =
+        existing && existing.longest_streak > existing.current_streak
+            ? Math.max(existing.longest_streak, streak.longest_streak)
+            : streak.longest_streak;
+
+    await database.runAsync(
+        `INSERT OR REPLACE INTO streaks (habit_type, current_streak, last_logged_date, longest_streak, last_logged_at, last_time_zone)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+            streak.habit_type,
+            streak.current_streak,
+            streak.last_logged_date ?? null,
+            longestStreak,
+            streak.last_logged_at ?? null,
+            streak.last_time_zone ?? null,
+        ]
+    );
+}
+
+/**
+ * Delete a habit's streak, once it has no logs left
+ */
+export async function deleteStreakData(habitType: string): Promise<void> {
+    const database = getDatabase();
+
+    await database.runAsync('DELETE FROM streaks WHERE habit_type = ?', [habitType]);
+}
+
 /**
  * Get all streaks
  */
@@ -463,6 +830,155 @@ export async function getAllStreaks(): Promise<StreakData[]> {
     );
 }
 
+/**
+ * Get the days a streak freeze covered for a habit
+ */
+export async function getFrozenDays(habitType: string): Promise<string[]> {
+    const database = getDatabase();
+
+    const rows = await database.getAllAsync<{ day: string }>(
+        'SELECT day FROM streak_freezes WHERE habit_type = ? ORDER BY day ASC',
+        [habitType]
+    );
+    return rows.map((row) => row.day);
+}
+
+/**
+ * Record days covered by streak freezes for a habit
+ * @param logId The log that spent the freezes
+ */
+export async function addFrozenDays(
+    habitType: string,
+    days: string[],
+    logId: string
+): Promise<void> {
+    const database = getDatabase();
+
+    for (const day of days) {
+        await database.runAsync(
+            'INSERT OR IGNORE INTO streak_freezes (habit_type, day, log_id) VALUES (?, ?, ?)',
+            [habitType, day, logId]
+        );
+    }
+}
+
+/**
+ * Remove the days a log's streak freezes covered
+ * @returns How many freezes the log had spent
+ */
+export async function removeFrozenDaysForLog(logId: string): Promise<number> {
+    const database = getDatabase();
+
+    const result = await database.runAsync('DELETE FROM streak_freezes WHERE log_id = ?', [logId]);
+    return result.changes;
+}
+
+// ============================================================================
+// Helper Functions for custom_habits
+// ============================================================================
+
+export interface CustomHabitRow {
+    id: string;
+    name: string;
+    emoji: string;
+    color: string;
+    points_tier: 'small' | 'medium' | 'large';
+    daily_cap: number;
+    archived: number; // 0 or 1
+    created_at: number;
+    updated_at: number;
+    synced: number; // 0 until the server has the latest edit
+}
+
+/**
+ * Get custom habits in the order they were created
+ */
+export async function getCustomHabits(includeArchived: boolean = false): Promise<CustomHabitRow[]> {
+    const database = getDatabase();
+
+    return await database.getAllAsync<CustomHabitRow>(
+        `SELECT * FROM custom_habits ${includeArchived ? '' : 'WHERE archived = 0'} ORDER BY created_at ASC`
+    );
+}
+
+/**
+ * Get a custom habit by id
+ */
+export async function getCustomHabit(id: string): Promise<CustomHabitRow | null> {
+    const database = getDatabase();
+
+    return await database.getFirstAsync<CustomHabitRow>(
+        'SELECT * FROM custom_habits WHERE id = ?',
+        [id]
+    );
+}
+
+/**
+ * Insert or replace a custom habit
+ */
+export async function saveCustomHabit(habit: CustomHabitRow): Promise<void> {
+    const database = getDatabase();
+
+    await database.runAsync(
+        `INSERT OR REPLACE INTO custom_habits (id, name, emoji, color, points_tier, daily_cap, archived, created_at, updated_at, synced)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            habit.id,
+            habit.name,
+            habit.emoji,
+            habit.color,
+            habit.points_tier,
+            habit.daily_cap,
+            habit.archived,
+            habit.created_at,
+            habit.updated_at,
+            habit.synced,
+        ]
+    );
+}
+
+/**
+ * Get custom habits with edits the server hasn't seen
+ */
+export async function getUnsyncedCustomHabits(): Promise<CustomHabitRow[]> {
+    const database = getDatabase();
+
+    return await database.getAllAsync<CustomHabitRow>(
+        'SELECT * FROM custom_habits WHERE synced = 0 ORDER BY created_at ASC'
+    );
+}
+
+/**
+ * Mark a custom habit as synced, unless it was edited again meanwhile
+ */
+export async function markCustomHabitSynced(id: string, updatedAt: number): Promise<void> {
+    const database = getDatabase();
+
+    await database.runAsync(
+        'UPDATE custom_habits SET synced = 1 WHERE id = ? AND updated_at = ?',
+        [id, updatedAt]
+    );
+}
+
+/**
+ * Merge a custom habit from the server into the local table
+ * The server copy wins unless the local one has a newer unsynced edit.
+ * created_at is kept from the local row when there is one.
+ */
+export async function mergeCustomHabit(incoming: Omit<CustomHabitRow, 'synced'>): Promise<void> {
+    const existing = await getCustomHabit(incoming.id);
+
+    if (existing && !existing.synced && existing.updated_at > incoming.updated_at) {
+        return;
+    }
+
+    await saveCustomHabit({
+        ...incoming,
+        created_at: existing?.created_at ?? incoming.created_at,
+        synced: 1,
+    });
+}
+
 // ============================================================================
 // Migration Utilities
 // ============================================================================
@@ -518,8 +1034,10 @@ export async function clearAllData(): Promise<void> {
     await database.execAsync('DELETE FROM habits_queue');
     await database.execAsync('DELETE FROM leaderboard_cache');
     await database.execAsync('DELETE FROM streaks');
+    await database.execAsync('DELETE FROM streak_freezes');
+    await database.execAsync('DELETE FROM custom_habits');
     await database.runAsync(
-        'UPDATE user_stats SET total_eco_points = 0, current_rank = NULL, last_sync_at = NULL, unsynced_count = 0 WHERE id = 1'
+        'UPDATE user_stats SET total_eco_points = 0, current_rank = NULL, last_sync_at = NULL, unsynced_count = 0, pull_cursor = 0, team_id = NULL, team_name = NULL, team_week_id = NULL, team_week_points = NULL, streak_freezes = 0 WHERE id = 1'
     );
 }
 
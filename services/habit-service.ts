@@ -1,11 +1,31 @@
+import {
+    addDays,
+    continuesStreak,
+    getDayEndTimestamp,
+    getDayString,
+    getDeviceTimeZone,
+    type DayLog,
+} from '@/utils/day';
 import { classifyError, logError } from '@/utils/error-handler';
 import { v4 as uuidv4 } from 'uuid';
 import {
+    CUSTOM_HABIT_TIERS,
+    CUSTOM_HABITS_DAILY_CAP,
+    customHabitService,
+} from './custom-habit-service';
+import {
+    addFrozenDays,
     deleteHabitLog,
+    deleteStreakData,
+    getAllHabitLogs,
     getDatabase,
+    getFrozenDays,
     getStreakData,
     getUserStats,
     insertHabitLog,
+    mergeStreakData,
+    removeFrozenDaysForLog,
+    replaceStreakData,
     updateStreakData,
     updateUserStats,
     type HabitQueueItem,
@@ -29,15 +49,76 @@ export interface LogResult {
     pointsAwarded: number;
     newTotal: number;
     streakBonus?: number;
+    freezesUsed?: number; // missed days a streak freeze covered
     cappedOut: boolean;
 }
 
 export interface HabitLog {
     id: string;
     habitType: HabitType;
+    customHabitId?: string;
+    quantity?: number;
+    unit?: string;
     pointsAwarded: number;
     loggedAt: number;
-    status: 'pending' | 'synced' | 'failed';
+    status: 'pending' | 'synced' | 'failed' | 'dead';
+}
+
+export interface LogHabitOptions {
+    customHabitId?: string; // required when habitType is 'custom'
+    quantity?: number; // amount done, in the habit's QUANTITY_FORMULAS unit
+    day?: string; // YYYY-MM-DD; a past day from getBackfillDays, or today
+}
+
+export interface QuantityFormula {
+    unit: string;
+    unitLabel: string; // for sentences, e.g. "km biked"
+    pointsPerUnit: number;
+    maxQuantity: number;
+}
+
+// Points for logs that record a quantity, replacing the random base points;
+// must match QUANTITY_FORMULAS in convex/sync.ts
+export const QUANTITY_FORMULAS: Partial<Record<HabitType, QuantityFormula>> = {
+    recycle: { unit: 'items', unitLabel: 'items recycled', pointsPerUnit: 2, maxQuantity: 100 },
+    bike: { unit: 'km', unitLabel: 'km biked', pointsPerUnit: 3, maxQuantity: 300 },
+    meatless: { unit: 'meals', unitLabel: 'meatless meals', pointsPerUnit: 10, maxQuantity: 5 },
+    reusable: { unit: 'items', unitLabel: 'reusables used', pointsPerUnit: 3, maxQuantity: 50 },
+    compost: { unit: 'kg', unitLabel: 'kg composted', pointsPerUnit: 8, maxQuantity: 50 },
+    water: { unit: 'L', unitLabel: 'L of water saved', pointsPerUnit: 0.5, maxQuantity: 1000 },
+};
+
+// One streak freeze is earned each time a streak reaches a multiple of
+// STREAK_FREEZE_EVERY_DAYS, holding at most MAX_STREAK_FREEZES; must match
+// convex/streaks.ts
+export const STREAK_FREEZE_EVERY_DAYS = 7;
+export const MAX_STREAK_FREEZES = 3;
+
+// How long after a day ends it can still be logged for; must match
+// BACKFILL_WINDOW_MS in convex/sync.ts
+export const BACKFILL_WINDOW_HOURS = 48;
+
+/**
+ * Base points for a log that records a quantity, at least 1
+ * Must match calculateQuantityPoints in convex/sync.ts.
+ */
+export function calculateQuantityPoints(formula: QuantityFormula, quantity: number): number {
+    return Math.max(1, Math.round(quantity * formula.pointsPerUnit));
+}
+
+/**
+ * Get the key a habit's streak and daily cap are tracked under
+ * Built-in habits use their type; each custom habit has its own key.
+ * Must match getHabitKey in convex/streaks.ts.
+ */
+export function getHabitKey(habitType: string, customHabitId?: string): string {
+    return customHabitId ? `custom:${customHabitId}` : habitType;
+}
+
+// Earliest and latest log of a calendar day, for streak math
+interface LoggedDay {
+    earliest: DayLog;
+    latest: DayLog;
 }
 
 // ============================================================================
@@ -45,7 +126,7 @@ export interface HabitLog {
 // ============================================================================
 
 class HabitService {
-    private lastLogTimestamp: Map<HabitType, number> = new Map();
+    private lastLogTimestamp: Map<string, number> = new Map();
     private readonly DEBOUNCE_DELAY_MS = 300;
     private readonly DAILY_CAP_PER_CATEGORY = 50;
     private readonly BASE_POINTS_MIN = 5;
@@ -61,45 +142,100 @@ class HabitService {
     /**
      * Log a habit action
      * @param habitType The type of habit being logged
+     * @param options The custom habit, the quantity done if one is recorded,
+     * and the past day to log for when backfilling
      * @returns LogResult with points awarded and status
      */
-    async logHabit(habitType: HabitType): Promise<LogResult> {
+    async logHabit(habitType: HabitType, options: LogHabitOptions = {}): Promise<LogResult> {
+        const { customHabitId, quantity } = options;
+
         try {
+            const habitKey = getHabitKey(habitType, customHabitId);
+
             // Check debouncing
             const now = Date.now();
-            const lastLog = this.lastLogTimestamp.get(habitType);
+            const lastLog = this.lastLogTimestamp.get(habitKey);
 
             if (lastLog && now - lastLog < this.DEBOUNCE_DELAY_MS) {
                 throw new Error('Please wait before logging this habit again');
             }
 
+            // Custom habits score from their own tier
+            const customHabit = customHabitId
+                ? await customHabitService.getCustomHabit(customHabitId)
+                : null;
+            if (habitType === 'custom' && (!customHabit || customHabit.archived)) {
+                throw new Error('Custom habit not found');
+            }
+
+            // Quantities only count for habits with a formula
+            const formula = quantity !== undefined ? QUANTITY_FORMULAS[habitType] : undefined;
+            if (quantity !== undefined) {
+                if (!formula) {
+                    throw new Error('Amounts can\'t be logged for this habit');
+                }
+                if (!Number.isFinite(quantity) || quantity <= 0 || quantity > formula.maxQuantity) {
+                    throw new Error(`Enter an amount up to ${formula.maxQuantity} ${formula.unit}`);
+                }
+            }
+
+            // Pin the log to the calendar day where it was made; a backfill
+            // is stamped with the last moment of its day
+            const timeZone = getDeviceTimeZone();
+            const today = getDayString(now, timeZone);
+            const day = options.day ?? today;
+            if (day !== today && !this.getBackfillDays(now).includes(day)) {
+                throw new Error(
+                    `Habits can only be logged up to ${BACKFILL_WINDOW_HOURS} hours after the day ends`
+                );
+            }
+            const loggedAt = day === today ? now : getDayEndTimestamp(day);
+
             // Check if daily cap is reached
-            const canLog = await this.canLogHabit(habitType);
+            const canLog = await this.canLogHabit(habitType, customHabitId, day);
             if (!canLog) {
-                throw new Error('Today max reached');
+                throw new Error(day === today ? 'Today max reached' : 'Max reached for that day');
             }
 
-            // Calculate base points (random between 5-20)
-            const basePoints = this.calculateBasePoints();
+            // Generate unique ID
+            const logId = uuidv4();
+
+            // Calculate base points: from the quantity when there is one,
+            // otherwise 5-20 (or the custom habit's tier range) seeded from
+            // the log ID
+            const tier = customHabit ? CUSTOM_HABIT_TIERS[customHabit.pointsTier] : null;
+            let basePoints: number;
+            if (formula && quantity !== undefined) {
+                basePoints = calculateQuantityPoints(formula, quantity);
+            } else if (tier) {
+                basePoints = this.calculateBasePoints(logId, tier.min, tier.max);
+            } else {
+                basePoints = this.calculateBasePoints(logId);
+            }
 
             // Get and update streak
-            const streakData = await this.updateStreak(habitType);
+            const streakData = await this.updateStreak(habitKey, logId, loggedAt, timeZone);
             const streakBonus = this.calculateStreakBonus(streakData.current_streak);
 
-            // Total points for this log
-            const pointsAwarded = basePoints + streakBonus;
-
-            // Generate unique ID
-            const logId = uuidv4();
+            // Total points for this log, trimmed to what's left of the
+            // day's cap as the server will
+            const dailyCap = customHabit?.dailyCap ?? this.DAILY_CAP_PER_CATEGORY;
+            const pointsLeft = await this.getDayPointsLeft(habitKey, dailyCap, day);
+            const pointsAwarded = Math.min(basePoints + streakBonus, pointsLeft);
 
             // Create payload
             const payload = {
                 habitType,
+                customHabitId: customHabit?.id,
+                quantity: formula ? quantity : undefined,
+                unit: formula?.unit,
                 pointsAwarded,
-                loggedAt: now,
+                loggedAt,
                 basePoints,
                 streakBonus,
                 currentStreak: streakData.current_streak,
+                timeZone,
+                day,
             };
 
             // Write to SQLite
@@ -111,16 +247,17 @@ class HabitService {
             await updateUserStats({ total_eco_points: newTotal });
 
             // Update debounce timestamp
-            this.lastLogTimestamp.set(habitType, now);
+            this.lastLogTimestamp.set(habitKey, now);
 
             // Check if capped out after this log
-            const cappedOut = !(await this.canLogHabit(habitType));
+            const cappedOut = !(await this.canLogHabit(habitType, customHabitId, day));
 
             return {
                 logId,
                 pointsAwarded,
                 newTotal,
                 streakBonus: streakBonus > 0 ? streakBonus : undefined,
+                freezesUsed: streakData.freezes_used,
                 cappedOut,
             };
         } catch (error) {
@@ -152,16 +289,17 @@ class HabitService {
             const payload = JSON.parse(log.payload_json);
             const pointsAwarded = payload.pointsAwarded || 0;
 
-            // Delete the log
+            // Delete the log and give back any streak freezes it spent
             await deleteHabitLog(logId);
+            await this.refundStreakFreezes(logId);
+
+            // Recount the streak without it, since the log may have extended it
+            await this.recountStreak(getHabitKey(payload.habitType, payload.customHabitId));
 
             // Update user stats (subtract points)
             const userStats = await getUserStats();
             const newTotal = Math.max(0, userStats.total_eco_points - pointsAwarded);
             await updateUserStats({ total_eco_points: newTotal });
-
-            // Note: We don't revert streak data as it's complex and streaks should
-            // generally move forward. The streak will be recalculated on next log.
         } catch (error) {
             const appError = classifyError(error);
             logError(appError, 'HabitService.undoLastLog');
@@ -169,24 +307,50 @@ class HabitService {
         }
     }
 
+    /**
+     * Give back the streak freezes a removed log spent
+     * The days they covered stop bridging the streak; the user never holds
+     * more than MAX_STREAK_FREEZES.
+     * @param logId The ID of the removed log
+     * @returns How many freezes were refunded
+     */
+    async refundStreakFreezes(logId: string): Promise<number> {
+        const refunded = await removeFrozenDaysForLog(logId);
+        if (refunded > 0) {
+            const userStats = await getUserStats();
+            await updateUserStats({
+                streak_freezes: Math.min(
+                    MAX_STREAK_FREEZES,
+                    (userStats.streak_freezes ?? 0) + refunded
+                ),
+            });
+        }
+        return refunded;
+    }
+
     /**
      * Get all habit logs for today
      * @returns Array of today's habit logs
      */
     async getTodayLogs(): Promise<HabitLog[]> {
+        return this.getDayLogs(getDayString(Date.now()));
+    }
+
+    /**
+     * Get all habit logs that count towards a day, including backfills
+     * @param day YYYY-MM-DD
+     */
+    async getDayLogs(day: string): Promise<HabitLog[]> {
         try {
             const database = getDatabase();
 
-            // Get start of today (midnight)
-            const today = new Date();
-            today.setHours(0, 0, 0, 0);
-            const todayStart = today.getTime();
-
+            // Each log counts towards the day stored with it; older logs
+            // without one fall back to their local calendar day
             const logs = await database.getAllAsync<HabitQueueItem>(
                 `SELECT * FROM habits_queue 
-       WHERE created_at >= ? 
+       WHERE COALESCE(json_extract(payload_json, '$.day'), date(created_at / 1000, 'unixepoch', 'localtime')) = ? 
        ORDER BY created_at DESC`,
-                [todayStart]
+                [day]
             );
 
             return logs.map((log) => {
@@ -194,14 +358,17 @@ class HabitService {
                 return {
                     id: log.id,
                     habitType: payload.habitType,
+                    customHabitId: payload.customHabitId,
+                    quantity: payload.quantity,
+                    unit: payload.unit,
                     pointsAwarded: payload.pointsAwarded,
-                    loggedAt: log.created_at,
+                    loggedAt: payload.loggedAt ?? log.created_at,
                     status: log.status,
                 };
             });
         } catch (error) {
             const appError = classifyError(error);
-            logError(appError, 'HabitService.getTodayLogs');
+            logError(appError, 'HabitService.getDayLogs');
             throw error;
         }
     }
@@ -209,11 +376,12 @@ class HabitService {
     /**
      * Get the current streak for a specific habit
      * @param habitType The habit type to check
+     * @param customHabitId The custom habit's id when habitType is 'custom'
      * @returns Current streak count
      */
-    async getStreakForHabit(habitType: HabitType): Promise<number> {
+    async getStreakForHabit(habitType: HabitType, customHabitId?: string): Promise<number> {
         try {
-            const streakData = await getStreakData(habitType);
+            const streakData = await getStreakData(getHabitKey(habitType, customHabitId));
             return streakData?.current_streak || 0;
         } catch (error) {
             const appError = classifyError(error);
@@ -225,23 +393,68 @@ class HabitService {
     /**
      * Check if a habit can be logged (not at daily cap)
      * @param habitType The habit type to check
+     * @param customHabitId The custom habit's id when habitType is 'custom'
+     * @param day The day to check the cap for; defaults to today
      * @returns True if the habit can be logged
      */
-    async canLogHabit(habitType: HabitType): Promise<boolean> {
+    async canLogHabit(
+        habitType: HabitType,
+        customHabitId?: string,
+        day: string = getDayString(Date.now())
+    ): Promise<boolean> {
         try {
-            const todayLogs = await this.getTodayLogs();
+            // Custom habits carry their own cap
+            const customHabit = customHabitId
+                ? await customHabitService.getCustomHabit(customHabitId)
+                : null;
+            const dailyCap = customHabit?.dailyCap ?? this.DAILY_CAP_PER_CATEGORY;
+
+            const pointsLeft = await this.getDayPointsLeft(
+                getHabitKey(habitType, customHabitId),
+                dailyCap,
+                day
+            );
+            return pointsLeft > 0;
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'HabitService.canLogHabit');
+            return true; // Allow logging on error to avoid blocking user
+        }
+    }
 
-            // Filter logs for this habit type
-            const habitLogs = todayLogs.filter((log) => log.habitType === habitType);
+    /**
+     * Get the past days that can still be logged for, newest first
+     * A day stays open until BACKFILL_WINDOW_HOURS after it ends.
+     */
+    getBackfillDays(now: number = Date.now()): string[] {
+        const windowMs = BACKFILL_WINDOW_HOURS * 60 * 60 * 1000;
+        const days: string[] = [];
+
+        let day = addDays(getDayString(now), -1);
+        while (now - getDayEndTimestamp(day) < windowMs) {
+            days.push(day);
+            day = addDays(day, -1);
+        }
 
-            // Calculate total points for this habit today
-            const totalPoints = habitLogs.reduce((sum, log) => sum + log.pointsAwarded, 0);
+        return days;
+    }
+
+    /**
+     * Recompute every habit's streak from the logs in the queue
+     * Used after pulling history from the server, when logs may have been
+     * made on another device. Failed logs never count.
+     */
+    async rebuildStreaks(): Promise<void> {
+        try {
+            const byHabit = await this.getLoggedDays();
 
-            return totalPoints < this.DAILY_CAP_PER_CATEGORY;
+            for (const [habitKey, days] of byHabit) {
+                await this.saveStreakRuns(habitKey, days);
+            }
         } catch (error) {
             const appError = classifyError(error);
-            logError(appError, 'HabitService.canLogHabit');
-            return true; // Allow logging on error to avoid blocking user
+            logError(appError, 'HabitService.rebuildStreaks');
+            throw error;
         }
     }
 
@@ -250,14 +463,53 @@ class HabitService {
     // ========================================================================
 
     /**
-     * Calculate base points (random between 5-20)
+     * Get how many more points a habit can earn on a day
+     * Custom habits are also held to CUSTOM_HABITS_DAILY_CAP between them.
+     * @param habitKey The habit's key (see getHabitKey)
+     * @param dailyCap The habit's own cap
      */
-    private calculateBasePoints(): number {
-        return (
-            Math.floor(
-                Math.random() * (this.BASE_POINTS_MAX - this.BASE_POINTS_MIN + 1)
-            ) + this.BASE_POINTS_MIN
-        );
+    private async getDayPointsLeft(
+        habitKey: string,
+        dailyCap: number,
+        day: string
+    ): Promise<number> {
+        const dayLogs = await this.getDayLogs(day);
+        const sumPoints = (logs: typeof dayLogs) =>
+            logs.reduce((sum, log) => sum + log.pointsAwarded, 0);
+
+        const habitLeft =
+            dailyCap -
+            sumPoints(
+                dayLogs.filter((log) => getHabitKey(log.habitType, log.customHabitId) === habitKey)
+            );
+        if (!habitKey.startsWith('custom:')) {
+            return habitLeft;
+        }
+
+        const customLeft =
+            CUSTOM_HABITS_DAILY_CAP -
+            sumPoints(dayLogs.filter((log) => log.habitType === 'custom'));
+        return Math.min(habitLeft, customLeft);
+    }
+
+    /**
+     * Calculate base points (5-20 by default) deterministically from the log ID
+     * Uses 32-bit FNV-1a; must match calculateBasePoints in convex/sync.ts,
+     * which recomputes the award when the log is synced.
+     */
+    private calculateBasePoints(
+        logId: string,
+        min: number = this.BASE_POINTS_MIN,
+        max: number = this.BASE_POINTS_MAX
+    ): number {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < logId.length; i++) {
+            hash ^= logId.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+
+        const range = max - min + 1;
+        return min + ((hash >>> 0) % range);
     }
 
     /**
@@ -274,62 +526,233 @@ class HabitService {
         return bonus;
     }
 
+    /**
+     * Group the queue's logs by habit key and calendar day
+     * Dead logs, which the server rejected for good, never count towards a
+     * streak. Failed logs still count: they are either waiting on a retry or
+     * conflicts with a copy the server already has.
+     */
+    private async getLoggedDays(): Promise<Map<string, Map<string, LoggedDay>>> {
+        const logs = await getAllHabitLogs();
+        const byHabit = new Map<string, Map<string, LoggedDay>>();
+
+        for (const log of logs) {
+            if (log.status === 'dead') continue;
+
+            const payload = JSON.parse(log.payload_json);
+            const loggedAt = payload.loggedAt ?? log.created_at;
+            const dayLog: DayLog = {
+                day: payload.day ?? getDayString(loggedAt),
+                loggedAt,
+                timeZone: payload.timeZone ?? null,
+            };
+
+            const habitKey = getHabitKey(payload.habitType, payload.customHabitId);
+            const days = byHabit.get(habitKey) ?? new Map();
+            byHabit.set(habitKey, days);
+            this.addLoggedDay(days, dayLog);
+        }
+
+        return byHabit;
+    }
+
+    private addLoggedDay(days: Map<string, LoggedDay>, dayLog: DayLog): void {
+        const seen = days.get(dayLog.day);
+        if (!seen) {
+            days.set(dayLog.day, { earliest: dayLog, latest: dayLog });
+        } else {
+            if (dayLog.loggedAt < seen.earliest.loggedAt) seen.earliest = dayLog;
+            if (dayLog.loggedAt > seen.latest.loggedAt) seen.latest = dayLog;
+        }
+    }
+
+    /**
+     * Recount a habit's streak after one of its logs was removed
+     * The stored streak is replaced rather than merged, so it can go down.
+     */
+    private async recountStreak(habitKey: string): Promise<void> {
+        const days = (await this.getLoggedDays()).get(habitKey);
+        if (!days) {
+            await deleteStreakData(habitKey);
+            return;
+        }
+
+        await this.saveStreakRuns(habitKey, days, true);
+    }
+
+    /**
+     * Recount a habit's streaks from its logged days and store the result
+     * @param replace Overwrite the stored streak instead of merging with it
+     * @returns The length of the run ending on each day
+     */
+    private async saveStreakRuns(
+        habitKey: string,
+        days: Map<string, LoggedDay>,
+        replace: boolean = false
+    ): Promise<Map<string, number>> {
+        const runs = new Map<string, number>();
+        const frozenDays = new Set(await getFrozenDays(habitKey));
+        let currentStreak = 0;
+        let longestStreak = 0;
+        let previous: DayLog | null = null;
+
+        for (const day of [...days.keys()].sort()) {
+            const { earliest, latest } = days.get(day)!;
+            const continues =
+                previous &&
+                (continuesStreak(previous, earliest) ||
+                    this.isBridgedByFreezes(previous.day, earliest.day, frozenDays));
+            currentStreak = continues ? currentStreak + 1 : 1;
+            longestStreak = Math.max(longestStreak, currentStreak);
+            runs.set(day, currentStreak);
+            previous = latest;
+        }
+
+        if (previous) {
+            const streak = {
+                habit_type: habitKey,
+                current_streak: currentStreak,
+                longest_streak: longestStreak,
+                last_logged_date: previous.day,
+                last_logged_at: previous.loggedAt,
+                last_time_zone: previous.timeZone ?? null,
+            };
+            if (replace) {
+                await replaceStreakData(streak);
+            } else {
+                await mergeStreakData(streak);
+            }
+        }
+
+        return runs;
+    }
+
+    /**
+     * Check whether every day between two logged days was covered by a freeze
+     */
+    private isBridgedByFreezes(
+        previousDay: string,
+        nextDay: string,
+        frozenDays: Set<string>
+    ): boolean {
+        let day = addDays(previousDay, 1);
+        if (day >= nextDay) {
+            return false;
+        }
+
+        for (; day < nextDay; day = addDays(day, 1)) {
+            if (!frozenDays.has(day)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Award a streak freeze when a streak reaches a multiple of
+     * STREAK_FREEZE_EVERY_DAYS, unless the user already holds the most
+     */
+    private async earnStreakFreeze(currentStreak: number): Promise<void> {
+        if (currentStreak % STREAK_FREEZE_EVERY_DAYS !== 0) {
+            return;
+        }
+
+        const userStats = await getUserStats();
+        const freezes = userStats.streak_freezes ?? 0;
+        if (freezes < MAX_STREAK_FREEZES) {
+            await updateUserStats({ streak_freezes: freezes + 1 });
+        }
+    }
+
     /**
      * Update streak data for a habit
+     * A backfill before the last logged day may join two runs, so the
+     * habit's streak is recounted from its logs. Missed days are covered by
+     * streak freezes when the user holds enough for all of them.
+     * @param habitKey The habit's key (see getHabitKey)
+     * @param logId The log being recorded, which any freezes are spent for
      */
-    private async updateStreak(habitType: HabitType): Promise<{
+    private async updateStreak(
+        habitKey: string,
+        logId: string,
+        loggedAt: number,
+        timeZone: string
+    ): Promise<{
         current_streak: number;
         last_logged_date: string;
+        freezes_used?: number;
     }> {
-        const today = this.getTodayDateString();
-        const streakData = await getStreakData(habitType);
+        const day = getDayString(loggedAt, timeZone);
+        const streakData = await getStreakData(habitKey);
 
-        if (!streakData) {
+        if (!streakData || !streakData.last_logged_date) {
             // First time logging this habit
-            await updateStreakData(habitType, 1, today);
-            return { current_streak: 1, last_logged_date: today };
+            await updateStreakData(habitKey, 1, day, loggedAt, timeZone);
+            return { current_streak: 1, last_logged_date: day };
         }
 
         const lastLoggedDate = streakData.last_logged_date;
 
-        // Check if already logged today
-        if (lastLoggedDate === today) {
-            // Already logged today, keep current streak
+        if (day < lastLoggedDate) {
+            const days = (await this.getLoggedDays()).get(habitKey) ?? new Map();
+            this.addLoggedDay(days, { day: day, loggedAt, timeZone });
+            const runs = await this.saveStreakRuns(habitKey, days);
+
+            return { current_streak: runs.get(day)!, last_logged_date: lastLoggedDate };
+        }
+
+        // Check if already logged that day
+        if (lastLoggedDate === day) {
+            // Already logged that day, keep current streak
             return {
                 current_streak: streakData.current_streak,
-                last_logged_date: today,
+                last_logged_date: day,
             };
         }
 
-        // Check if logged yesterday (streak continues)
-        const yesterday = this.getYesterdayDateString();
-        if (lastLoggedDate === yesterday) {
+        // Check if logged yesterday, allowing for a day lost to travel
+        const continues = continuesStreak(
+            {
+                day: lastLoggedDate,
+                loggedAt:
+                    streakData.last_logged_at ?? Date.parse(`${lastLoggedDate}T00:00:00.000Z`),
+                timeZone: streakData.last_time_zone,
+            },
+            { day: day, loggedAt, timeZone }
+        );
+        if (continues) {
             // Streak continues
             const newStreak = streakData.current_streak + 1;
-            await updateStreakData(habitType, newStreak, today);
-            return { current_streak: newStreak, last_logged_date: today };
+            await updateStreakData(habitKey, newStreak, day, loggedAt, timeZone);
+            await this.earnStreakFreeze(newStreak);
+            return { current_streak: newStreak, last_logged_date: day };
         }
 
-        // Streak broken, reset to 1
-        await updateStreakData(habitType, 1, today);
-        return { current_streak: 1, last_logged_date: today };
-    }
+        // Spend freezes on the missed days rather than break the streak
+        const missedDays: string[] = [];
+        for (let missed = addDays(lastLoggedDate, 1); missed < day; missed = addDays(missed, 1)) {
+            missedDays.push(missed);
+        }
 
-    /**
-     * Get today's date as YYYY-MM-DD string
-     */
-    private getTodayDateString(): string {
-        const today = new Date();
-        return today.toISOString().split('T')[0];
-    }
+        const userStats = await getUserStats();
+        const freezes = userStats.streak_freezes ?? 0;
+        if (streakData.current_streak > 0 && missedDays.length <= freezes) {
+            await addFrozenDays(habitKey, missedDays, logId);
+            await updateUserStats({ streak_freezes: freezes - missedDays.length });
 
-    /**
-     * Get yesterday's date as YYYY-MM-DD string
-     */
-    private getYesterdayDateString(): string {
-        const yesterday = new Date();
-        yesterday.setDate(yesterday.getDate() - 1);
-        return yesterday.toISOString().split('T')[0];
+            const newStreak = streakData.current_streak + 1;
+            await updateStreakData(habitKey, newStreak, day, loggedAt, timeZone);
+            await this.earnStreakFreeze(newStreak);
+            return {
+                current_streak: newStreak,
+                last_logged_date: day,
+                freezes_used: missedDays.length,
+            };
+        }
+
+        // Streak broken, reset to 1
+        await updateStreakData(habitKey, 1, day, loggedAt, timeZone);
+        return { current_streak: 1, last_logged_date: day };
     }
 }
 
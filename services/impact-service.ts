@@ -0,0 +1,177 @@
+import {
+    IMPACT_FACTOR_TABLES,
+    type ImpactFactorTable,
+    type ImpactValues,
+} from '@/constants/impact-factors';
+import { addDays, getDayString, getPeriodId, type Period } from '@/utils/day';
+import { classifyError, logError } from '@/utils/error-handler';
+import { getDatabase, type HabitQueueItem } from './database';
+
+// ============================================================================
+// Types and Interfaces
+// ============================================================================
+
+export type ImpactPeriod = Period | 'all';
+
+export interface ImpactTotals extends ImpactValues {
+    logCount: number;
+}
+
+export interface HabitImpact extends ImpactTotals {
+    habitType: string;
+}
+
+export interface ImpactReport {
+    period: ImpactPeriod;
+    totals: ImpactTotals;
+    byHabit: HabitImpact[]; // largest CO2 saving first
+}
+
+export interface ImpactEquivalentValue {
+    id: string;
+    label: string;
+    value: number;
+}
+
+// Longest span a day, week or month report can cover, to narrow the query
+const MAX_PERIOD_DAYS = 31;
+
+const emptyTotals = (): ImpactTotals => ({ co2Kg: 0, waterL: 0, wasteKg: 0, logCount: 0 });
+
+/**
+ * Round an impact amount for display: one decimal below 10, whole numbers
+ * above, e.g. 0.4, 12, 1,250
+ */
+export function formatImpactAmount(value: number): string {
+    const rounded = value < 10 ? Math.round(value * 10) / 10 : Math.round(value);
+    return rounded.toLocaleString();
+}
+
+// ============================================================================
+// ImpactService Class
+// ============================================================================
+
+/**
+ * Estimates the environmental impact of logged habits from the factor
+ * tables in constants/impact-factors.ts
+ */
+class ImpactService {
+    /**
+     * Get the factor table in effect on a day
+     */
+    getFactorTable(day: string): ImpactFactorTable {
+        let table = IMPACT_FACTOR_TABLES[0];
+        for (const candidate of IMPACT_FACTOR_TABLES) {
+            if (candidate.effectiveFrom <= day) {
+                table = candidate;
+            }
+        }
+        return table;
+    }
+
+    /**
+     * Estimate the impact of one log
+     * Uses the per-unit factor when the log has a quantity in the same unit.
+     * Habits without factors (such as custom habits) have no impact.
+     */
+    calculateLogImpact(
+        payload: { habitType: string; quantity?: number; unit?: string },
+        day: string
+    ): ImpactValues {
+        const factor = this.getFactorTable(day).factors[payload.habitType];
+        if (!factor) {
+            return { co2Kg: 0, waterL: 0, wasteKg: 0 };
+        }
+
+        const perUnit = factor.perUnit;
+        if (perUnit && payload.quantity !== undefined && perUnit.unit === payload.unit) {
+            return {
+                co2Kg: perUnit.co2Kg * payload.quantity,
+                waterL: perUnit.waterL * payload.quantity,
+                wasteKg: perUnit.wasteKg * payload.quantity,
+            };
+        }
+
+        return { ...factor.perLog };
+    }
+
+    /**
+     * Total the impact of logs in the current day, week or month, or of all
+     * logs ever made. Only synced and pending logs count. That is stricter
+     * than the points total, which also keeps the points of logs waiting on a
+     * retry, and of dead logs until they are discarded.
+     * @param period Which window to total
+     */
+    async getImpactReport(period: ImpactPeriod): Promise<ImpactReport> {
+        try {
+            const database = getDatabase();
+            const today = getDayString(Date.now());
+            const since = period === 'all' ? '' : addDays(today, -MAX_PERIOD_DAYS);
+
+            const logs = await database.getAllAsync<HabitQueueItem>(
+                `SELECT * FROM habits_queue
+       WHERE status IN ('synced', 'pending')
+       AND COALESCE(json_extract(payload_json, '$.day'), date(created_at / 1000, 'unixepoch', 'localtime')) >= ?`,
+                [since]
+            );
+
+            const totals = emptyTotals();
+            const byHabit = new Map<string, HabitImpact>();
+
+            for (const log of logs) {
+                const payload = JSON.parse(log.payload_json);
+                const day = payload.day ?? getDayString(log.created_at);
+
+                if (period !== 'all' && getPeriodId(period, day) !== getPeriodId(period, today)) {
+                    continue;
+                }
+
+                const impact = this.calculateLogImpact(payload, day);
+                const habit = byHabit.get(payload.habitType) ?? {
+                    habitType: payload.habitType,
+                    ...emptyTotals(),
+                };
+                byHabit.set(payload.habitType, habit);
+
+                for (const entry of [totals, habit]) {
+                    entry.co2Kg += impact.co2Kg;
+                    entry.waterL += impact.waterL;
+                    entry.wasteKg += impact.wasteKg;
+                    entry.logCount++;
+                }
+            }
+
+            return {
+                period,
+                totals,
+                byHabit: [...byHabit.values()].sort((a, b) => b.co2Kg - a.co2Kg),
+            };
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'ImpactService.getImpactReport');
+            throw error;
+        }
+    }
+
+    /**
+     * Express impact in everyday terms using the current table's equivalents
+     * Equivalents that round to zero are left out.
+     */
+    getEquivalents(impact: ImpactValues): ImpactEquivalentValue[] {
+        const table = this.getFactorTable(getDayString(Date.now()));
+
+        return table.equivalents
+            .map((equivalent) => ({
+                id: equivalent.id,
+                label: equivalent.label,
+                value: impact[equivalent.metric] / equivalent.perEquivalent,
+            }))
+            .filter((equivalent) => equivalent.value >= 0.1);
+    }
+}
+
+// ============================================================================
+// Export Singleton Instance
+// ============================================================================
+
+export const impactService = new ImpactService();
@@ -0,0 +1,107 @@
+import { api } from '@/convex/_generated/api';
+import { classifyError, logError } from '@/utils/error-handler';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ConvexReactClient } from 'convex/react';
+import { FunctionReturnType } from 'convex/server';
+import * as Linking from 'expo-linking';
+
+// AsyncStorage key for an invite opened before sign-in
+const PENDING_INVITE_KEY = 'econest_pending_invite';
+
+// Route handled by app/invite/[code].tsx
+const INVITE_PATH = 'invite';
+
+export type InviteRedemption = FunctionReturnType<typeof api.invites.redeemInvite>;
+
+/**
+ * Build the deep link for an invite code
+ * econest://invite/<code> in builds; Expo Go substitutes its own prefix.
+ */
+export function buildInviteLink(code: string): string {
+    return Linking.createURL(`${INVITE_PATH}/${code}`);
+}
+
+// ============================================================================
+// InviteService Class
+// ============================================================================
+
+/**
+ * Redeems invite links, holding on to one opened while signed out until
+ * a session exists
+ */
+class InviteService {
+    private convexClient: ConvexReactClient | null = null;
+
+    /**
+     * Share the app's Convex client
+     * This should be called during app initialization
+     */
+    setConvexClient(client: ConvexReactClient): void {
+        this.convexClient = client;
+    }
+
+    /**
+     * Remember an invite to redeem after sign-in (replaces any earlier one)
+     */
+    async queueInvite(code: string): Promise<void> {
+        await AsyncStorage.setItem(PENDING_INVITE_KEY, code);
+    }
+
+    /**
+     * Get the invite waiting for sign-in, if any
+     */
+    async getQueuedInvite(): Promise<string | null> {
+        try {
+            return await AsyncStorage.getItem(PENDING_INVITE_KEY);
+        } catch (error) {
+            console.error('Failed to load pending invite:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Redeem an invite as the signed-in user
+     */
+    async redeemInvite(sessionToken: string, code: string): Promise<InviteRedemption> {
+        if (!this.convexClient) {
+            throw new Error('Convex client not initialized. Call setConvexClient() first.');
+        }
+
+        return await this.convexClient.mutation(api.invites.redeemInvite, {
+            sessionToken,
+            code,
+        });
+    }
+
+    /**
+     * Redeem the invite queued before sign-in
+     * Network failures leave it queued for the next session; any other
+     * failure (expired, used up, own invite) drops it and is rethrown.
+     * @returns The redemption, or null if nothing was redeemed
+     */
+    async redeemQueuedInvite(sessionToken: string): Promise<InviteRedemption | null> {
+        const code = await this.getQueuedInvite();
+        if (!code) return null;
+
+        try {
+            const redemption = await this.redeemInvite(sessionToken, code);
+            await AsyncStorage.removeItem(PENDING_INVITE_KEY);
+            return redemption;
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'InviteService.redeemQueuedInvite');
+
+            if (appError.retryable) {
+                return null;
+            }
+            await AsyncStorage.removeItem(PENDING_INVITE_KEY);
+            throw error;
+        }
+    }
+}
+
+// ============================================================================
+// Export Singleton Instance
+// ============================================================================
+
+export const inviteService = new InviteService();
@@ -1,8 +1,12 @@
+import { api } from '@/convex/_generated/api';
+import { getPeriodId, type LeaderboardPeriod } from '@/utils/day';
 import { classifyError, logError } from '@/utils/error-handler';
 import { ConvexReactClient } from 'convex/react';
+import { isOnline } from './connectivity';
 import {
     cacheLeaderboardData,
     getCachedLeaderboard,
+    getLeaderboardCachedAt,
     getUserStats,
     updateUserStats
 } from './database';
@@ -17,6 +21,8 @@ export interface RankingEntry {
     ecoPoints: number;
     rank: number;
     isAnonymous: boolean;
+    avatarEmoji?: string;
+    avatarColor?: string;
 }
 
 export interface UserRankInfo {
@@ -25,80 +31,35 @@ export interface UserRankInfo {
     ecoPoints: number;
 }
 
-// ============================================================================
-// Network Status Detection
-// ============================================================================
+export type { LeaderboardPeriod };
 
 /**
- * Check if the device is online
- * Uses the browser's navigator.onLine API
+ * What the signed-in user added to their team this week
  */
-export function isOnline(): boolean {
-    if (typeof navigator !== 'undefined' && typeof navigator.onLine === 'boolean') {
-        return navigator.onLine;
-    }
-    // Default to true if we can't determine (native environment)
-    return true;
+export interface TeamContribution {
+    teamId: string;
+    teamName: string;
+    points: number;
 }
 
-/**
- * Add listener for network status changes
- * @param callback Function to call when network status changes
- * @returns Cleanup function to remove listener
- */
-export function addNetworkListener(callback: (online: boolean) => void): () => void {
-    if (typeof window === 'undefined') {
-        // Not in a browser environment, return no-op cleanup
-        return () => { };
-    }
-
-    const handleOnline = () => callback(true);
-    const handleOffline = () => callback(false);
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
+// leaderboard_cache key: a period for global rankings, a friends board, or
+// team rankings (teams are cached as entries keyed by team id)
+type SnapshotKey = LeaderboardPeriod | `friends_${LeaderboardPeriod}` | 'teams';
 
-    return () => {
-        window.removeEventListener('online', handleOnline);
-        window.removeEventListener('offline', handleOffline);
-    };
+interface PeriodStanding {
+    rank: number;
+    ecoPoints: number;
 }
 
 /**
- * Retry a function when connection is restored
- * @param fn Function to retry
- * @param onSuccess Callback when retry succeeds
- * @returns Cleanup function
+ * Called with each rankings update
+ * cachedAt is null for live server data, or when the SQLite snapshot
+ * being shown was saved
  */
-export function retryOnReconnect(
-    fn: () => Promise<void>,
-    onSuccess?: () => void
-): () => void {
-    let cleanup: (() => void) | null = null;
-
-    const handleOnline = async () => {
-        try {
-            await fn();
-            if (onSuccess) {
-                onSuccess();
-            }
-        } catch (error) {
-            console.error('Retry failed:', error);
-        }
-    };
-
-    cleanup = addNetworkListener((online) => {
-        if (online) {
-            handleOnline();
-        }
-    });
-
-    return () => {
-        if (cleanup) {
-            cleanup();
-        }
-    };
-}
+export type RankingsListener = (
+    rankings: RankingEntry[],
+    cachedAt: number | null
+) => void;
 
 // ============================================================================
 // Demo Friends Data
@@ -169,7 +130,10 @@ const DEMO_FRIENDS: RankingEntry[] = [
 
 class LeaderboardService {
     private convexClient: ConvexReactClient | null = null;
-    private previousRank: number | null = null;
+    private sessionToken: string | null = null;
+    private previousRanks = new Map<LeaderboardPeriod, number>();
+    // All-time rank lives in user_stats; period ranks only in memory
+    private periodStandings = new Map<LeaderboardPeriod, PeriodStanding>();
     private unsubscribe: (() => void) | null = null;
 
     /**
@@ -180,15 +144,41 @@ class LeaderboardService {
         this.convexClient = new ConvexReactClient(convexUrl);
     }
 
+    /**
+     * Share an existing Convex client instead of creating one
+     * This should be called during app initialization
+     */
+    setConvexClient(client: ConvexReactClient): void {
+        this.convexClient = client;
+    }
+
+    /**
+     * Set the session token used to look up the signed-in user's rank
+     * Pass null on sign-out
+     */
+    setSessionToken(token: string | null): void {
+        if (token !== this.sessionToken) {
+            // Standings belong to the previous account
+            this.periodStandings.clear();
+            this.previousRanks.clear();
+        }
+        this.sessionToken = token;
+    }
+
     /**
      * Subscribe to global leaderboard rankings with real-time updates
+     * Signed in, the subscription also tracks the user's own rank and
+     * stores it in user_stats. Every update is cached to SQLite per period;
+     * offline, the cached snapshot is delivered instead.
      * @param limit Maximum number of rankings to fetch
      * @param onUpdate Callback function called when rankings update
+     * @param period Day, week, month or all time (default)
      * @returns Unsubscribe function
      */
     subscribeToGlobalRankings(
         limit: number,
-        onUpdate: (rankings: RankingEntry[]) => void
+        onUpdate: RankingsListener,
+        period: LeaderboardPeriod = 'all'
     ): () => void {
         if (!this.convexClient) {
             throw new Error('Convex client not initialized. Call initialize() first.');
@@ -197,71 +187,316 @@ class LeaderboardService {
         // Check if online
         if (!isOnline()) {
             // Load cached data immediately
-            this.getCachedSnapshot().then(onUpdate).catch(console.error);
+            this.deliverCachedSnapshot(onUpdate, period);
             return () => { }; // Return no-op unsubscribe
         }
 
-        // TODO: Replace with actual Convex query subscription once backend is implemented
-        // For now, we'll create a placeholder that simulates real-time updates
-        // In production, this would be:
-        // const unsubscribe = this.convexClient.watchQuery(
-        //   api.leaderboard.getGlobalRankings,
-        //   { limit },
-        //   (result) => {
-        //     if (result) {
-        //       onUpdate(result);
-        //       this.cacheSnapshot(result);
-        //     }
-        //   }
-        // );
-
-        // Placeholder: Load cached data for now
-        this.getCachedSnapshot()
-            .then(onUpdate)
-            .catch((error) => {
-                console.error('Failed to load cached leaderboard:', error);
-                onUpdate([]);
+        this.cleanup();
+
+        const periodArgs = this.getPeriodArgs(period);
+
+        let unsubscribe: () => void;
+        if (this.sessionToken) {
+            const watch = this.convexClient.watchQuery(
+                api.leaderboard.getLeaderboardWithUserPosition,
+                { sessionToken: this.sessionToken, topLimit: limit, ...periodArgs }
+            );
+            unsubscribe = watch.onUpdate(() => {
+                try {
+                    const result = watch.localQueryResult();
+                    if (!result) return;
+                    this.applyServerRankings(
+                        result.topRankings,
+                        result.userRank,
+                        period,
+                        onUpdate
+                    );
+                } catch (error) {
+                    this.handleWatchError(error, period, onUpdate);
+                }
+            });
+        } else {
+            const watch = this.convexClient.watchQuery(
+                api.leaderboard.getRankings,
+                { limit, ...periodArgs }
+            );
+            unsubscribe = watch.onUpdate(() => {
+                try {
+                    const result = watch.localQueryResult();
+                    if (!result) return;
+                    this.applyServerRankings(result, undefined, period, onUpdate);
+                } catch (error) {
+                    this.handleWatchError(error, period, onUpdate);
+                }
             });
+        }
 
+        this.unsubscribe = unsubscribe;
         return () => {
-            // Cleanup subscription
+            unsubscribe();
+            if (this.unsubscribe === unsubscribe) {
+                this.unsubscribe = null;
+            }
         };
     }
 
     /**
      * Get global rankings (one-time fetch, not subscription)
+     * Caches the result and, when signed in, the user's rank.
      * @param limit Maximum number of rankings to fetch
+     * @param period Day, week, month or all time (default)
      * @returns Array of ranking entries
      */
-    async getGlobalRankings(limit: number): Promise<RankingEntry[]> {
+    async getGlobalRankings(
+        limit: number,
+        period: LeaderboardPeriod = 'all'
+    ): Promise<RankingEntry[]> {
         try {
             // Check if online
             if (!isOnline()) {
-                return await this.getCachedSnapshot();
+                return await this.getCachedSnapshot(period);
             }
 
             if (!this.convexClient) {
                 throw new Error('Convex client not initialized. Call initialize() first.');
             }
 
-            // TODO: Replace with actual Convex query once backend is implemented
-            // For now, return cached data
-            // In production, this would be:
-            // const rankings = await this.convexClient.query(api.leaderboard.getGlobalRankings, { limit });
-            // await this.cacheSnapshot(rankings);
-            // return rankings;
+            const periodArgs = this.getPeriodArgs(period);
+
+            if (this.sessionToken) {
+                const result = await this.convexClient.query(
+                    api.leaderboard.getLeaderboardWithUserPosition,
+                    { sessionToken: this.sessionToken, topLimit: limit, ...periodArgs }
+                );
+                if (result) {
+                    await this.storeServerRankings(result.topRankings, result.userRank, period);
+                    return result.topRankings;
+                }
+            }
 
-            return await this.getCachedSnapshot();
+            const rankings = await this.convexClient.query(
+                api.leaderboard.getRankings,
+                { limit, ...periodArgs }
+            );
+            await this.storeServerRankings(rankings, undefined, period);
+            return rankings;
         } catch (error) {
             const appError = classifyError(error);
             logError(appError, 'LeaderboardService.getGlobalRankings');
             // Return cached data as fallback
-            return await this.getCachedSnapshot();
+            return await this.getCachedSnapshot(period);
+        }
+    }
+
+    /**
+     * Get when a period's cached leaderboard snapshot was saved
+     * @returns Timestamp in ms, or null if nothing is cached
+     */
+    async getCachedAt(period: SnapshotKey = 'all'): Promise<number | null> {
+        try {
+            return await getLeaderboardCachedAt(period);
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'LeaderboardService.getCachedAt');
+            return null;
+        }
+    }
+
+    /**
+     * Server arguments selecting a period in the device's own calendar
+     */
+    private getPeriodArgs(period: LeaderboardPeriod) {
+        return period === 'all'
+            ? { period }
+            : { period, periodId: getPeriodId(period) };
+    }
+
+    /**
+     * Cache server rankings and remember the user's standing
+     */
+    private async storeServerRankings(
+        rankings: RankingEntry[],
+        userRank: PeriodStanding | undefined,
+        period: LeaderboardPeriod
+    ): Promise<void> {
+        if (userRank && period !== 'all') {
+            this.periodStandings.set(period, {
+                rank: userRank.rank,
+                ecoPoints: userRank.ecoPoints,
+            });
+        }
+        await this.cacheSnapshot(rankings, userRank?.rank, period);
+    }
+
+    /**
+     * Cache a server update, then hand it to the listener
+     */
+    private async applyServerRankings(
+        rankings: RankingEntry[],
+        userRank: PeriodStanding | undefined,
+        period: LeaderboardPeriod,
+        onUpdate: RankingsListener
+    ): Promise<void> {
+        await this.storeServerRankings(rankings, userRank, period);
+        onUpdate(rankings, null);
+    }
+
+    /**
+     * Fall back to the cached snapshot when a subscription errors
+     */
+    private handleWatchError(
+        error: unknown,
+        period: SnapshotKey,
+        onUpdate: RankingsListener
+    ): void {
+        const appError = classifyError(error);
+        logError(appError, 'LeaderboardService.subscribe');
+        this.deliverCachedSnapshot(onUpdate, period);
+    }
+
+    private async deliverCachedSnapshot(
+        onUpdate: RankingsListener,
+        period: SnapshotKey
+    ): Promise<void> {
+        const [rankings, cachedAt] = await Promise.all([
+            this.getCachedSnapshot(period),
+            this.getCachedAt(period),
+        ]);
+        onUpdate(rankings, cachedAt);
+    }
+
+    /**
+     * Subscribe to rankings among the signed-in user and their friends
+     * Cached separately from global rankings; offline or signed out, the
+     * cached snapshot is delivered instead.
+     * @param onUpdate Callback function called when rankings update
+     * @param period Day, week, month or all time (default)
+     * @returns Unsubscribe function
+     */
+    subscribeToFriendsRankings(
+        onUpdate: RankingsListener,
+        period: LeaderboardPeriod = 'all'
+    ): () => void {
+        if (!this.convexClient) {
+            throw new Error('Convex client not initialized. Call initialize() first.');
+        }
+
+        const cacheKey: SnapshotKey = `friends_${period}`;
+
+        if (!isOnline() || !this.sessionToken) {
+            this.deliverCachedSnapshot(onUpdate, cacheKey);
+            return () => { };
+        }
+
+        const watch = this.convexClient.watchQuery(
+            api.leaderboard.getFriendsRankings,
+            { sessionToken: this.sessionToken, ...this.getPeriodArgs(period) }
+        );
+
+        return watch.onUpdate(async () => {
+            try {
+                const result = watch.localQueryResult();
+                if (!result) return;
+                await this.cacheSnapshot(result, undefined, cacheKey);
+                onUpdate(result, null);
+            } catch (error) {
+                this.handleWatchError(error, cacheKey, onUpdate);
+            }
+        });
+    }
+
+    /**
+     * Subscribe to team rankings by total points
+     * Entries use the team id as userId and the team name as displayName.
+     * Offline, the cached snapshot is delivered instead.
+     * @param onUpdate Callback function called when rankings update
+     * @param limit Maximum number of teams to fetch
+     * @returns Unsubscribe function
+     */
+    subscribeToTeamRankings(onUpdate: RankingsListener, limit: number = 100): () => void {
+        if (!this.convexClient) {
+            throw new Error('Convex client not initialized. Call initialize() first.');
+        }
+
+        if (!isOnline()) {
+            this.deliverCachedSnapshot(onUpdate, 'teams');
+            return () => { };
+        }
+
+        const watch = this.convexClient.watchQuery(api.teams.getTeamRankings, { limit });
+
+        return watch.onUpdate(async () => {
+            try {
+                const result = watch.localQueryResult();
+                if (!result) return;
+                const rankings: RankingEntry[] = result.map((team) => ({
+                    userId: team.teamId,
+                    displayName: team.name,
+                    ecoPoints: team.totalPoints,
+                    rank: team.rank,
+                    isAnonymous: false,
+                }));
+                await this.cacheSnapshot(rankings, undefined, 'teams');
+                onUpdate(rankings, null);
+            } catch (error) {
+                this.handleWatchError(error, 'teams', onUpdate);
+            }
+        });
+    }
+
+    /**
+     * Get the user's contribution to their team this week
+     * Fetched from the server when possible and cached in user_stats;
+     * offline, the cached value is used (zero once the week has rolled over).
+     * @returns The contribution, or null when not in a team
+     */
+    async getTeamContribution(): Promise<TeamContribution | null> {
+        const weekId = getPeriodId('week');
+
+        if (this.convexClient && this.sessionToken && isOnline()) {
+            try {
+                const result = await this.convexClient.query(
+                    api.teams.getMyTeamContribution,
+                    { sessionToken: this.sessionToken, weekId }
+                );
+
+                await updateUserStats({
+                    team_id: result?.teamId ?? null,
+                    team_name: result?.teamName ?? null,
+                    team_week_id: result ? weekId : null,
+                    team_week_points: result?.points ?? null,
+                });
+
+                return result
+                    ? { teamId: result.teamId, teamName: result.teamName, points: result.points }
+                    : null;
+            } catch (error) {
+                const appError = classifyError(error);
+                logError(appError, 'LeaderboardService.getTeamContribution');
+                // Fall back to the cached contribution
+            }
+        }
+
+        try {
+            const stats = await getUserStats();
+            if (!stats.team_id || !stats.team_name) {
+                return null;
+            }
+            return {
+                teamId: stats.team_id,
+                teamName: stats.team_name,
+                points: stats.team_week_id === weekId ? stats.team_week_points ?? 0 : 0,
+            };
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'LeaderboardService.getTeamContribution');
+            return null;
         }
     }
 
     /**
      * Get demo friends rankings with predefined list
+     * Demo mode only; signed-in users get subscribeToFriendsRankings
      * @returns Array of demo friend ranking entries
      */
     async getDemoFriendsRankings(): Promise<RankingEntry[]> {
@@ -302,23 +537,25 @@ class LeaderboardService {
 
     /**
      * Get the current user's rank with delta calculation
+     * @param period Day, week, month or all time (default)
      * @returns User rank information with delta
      */
-    async getUserRank(): Promise<UserRankInfo> {
+    async getUserRank(period: LeaderboardPeriod = 'all'): Promise<UserRankInfo> {
         try {
-            const userStats = await getUserStats();
-            const currentRank = userStats.current_rank || 0;
+            const standing = await this.getStanding(period);
+            const currentRank = standing.rank;
 
             // Calculate delta (change since last check)
-            const delta = this.previousRank !== null ? this.previousRank - currentRank : 0;
+            const previousRank = this.previousRanks.get(period);
+            const delta = previousRank !== undefined ? previousRank - currentRank : 0;
 
             // Update previous rank for next delta calculation
-            this.previousRank = currentRank;
+            this.previousRanks.set(period, currentRank);
 
             return {
                 rank: currentRank,
                 delta,
-                ecoPoints: userStats.total_eco_points,
+                ecoPoints: standing.ecoPoints,
             };
         } catch (error) {
             const appError = classifyError(error);
@@ -335,15 +572,18 @@ class LeaderboardService {
     /**
      * Get the closest competitors (3 users closest in rank)
      * @param count Number of competitors to return (default 3)
+     * @param period Day, week, month or all time (default)
      * @returns Array of closest competitor ranking entries
      */
-    async getClosestCompetitors(count: number = 3): Promise<RankingEntry[]> {
+    async getClosestCompetitors(
+        count: number = 3,
+        period: LeaderboardPeriod = 'all'
+    ): Promise<RankingEntry[]> {
         try {
-            const userStats = await getUserStats();
-            const userRank = userStats.current_rank || 0;
+            const userRank = (await this.getStanding(period)).rank;
 
             // Get all rankings
-            const allRankings = await this.getCachedSnapshot();
+            const allRankings = await this.getCachedSnapshot(period);
 
             if (allRankings.length === 0) {
                 return [];
@@ -390,11 +630,32 @@ class LeaderboardService {
         }
     }
 
+    /**
+     * Get the user's rank and points for a period (rank 0 when unknown)
+     */
+    private async getStanding(period: LeaderboardPeriod): Promise<PeriodStanding> {
+        if (period !== 'all') {
+            return this.periodStandings.get(period) ?? { rank: 0, ecoPoints: 0 };
+        }
+
+        const userStats = await getUserStats();
+        return {
+            rank: userStats.current_rank || 0,
+            ecoPoints: userStats.total_eco_points,
+        };
+    }
+
     /**
      * Cache leaderboard snapshot to SQLite
      * @param rankings Array of ranking entries to cache
+     * @param userRank The signed-in user's rank, if known
+     * @param period Which snapshot to replace (default all-time global)
      */
-    async cacheSnapshot(rankings: RankingEntry[]): Promise<void> {
+    async cacheSnapshot(
+        rankings: RankingEntry[],
+        userRank?: number,
+        period: SnapshotKey = 'all'
+    ): Promise<void> {
         try {
             // Convert to cache entries
             const cacheEntries = rankings.map((entry) => ({
@@ -403,9 +664,19 @@ class LeaderboardService {
                 eco_points: entry.ecoPoints,
                 rank: entry.rank,
                 is_anonymous: entry.isAnonymous ? 1 : 0,
+                avatar_emoji: entry.avatarEmoji,
+                avatar_color: entry.avatarColor,
             }));
 
-            await cacheLeaderboardData(cacheEntries);
+            await cacheLeaderboardData(cacheEntries, period);
+
+            // user_stats only tracks the all-time rank
+            if (period !== 'all') return;
+
+            if (userRank !== undefined) {
+                await updateUserStats({ current_rank: userRank });
+                return;
+            }
 
             // Update user's current rank if they're in the rankings
             const userEntry = rankings.find((entry) => entry.userId === 'current_user');
@@ -421,11 +692,12 @@ class LeaderboardService {
 
     /**
      * Get cached leaderboard snapshot from SQLite
+     * @param period Which snapshot to read (default all-time global)
      * @returns Array of cached ranking entries
      */
-    async getCachedSnapshot(): Promise<RankingEntry[]> {
+    async getCachedSnapshot(period: SnapshotKey = 'all'): Promise<RankingEntry[]> {
         try {
-            const cachedEntries = await getCachedLeaderboard();
+            const cachedEntries = await getCachedLeaderboard(undefined, undefined, period);
 
             return cachedEntries.map((entry) => ({
                 userId: entry.user_id,
@@ -433,6 +705,8 @@ class LeaderboardService {
                 ecoPoints: entry.eco_points,
                 rank: entry.rank,
                 isAnonymous: entry.is_anonymous === 1,
+                avatarEmoji: entry.avatar_emoji ?? undefined,
+                avatarColor: entry.avatar_color ?? undefined,
             }));
         } catch (error) {
             const appError = classifyError(error);
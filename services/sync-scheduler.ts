@@ -0,0 +1,259 @@
+import { classifyError, logError } from '@/utils/error-handler';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, type AppStateStatus } from 'react-native';
+import { addNetworkListener } from './connectivity';
+import { syncService, type SyncResult } from './sync-service';
+
+// AsyncStorage keys for sync settings
+const AUTO_SYNC_KEY = 'econest_auto_sync';
+const SYNC_INTERVAL_KEY = 'econest_sync_interval';
+
+export const DEFAULT_SYNC_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+export const SYNC_INTERVAL_OPTIONS_MS = [
+    5 * 60 * 1000,
+    15 * 60 * 1000,
+    30 * 60 * 1000,
+];
+
+export type SyncTrigger = 'foreground' | 'habit-logged' | 'reconnect' | 'interval';
+
+type SyncListener = (result: SyncResult, trigger: SyncTrigger) => void;
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+/**
+ * Get whether automatic sync is enabled (defaults to true)
+ */
+export async function getAutoSyncSetting(): Promise<boolean> {
+    try {
+        const value = await AsyncStorage.getItem(AUTO_SYNC_KEY);
+        return value !== 'false';
+    } catch (error) {
+        console.error('Failed to load auto sync setting:', error);
+        return true;
+    }
+}
+
+/**
+ * Save whether automatic sync is enabled
+ */
+export async function setAutoSyncSetting(enabled: boolean): Promise<void> {
+    await AsyncStorage.setItem(AUTO_SYNC_KEY, enabled.toString());
+    syncScheduler.setEnabled(enabled);
+}
+
+/**
+ * Get the periodic sync interval in milliseconds
+ */
+export async function getSyncIntervalSetting(): Promise<number> {
+    try {
+        const value = await AsyncStorage.getItem(SYNC_INTERVAL_KEY);
+        const interval = value ? parseInt(value, 10) : NaN;
+        return SYNC_INTERVAL_OPTIONS_MS.includes(interval)
+            ? interval
+            : DEFAULT_SYNC_INTERVAL_MS;
+    } catch (error) {
+        console.error('Failed to load sync interval setting:', error);
+        return DEFAULT_SYNC_INTERVAL_MS;
+    }
+}
+
+/**
+ * Save the periodic sync interval in milliseconds
+ */
+export async function setSyncIntervalSetting(intervalMs: number): Promise<void> {
+    await AsyncStorage.setItem(SYNC_INTERVAL_KEY, intervalMs.toString());
+    syncScheduler.setIntervalMs(intervalMs);
+}
+
+// ============================================================================
+// SyncScheduler Class
+// ============================================================================
+
+/**
+ * Runs background syncs when the app comes to the foreground, shortly
+ * after a habit is logged, when the connection returns and on an interval.
+ * Every trigger goes through the same path, which honors the sync cooldown
+ * and does nothing when auto sync is off or nothing is pending.
+ */
+class SyncScheduler {
+    private readonly LOG_DEBOUNCE_MS = 10 * 1000; // 10 seconds
+    private enabled: boolean = true;
+    private intervalMs: number = DEFAULT_SYNC_INTERVAL_MS;
+    private running: boolean = false;
+    private startCount: number = 0; // tells a start() if it was superseded
+    private intervalTimer: ReturnType<typeof setInterval> | null = null;
+    private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    private cooldownTimer: ReturnType<typeof setTimeout> | null = null;
+    private cleanups: (() => void)[] = [];
+    private listeners = new Set<SyncListener>();
+
+    /**
+     * Start listening for sync triggers
+     * Loads the saved settings first; safe to call more than once. While
+     * running, the scheduler owns reconnect syncs, so the sync service's own
+     * retry-on-reconnect is switched off.
+     */
+    async start(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        const startId = ++this.startCount;
+        syncService.setAutoRetry(false);
+
+        const enabled = await getAutoSyncSetting();
+        const intervalMs = await getSyncIntervalSetting();
+
+        // A stop(), or a stop() and a newer start(), may have happened while
+        // settings were loading
+        if (!this.running || startId !== this.startCount) return;
+
+        this.enabled = enabled;
+        this.intervalMs = intervalMs;
+
+        const appStateSubscription = AppState.addEventListener(
+            'change',
+            (state: AppStateStatus) => {
+                if (state === 'active') {
+                    this.requestSync('foreground');
+                }
+            }
+        );
+        this.cleanups.push(() => appStateSubscription.remove());
+
+        this.cleanups.push(
+            addNetworkListener((online) => {
+                if (online) {
+                    this.requestSync('reconnect');
+                }
+            })
+        );
+
+        this.startInterval();
+
+        // Catch up on anything queued while the app was closed
+        this.requestSync('foreground');
+    }
+
+    /**
+     * Stop all triggers (e.g. on sign-out)
+     */
+    stop(): void {
+        this.running = false;
+        this.startCount++;
+        this.cleanups.forEach((cleanup) => cleanup());
+        this.cleanups = [];
+        this.clearTimers();
+        syncService.setAutoRetry(true);
+    }
+
+    /**
+     * Turn automatic sync on or off without tearing down listeners
+     */
+    setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        if (!enabled) {
+            this.clearTimers();
+        } else if (this.running) {
+            this.startInterval();
+        }
+    }
+
+    /**
+     * Change how often the periodic sync runs
+     */
+    setIntervalMs(intervalMs: number): void {
+        this.intervalMs = intervalMs;
+        if (this.running && this.enabled) {
+            this.startInterval();
+        }
+    }
+
+    /**
+     * Tell the scheduler a habit was logged; syncs once logging goes quiet
+     */
+    notifyHabitLogged(): void {
+        if (!this.running || !this.enabled) return;
+
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = null;
+            this.requestSync('habit-logged');
+        }, this.LOG_DEBOUNCE_MS);
+    }
+
+    /**
+     * Subscribe to results of scheduled syncs
+     * @returns Cleanup function to remove the listener
+     */
+    addListener(listener: SyncListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Run a sync now if auto sync allows it
+     */
+    private async requestSync(trigger: SyncTrigger): Promise<void> {
+        if (!this.running || !this.enabled || syncService.isSyncing()) return;
+
+        // Defer until the cooldown ends rather than dropping the request
+        if (syncService.isOnCooldown()) {
+            if (!this.cooldownTimer) {
+                this.cooldownTimer = setTimeout(() => {
+                    this.cooldownTimer = null;
+                    this.requestSync(trigger);
+                }, syncService.getRemainingCooldown() * 1000);
+            }
+            return;
+        }
+
+        try {
+            const unsyncedCount = await syncService.getUnsyncedCount();
+            if (unsyncedCount === 0) return;
+
+            const result = await syncService.syncPendingItems();
+            this.listeners.forEach((listener) => listener(result, trigger));
+        } catch (error) {
+            // Offline or signed out: items stay queued for the next trigger
+            const appError = classifyError(error);
+            logError(appError, `SyncScheduler.${trigger}`);
+        }
+    }
+
+    private startInterval(): void {
+        if (this.intervalTimer) {
+            clearInterval(this.intervalTimer);
+        }
+        this.intervalTimer = setInterval(
+            () => this.requestSync('interval'),
+            this.intervalMs
+        );
+    }
+
+    private clearTimers(): void {
+        if (this.intervalTimer) {
+            clearInterval(this.intervalTimer);
+            this.intervalTimer = null;
+        }
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
+        if (this.cooldownTimer) {
+            clearTimeout(this.cooldownTimer);
+            this.cooldownTimer = null;
+        }
+    }
+}
+
+// ============================================================================
+// Export Singleton Instance
+// ============================================================================
+
+export const syncScheduler = new SyncScheduler();
@@ -1,14 +1,30 @@
 import { classifyError, logError } from '@/utils/error-handler';
+import { isOnline, retryOnReconnect } from './connectivity';
 import {
+    countPendingHabitLogs,
+    deleteHabitLog,
+    getDeadHabitLogs,
     getUnsyncedCount as dbGetUnsyncedCount,
+    getUnsyncedCustomHabits,
     getDatabase,
+    getUnsyncedPointsTotal,
     getPendingHabitLogs,
     getUserStats,
+    markCustomHabitSynced,
+    markHabitLogDead,
+    mergeCustomHabit,
+    mergeStreakData,
+    requeueDueHabitLogs,
+    resetHabitLogForRetry,
+    scheduleHabitLogRetry,
+    updateHabitLogPayload,
     updateHabitLogStatus,
     updateLastSyncTimestamp,
+    updateUserStats,
+    upsertSyncedHabitLog,
     type HabitQueueItem,
 } from './database';
-import { isOnline, retryOnReconnect } from './leaderboard-service';
+import { habitService } from './habit-service';
 
 // ============================================================================
 // Types and Interfaces
@@ -19,11 +35,16 @@ export interface SyncItem {
     type: 'habit';
     payload: {
         habitType: string;
+        customHabitId?: string; // set when habitType is 'custom'
+        quantity?: number;
+        unit?: string;
         pointsAwarded: number;
         loggedAt: number;
         basePoints?: number;
         streakBonus?: number;
         currentStreak?: number;
+        timeZone?: string;
+        day?: string;
     };
     createdAt: number;
 }
@@ -34,10 +55,16 @@ export interface SyncItemResult {
     serverId?: string; // Convex document ID
     message?: string;
     retryAfter?: number; // seconds
-    serverData?: any; // for conflicts
+    retryable?: boolean; // errors only
+    serverData?: ServerLogData; // for conflicts
+    pointsAwarded?: number; // server-validated award for accepted items
+    basePoints?: number;
+    streakBonus?: number;
+    currentStreak?: number;
 }
 
 export interface SyncRequest {
+    sessionToken: string;
     items: SyncItem[];
 }
 
@@ -45,21 +72,89 @@ export interface SyncResponse {
     results: SyncItemResult[];
 }
 
+export interface ServerStreak {
+    habitType: string;
+    currentStreak: number;
+    longestStreak: number;
+    lastLoggedDate: string;
+    lastLoggedAt?: number;
+    lastTimeZone?: string;
+}
+
+export interface ServerHabitLog {
+    serverId: string;
+    clientId: string;
+    habitType: string;
+    customHabitId?: string;
+    quantity?: number;
+    unit?: string;
+    pointsAwarded: number;
+    loggedAt: number;
+    timeZone?: string;
+    day: string;
+}
+
+export interface PullResponse {
+    logs: ServerHabitLog[];
+    cursor: number;
+    hasMore: boolean;
+    totalPoints: number;
+    streakFreezes: number;
+}
+
+export interface PullResult {
+    downloaded: number;
+    totalPoints: number;
+}
+
 export interface SyncResult {
     uploaded: number;
     conflicts: ConflictItem[];
     errors: ErrorItem[];
+    remaining: number; // items still pending when the sync stopped
+}
+
+export interface SyncProgress {
+    processed: number;
+    total: number;
 }
 
 export interface ConflictItem {
     id: string;
     localData: any;
-    serverData: any;
+    serverData?: ServerLogData;
+}
+
+export interface ServerLogData {
+    serverId: string;
+    habitType: string;
+    customHabitId?: string;
+    quantity?: number;
+    unit?: string;
+    pointsAwarded: number;
+    loggedAt: number;
+    timeZone?: string;
+    day?: string;
 }
 
+export interface ServerCustomHabit {
+    habitId: string;
+    name: string;
+    emoji: string;
+    color: string;
+    pointsTier: 'small' | 'medium' | 'large';
+    dailyCap: number;
+    archived: boolean;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type ConflictResolution = 'local' | 'server' | 'merge';
+
 export interface ErrorItem {
     id: string;
     message: string;
+    nextAttemptAt?: number; // set when the item will be retried automatically
 }
 
 // ============================================================================
@@ -69,10 +164,15 @@ export interface ErrorItem {
 class SyncService {
     private lastSyncTimestamp: number = 0;
     private readonly SYNC_COOLDOWN_MS = 5000; // 5 seconds
-    private readonly MAX_BATCH_SIZE = 50;
+    private readonly MAX_BATCH_SIZE = 50; // must match convex/sync.ts
+    private readonly MAX_SYNC_ATTEMPTS = 5; // then the item is dead-lettered
+    private readonly RETRY_BASE_DELAY_MS = 30 * 1000; // 30 seconds
+    private readonly RETRY_MAX_DELAY_MS = 60 * 60 * 1000; // 1 hour
     private convexClient: any = null; // Will be set via setConvexClient
+    private sessionToken: string | null = null; // Will be set via setSessionToken
     private retryCleanup: (() => void) | null = null;
     private autoRetryEnabled: boolean = true;
+    private syncing: boolean = false;
 
     /**
      * Set the Convex client instance
@@ -82,18 +182,61 @@ class SyncService {
         this.convexClient = client;
     }
 
+    /**
+     * Set the session token used to authenticate sync requests
+     * Pass null on sign-out
+     */
+    setSessionToken(token: string | null): void {
+        this.sessionToken = token;
+    }
+
     /**
      * Enable or disable automatic retry on reconnection
+     * Disabling drops any retry already waiting for the connection.
      */
     setAutoRetry(enabled: boolean): void {
         this.autoRetryEnabled = enabled;
+        if (!enabled) {
+            this.clearAutoRetry();
+        }
     }
 
     /**
-     * Sync pending items to the Convex backend
+     * Sync every pending item to the Convex backend in batches
+     * If a batch fails after earlier ones succeeded, stops and returns what
+     * was uploaded; the rest stays pending for the next sync.
+     * @param onProgress Called after each batch with items processed so far
      * @returns SyncResult with upload statistics
      */
-    async syncPendingItems(): Promise<SyncResult> {
+    async syncPendingItems(
+        onProgress?: (progress: SyncProgress) => void
+    ): Promise<SyncResult> {
+        // Two overlapping drains would upload the same items twice
+        if (this.syncing) {
+            throw new Error('Sync already in progress');
+        }
+
+        this.syncing = true;
+        try {
+            return await this.drainQueue(onProgress);
+        } finally {
+            this.syncing = false;
+        }
+    }
+
+    /**
+     * Check whether a sync is currently running
+     */
+    isSyncing(): boolean {
+        return this.syncing;
+    }
+
+    /**
+     * Upload pending items batch by batch (see syncPendingItems)
+     */
+    private async drainQueue(
+        onProgress?: (progress: SyncProgress) => void
+    ): Promise<SyncResult> {
         try {
             // Check if online first
             if (!isOnline()) {
@@ -118,61 +261,109 @@ class SyncService {
                 throw new Error('Convex client not configured. Call setConvexClient() first.');
             }
 
-            // Get pending items (limited to batch size)
-            const pendingLogs = await getPendingHabitLogs(this.MAX_BATCH_SIZE);
+            if (!this.sessionToken) {
+                throw new Error('Not signed in — saved locally');
+            }
+
+            // Logs of a custom habit are rejected until the server has it
+            await this.pushCustomHabits();
 
-            if (pendingLogs.length === 0) {
+            // Give failed items whose backoff has expired another go
+            await requeueDueHabitLogs();
+
+            const total = await countPendingHabitLogs();
+
+            if (total === 0) {
                 return {
                     uploaded: 0,
                     conflicts: [],
                     errors: [],
+                    remaining: 0,
                 };
             }
 
-            // Convert to sync items
-            const syncItems: SyncItem[] = pendingLogs.map((log) => ({
-                id: log.id,
-                type: 'habit' as const,
-                payload: JSON.parse(log.payload_json),
-                createdAt: log.created_at,
-            }));
-
-            // Prepare request
-            const request: SyncRequest = {
-                items: syncItems,
+            const result: SyncResult = {
+                uploaded: 0,
+                conflicts: [],
+                errors: [],
+                remaining: total,
             };
+            const attempted = new Set<string>();
+            let processed = 0;
 
-            try {
-                // Call Convex sync mutation
-                const response: SyncResponse = await this.convexClient.mutation(
-                    'sync:syncBatch',
-                    request
+            onProgress?.({ processed, total });
+
+            // Drain the queue one batch at a time; each batch is committed
+            // locally before the next is sent
+            while (true) {
+                const pendingLogs = (await getPendingHabitLogs(this.MAX_BATCH_SIZE)).filter(
+                    (log) => !attempted.has(log.id)
                 );
 
-                // Process results
-                const result = await this.processResults(response.results);
+                if (pendingLogs.length === 0) {
+                    break;
+                }
 
-                // Update last sync timestamp
-                this.lastSyncTimestamp = now;
-                await updateLastSyncTimestamp();
+                pendingLogs.forEach((log) => attempted.add(log.id));
 
-                // Clear any pending retry
-                this.clearAutoRetry();
+                // Convert to sync items
+                const syncItems: SyncItem[] = pendingLogs.map((log) => ({
+                    id: log.id,
+                    type: 'habit' as const,
+                    payload: JSON.parse(log.payload_json),
+                    createdAt: log.created_at,
+                }));
 
-                return result;
-            } catch (error) {
-                // Network or server error
-                const appError = classifyError(error);
-                logError(appError, 'SyncService.syncPendingItems');
+                // Prepare request
+                const request: SyncRequest = {
+                    sessionToken: this.sessionToken,
+                    items: syncItems,
+                };
 
-                // Don't mark items as failed - keep them pending for retry
-                // Only set up auto-retry if enabled
-                if (this.autoRetryEnabled) {
-                    this.setupAutoRetry();
+                let response: SyncResponse;
+                try {
+                    // Call Convex sync mutation
+                    response = await this.convexClient.mutation('sync:syncBatch', request);
+                } catch (error) {
+                    // Network or server error
+                    const appError = classifyError(error);
+                    logError(appError, 'SyncService.syncPendingItems');
+
+                    // Don't mark items as failed - keep them pending for retry
+                    // Only set up auto-retry if enabled
+                    if (this.autoRetryEnabled) {
+                        this.setupAutoRetry();
+                    }
+
+                    if (processed === 0) {
+                        throw new Error('No connection — saved locally');
+                    }
+
+                    // Earlier batches are already committed; report what made it
+                    break;
                 }
 
-                throw new Error('No connection — saved locally');
+                // Process results
+                const batchResult = await this.processResults(response.results);
+                result.uploaded += batchResult.uploaded;
+                result.conflicts.push(...batchResult.conflicts);
+                result.errors.push(...batchResult.errors);
+
+                processed += pendingLogs.length;
+                result.remaining = Math.max(0, total - processed);
+                onProgress?.({ processed: Math.min(processed, total), total });
+            }
+
+            // Update last sync timestamp
+            this.lastSyncTimestamp = Date.now();
+            await updateLastSyncTimestamp();
+
+            // Clear any pending retry once everything is through
+            if (result.remaining === 0) {
+                this.clearAutoRetry();
             }
+
+            return result;
         } catch (error) {
             const appError = classifyError(error);
             logError(appError, 'SyncService.syncPendingItems');
@@ -212,6 +403,199 @@ class SyncService {
         }
     }
 
+    /**
+     * Download habit logs made on other devices since the last pull
+     * Merges them into habits_queue as synced rows, then recomputes the
+     * local points total and streaks.
+     * @returns PullResult with the number of new logs
+     */
+    async pullChanges(): Promise<PullResult> {
+        try {
+            if (!isOnline()) {
+                throw new Error('No connection — showing local history');
+            }
+
+            if (!this.convexClient) {
+                throw new Error('Convex client not configured. Call setConvexClient() first.');
+            }
+
+            if (!this.sessionToken) {
+                throw new Error('Not signed in');
+            }
+
+            // Habits defined elsewhere, so their logs show up by name
+            await this.pullCustomHabits();
+
+            let cursor = (await getUserStats()).pull_cursor || 0;
+            let serverTotal = 0;
+            let serverFreezes = 0;
+            let downloaded = 0;
+            let hasMore = true;
+
+            while (hasMore) {
+                const response: PullResponse = await this.convexClient.query(
+                    'sync:getChangesSince',
+                    { sessionToken: this.sessionToken, cursor }
+                );
+
+                for (const log of response.logs) {
+                    const inserted = await upsertSyncedHabitLog(
+                        log.clientId,
+                        'habit',
+                        {
+                            habitType: log.habitType,
+                            customHabitId: log.customHabitId,
+                            quantity: log.quantity,
+                            unit: log.unit,
+                            pointsAwarded: log.pointsAwarded,
+                            loggedAt: log.loggedAt,
+                            timeZone: log.timeZone,
+                            day: log.day,
+                        },
+                        log.serverId,
+                        log.loggedAt
+                    );
+                    if (inserted) downloaded++;
+                }
+
+                // Save progress per page so an interrupted pull resumes
+                cursor = response.cursor;
+                await updateUserStats({ pull_cursor: cursor });
+
+                serverTotal = response.totalPoints;
+                serverFreezes = response.streakFreezes;
+                hasMore = response.hasMore;
+            }
+
+            // The server total covers every synced log; add what it hasn't
+            // counted yet, including logs waiting on a retry or a discard
+            const totalPoints = serverTotal + (await getUnsyncedPointsTotal());
+            await updateUserStats({ total_eco_points: totalPoints });
+
+            // Queued logs may still spend or earn freezes, so only take the
+            // server's count once they are all uploaded
+            if ((await dbGetUnsyncedCount()) === 0) {
+                await updateUserStats({ streak_freezes: serverFreezes });
+            }
+
+            await habitService.rebuildStreaks();
+            await this.pullStreaks();
+
+            return { downloaded, totalPoints };
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'SyncService.pullChanges');
+            throw error;
+        }
+    }
+
+    /**
+     * Upload custom habits created or edited on this device
+     * Failures leave them unsynced for the next attempt.
+     * @returns Number of habits uploaded
+     */
+    async pushCustomHabits(): Promise<number> {
+        if (!this.convexClient || !this.sessionToken) {
+            return 0;
+        }
+
+        let uploaded = 0;
+        for (const habit of await getUnsyncedCustomHabits()) {
+            try {
+                await this.convexClient.mutation('customHabits:saveCustomHabit', {
+                    sessionToken: this.sessionToken,
+                    habitId: habit.id,
+                    name: habit.name,
+                    emoji: habit.emoji,
+                    color: habit.color,
+                    pointsTier: habit.points_tier,
+                    dailyCap: habit.daily_cap,
+                    archived: habit.archived === 1,
+                    updatedAt: habit.updated_at,
+                });
+                await markCustomHabitSynced(habit.id, habit.updated_at);
+                uploaded++;
+            } catch (error) {
+                const appError = classifyError(error);
+                logError(appError, 'SyncService.pushCustomHabits');
+            }
+        }
+
+        return uploaded;
+    }
+
+    /**
+     * Download custom habits, including ones defined on other devices
+     * @returns Number of habits merged
+     */
+    async pullCustomHabits(): Promise<number> {
+        if (!this.convexClient || !this.sessionToken) {
+            return 0;
+        }
+
+        try {
+            const habits: ServerCustomHabit[] = await this.convexClient.query(
+                'customHabits:listCustomHabits',
+                { sessionToken: this.sessionToken }
+            );
+
+            for (const habit of habits) {
+                await mergeCustomHabit({
+                    id: habit.habitId,
+                    name: habit.name,
+                    emoji: habit.emoji,
+                    color: habit.color,
+                    points_tier: habit.pointsTier,
+                    daily_cap: habit.dailyCap,
+                    archived: habit.archived ? 1 : 0,
+                    created_at: habit.createdAt,
+                    updated_at: habit.updatedAt,
+                });
+            }
+
+            return habits.length;
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'SyncService.pullCustomHabits');
+            return 0; // Custom habits already on this device still work
+        }
+    }
+
+    /**
+     * Seed the local streaks table from the server
+     * Called after sign-in so a reinstall or new device keeps its streaks
+     * @returns Number of streaks merged
+     */
+    async pullStreaks(): Promise<number> {
+        if (!this.convexClient || !this.sessionToken) {
+            return 0;
+        }
+
+        try {
+            const streaks: ServerStreak[] = await this.convexClient.query(
+                'streaks:getStreaks',
+                { sessionToken: this.sessionToken }
+            );
+
+            for (const streak of streaks) {
+                await mergeStreakData({
+                    habit_type: streak.habitType,
+                    current_streak: streak.currentStreak,
+                    longest_streak: streak.longestStreak,
+                    last_logged_date: streak.lastLoggedDate,
+                    last_logged_at: streak.lastLoggedAt,
+                    last_time_zone: streak.lastTimeZone,
+                });
+            }
+
+            return streaks.length;
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'SyncService.pullStreaks');
+            return 0; // Local streaks still work offline
+        }
+    }
+
     /**
      * Get count of unsynced items
      * @returns Number of pending items
@@ -248,12 +632,18 @@ class SyncService {
 
     /**
      * Handle conflict resolution for a specific item
+     * - 'server': adopt the server's copy locally and fix the points total
+     * - 'local': overwrite the server's copy with this device's version
+     * - 'merge': combine both versions into the server's copy and push the
+     *   result over it
      * @param itemId The ID of the conflicting item
-     * @param resolution Whether to keep local or use server data
+     * @param resolution How to resolve the conflict
+     * @param serverData The server's copy, as returned with the conflict
      */
     async handleConflict(
         itemId: string,
-        resolution: 'local' | 'server'
+        resolution: ConflictResolution,
+        serverData?: ServerLogData
     ): Promise<void> {
         try {
             const database = getDatabase();
@@ -269,16 +659,21 @@ class SyncService {
             }
 
             if (resolution === 'local') {
-                // Keep local: mark as pending to retry sync
-                await database.runAsync(
-                    'UPDATE habits_queue SET status = ?, error_message = NULL WHERE id = ?',
-                    ['pending', itemId]
-                );
+                await this.overwriteServerCopy(item, JSON.parse(item.payload_json));
             } else {
-                // Use server: mark as synced (server wins)
-                // Note: In a real implementation, we might need to fetch and apply server data
-                await updateHabitLogStatus(itemId, 'synced', undefined, 'Resolved: used server data');
+                if (!serverData) {
+                    throw new Error('Server copy unavailable — sync again to reload it');
+                }
+
+                if (resolution === 'merge') {
+                    const merged = this.mergeLogVersions(JSON.parse(item.payload_json), serverData);
+                    await this.overwriteServerCopy(item, merged);
+                } else {
+                    await this.adoptServerCopy(item, serverData);
+                }
             }
+
+            await habitService.rebuildStreaks();
         } catch (error) {
             const appError = classifyError(error);
             logError(appError, 'SyncService.handleConflict');
@@ -286,6 +681,69 @@ class SyncService {
         }
     }
 
+    /**
+     * Get items that failed permanently and need the user's attention
+     * @returns Dead-lettered queue items, newest first
+     */
+    async getFailedItems(): Promise<HabitQueueItem[]> {
+        try {
+            return await getDeadHabitLogs();
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'SyncService.getFailedItems');
+            return [];
+        }
+    }
+
+    /**
+     * Put a dead item back in the queue for the next sync
+     * @param itemId The ID of the failed item
+     */
+    async retryFailedItem(itemId: string): Promise<void> {
+        try {
+            await resetHabitLogForRetry(itemId);
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'SyncService.retryFailedItem');
+            throw error;
+        }
+    }
+
+    /**
+     * Drop a dead item, take back the points it was given locally and
+     * refund any streak freezes it spent
+     * @param itemId The ID of the failed item
+     */
+    async discardFailedItem(itemId: string): Promise<void> {
+        try {
+            const database = getDatabase();
+            const item = await database.getFirstAsync<HabitQueueItem>(
+                'SELECT * FROM habits_queue WHERE id = ?',
+                [itemId]
+            );
+
+            if (!item) {
+                throw new Error('Failed item not found');
+            }
+
+            const payload = JSON.parse(item.payload_json);
+            await deleteHabitLog(itemId);
+            await habitService.refundStreakFreezes(itemId);
+
+            const userStats = await getUserStats();
+            await updateUserStats({
+                total_eco_points: Math.max(
+                    0,
+                    userStats.total_eco_points - (payload.pointsAwarded || 0)
+                ),
+            });
+        } catch (error) {
+            const appError = classifyError(error);
+            logError(appError, 'SyncService.discardFailedItem');
+            throw error;
+        }
+    }
+
     /**
      * Get remaining cooldown time in seconds
      * @returns Seconds remaining, or 0 if no cooldown
@@ -320,10 +778,187 @@ class SyncService {
     // Private Helper Methods
     // ========================================================================
 
+    /**
+     * Apply the server-validated points to a local log and the running total
+     * The server is authoritative, so any difference from the optimistic
+     * local award is corrected here.
+     */
+    private async reconcileAwardedPoints(result: SyncItemResult): Promise<void> {
+        if (result.pointsAwarded === undefined) {
+            return;
+        }
+
+        const database = getDatabase();
+        const localItem = await database.getFirstAsync<HabitQueueItem>(
+            'SELECT * FROM habits_queue WHERE id = ?',
+            [result.id]
+        );
+
+        if (!localItem) {
+            return;
+        }
+
+        const payload = JSON.parse(localItem.payload_json);
+        const delta = result.pointsAwarded - (payload.pointsAwarded || 0);
+
+        await updateHabitLogPayload(result.id, {
+            ...payload,
+            pointsAwarded: result.pointsAwarded,
+            basePoints: result.basePoints ?? payload.basePoints,
+            streakBonus: result.streakBonus ?? payload.streakBonus,
+            currentStreak: result.currentStreak ?? payload.currentStreak,
+        });
+
+        if (delta !== 0) {
+            const userStats = await getUserStats();
+            await updateUserStats({
+                total_eco_points: Math.max(0, userStats.total_eco_points + delta),
+            });
+        }
+    }
+
+    /**
+     * Replace a local log with the server's copy and adjust the points total
+     */
+    private async adoptServerCopy(
+        item: HabitQueueItem,
+        serverData: ServerLogData
+    ): Promise<void> {
+        const payload = JSON.parse(item.payload_json);
+        const delta = serverData.pointsAwarded - (payload.pointsAwarded || 0);
+
+        await updateHabitLogPayload(item.id, {
+            habitType: serverData.habitType,
+            customHabitId: serverData.customHabitId,
+            quantity: serverData.quantity,
+            unit: serverData.unit,
+            pointsAwarded: serverData.pointsAwarded,
+            loggedAt: serverData.loggedAt,
+            timeZone: serverData.timeZone,
+            day: serverData.day,
+        });
+        await updateHabitLogStatus(item.id, 'synced', serverData.serverId);
+
+        if (delta !== 0) {
+            const userStats = await getUserStats();
+            await updateUserStats({
+                total_eco_points: Math.max(0, userStats.total_eco_points + delta),
+            });
+        }
+    }
+
+    /**
+     * Combine both versions of a log, based on the server's copy
+     * The server's time and day are kept, so the log stays on its day and
+     * any freezes it spent carry over. An amount only one version recorded
+     * is kept; if both did in the same unit the larger wins, so merging two
+     * identical copies changes nothing.
+     */
+    private mergeLogVersions(localPayload: any, serverData: ServerLogData): any {
+        const useLocalAmount =
+            serverData.quantity === undefined ||
+            (localPayload.quantity !== undefined &&
+                localPayload.unit === serverData.unit &&
+                localPayload.quantity > serverData.quantity);
+
+        return {
+            ...localPayload,
+            habitType: serverData.habitType,
+            customHabitId: serverData.customHabitId,
+            quantity: useLocalAmount ? localPayload.quantity : serverData.quantity,
+            unit: useLocalAmount ? localPayload.unit : serverData.unit,
+            loggedAt: serverData.loggedAt,
+            timeZone: serverData.timeZone,
+            day: serverData.day,
+        };
+    }
+
+    /**
+     * Push a version of a log over the server's copy
+     * @param payload The version to keep, e.g. this device's or a merge
+     */
+    private async overwriteServerCopy(item: HabitQueueItem, payload: any): Promise<void> {
+        if (!isOnline()) {
+            throw new Error('No connection — try again when online');
+        }
+
+        if (!this.convexClient) {
+            throw new Error('Convex client not configured. Call setConvexClient() first.');
+        }
+
+        if (!this.sessionToken) {
+            throw new Error('Not signed in');
+        }
+
+        const syncItem: SyncItem = {
+            id: item.id,
+            type: 'habit',
+            payload,
+            createdAt: item.created_at,
+        };
+
+        const result: SyncItemResult = await this.convexClient.mutation(
+            'sync:overwriteHabitLog',
+            { sessionToken: this.sessionToken, item: syncItem }
+        );
+
+        // Keep the version the server now has, then adopt its fresh award
+        // before marking as synced
+        await updateHabitLogPayload(item.id, payload);
+        await this.reconcileAwardedPoints(result);
+        await updateHabitLogStatus(item.id, 'synced', result.serverId);
+    }
+
+    /**
+     * Schedule a retry for an item the server rejected, or dead-letter it
+     * Non-retryable errors and items out of attempts are dead immediately.
+     * @returns When the item will next be tried, or null if it is dead
+     */
+    private async scheduleRetry(
+        result: SyncItemResult,
+        message: string
+    ): Promise<number | null> {
+        const database = getDatabase();
+        const item = await database.getFirstAsync<{ attempts: number }>(
+            'SELECT attempts FROM habits_queue WHERE id = ?',
+            [result.id]
+        );
+        const attempts = (item?.attempts ?? 0) + 1;
+
+        if (!result.retryable || attempts >= this.MAX_SYNC_ATTEMPTS) {
+            await markHabitLogDead(result.id, message);
+            return null;
+        }
+
+        const nextAttemptAt = Date.now() + this.getRetryDelay(attempts, result.retryAfter);
+        await scheduleHabitLogRetry(result.id, message, nextAttemptAt);
+        return nextAttemptAt;
+    }
+
+    /**
+     * Exponential backoff with jitter: 30s, 1m, 2m, ... capped at 1 hour
+     * A server-supplied retryAfter (seconds) takes precedence.
+     */
+    private getRetryDelay(attempts: number, retryAfter?: number): number {
+        if (retryAfter !== undefined && retryAfter > 0) {
+            return retryAfter * 1000;
+        }
+
+        const delay = Math.min(
+            this.RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1),
+            this.RETRY_MAX_DELAY_MS
+        );
+
+        // +/-20% so devices that failed together don't retry together
+        return Math.round(delay * (0.8 + Math.random() * 0.4));
+    }
+
     /**
      * Process sync results and update database
      */
-    private async processResults(results: SyncItemResult[]): Promise<SyncResult> {
+    private async processResults(
+        results: SyncItemResult[]
+    ): Promise<Omit<SyncResult, 'remaining'>> {
         const conflicts: ConflictItem[] = [];
         const errors: ErrorItem[] = [];
         let uploaded = 0;
@@ -331,7 +966,8 @@ class SyncService {
         for (const result of results) {
             switch (result.status) {
                 case 'accepted':
-                    // Mark as synced
+                    // Adopt the server's award before marking as synced
+                    await this.reconcileAwardedPoints(result);
                     await updateHabitLogStatus(result.id, 'synced', result.serverId);
                     uploaded++;
                     break;
@@ -361,20 +997,17 @@ class SyncService {
                     }
                     break;
 
-                case 'error':
-                    // Mark as failed
-                    await updateHabitLogStatus(
-                        result.id,
-                        'failed',
-                        undefined,
-                        result.message || 'Server error'
-                    );
+                case 'error': {
+                    const message = result.message || 'Server error';
+                    const nextAttemptAt = await this.scheduleRetry(result, message);
 
                     errors.push({
                         id: result.id,
                         message: result.message || 'Unknown error',
+                        nextAttemptAt: nextAttemptAt ?? undefined,
                     });
                     break;
+                }
             }
         }
 
@@ -0,0 +1,59 @@
+import type { AccountExport } from "@/contexts/auth-context";
+import { getAllHabitLogs } from "@/services/database";
+import { File, Paths } from "expo-file-system";
+import { Platform, Share } from "react-native";
+
+/**
+ * Build and save a JSON export of the user's data
+ * Combines the server account document with the local SQLite habits_queue,
+ * then hands the file to the platform share sheet (or downloads it on web).
+ *
+ * @param serverData Account export from Convex, or null in demo mode
+ * @returns The saved file name
+ */
+export async function exportUserData(
+    serverData: AccountExport | null
+): Promise<string> {
+    const localQueue = await getAllHabitLogs();
+
+    const document = {
+        exportedAt: new Date().toISOString(),
+        server: serverData,
+        local: {
+            habitsQueue: localQueue.map((item) => ({
+                ...item,
+                payload: JSON.parse(item.payload_json),
+            })),
+        },
+    };
+
+    const json = JSON.stringify(document, null, 2);
+    const fileName = `econest-export-${new Date().toISOString().split("T")[0]}.json`;
+
+    if (Platform.OS === "web") {
+        // Web: trigger a browser download
+        const blob = new Blob([json], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const link = window.document.createElement("a");
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+        return fileName;
+    }
+
+    const file = new File(Paths.document, fileName);
+    if (file.exists) {
+        file.delete();
+    }
+    file.create();
+    file.write(json);
+
+    await Share.share(
+        Platform.OS === "ios"
+            ? { url: file.uri, title: "EcoNest data export" }
+            : { message: json, title: "EcoNest data export" }
+    );
+
+    return fileName;
+}
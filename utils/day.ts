@@ -0,0 +1,130 @@
+// Calendar-day helpers shared by habit logging, streaks, charts and
+// leaderboard periods. Keep the rules in step with convex/streaks.ts and
+// convex/periods.ts, which recompute days server-side from the time zone
+// sent with each synced log.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A skipped calendar day is forgiven when the time zone changed between two
+// logs that are at most this far apart (e.g. flying east across the date line)
+const TRAVEL_GAP_MS = 48 * 60 * 60 * 1000;
+
+/**
+ * A log reduced to what streak math needs
+ */
+export interface DayLog {
+    day: string; // YYYY-MM-DD in the log's own time zone
+    loggedAt: number;
+    timeZone?: string | null;
+}
+
+/**
+ * Get the device's current IANA time zone, e.g. "Europe/Berlin"
+ */
+export function getDeviceTimeZone(): string {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+        return 'UTC';
+    }
+}
+
+/**
+ * Get the YYYY-MM-DD day a timestamp falls on in a time zone
+ * Defaults to the device's current zone.
+ */
+export function getDayString(
+    timestamp: number,
+    timeZone: string = getDeviceTimeZone()
+): string {
+    try {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+        }).formatToParts(new Date(timestamp));
+
+        const part = (type: string) =>
+            parts.find((p) => p.type === type)?.value ?? '';
+
+        return `${part('year')}-${part('month')}-${part('day')}`;
+    } catch {
+        // Fall back to the device's local calendar if the zone is unknown
+        const date = new Date(timestamp);
+        const month = String(date.getMonth() + 1).padStart(2, '0');
+        const day = String(date.getDate()).padStart(2, '0');
+        return `${date.getFullYear()}-${month}-${day}`;
+    }
+}
+
+/**
+ * Shift a YYYY-MM-DD day by a number of calendar days
+ */
+export function addDays(day: string, days: number): string {
+    return new Date(Date.parse(`${day}T00:00:00.000Z`) + days * DAY_MS)
+        .toISOString()
+        .split('T')[0];
+}
+
+/**
+ * Get the last millisecond of a YYYY-MM-DD day in the device's local time
+ * Backfilled logs are stamped with this, the latest moment of their day.
+ */
+export function getDayEndTimestamp(day: string): number {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date + 1).getTime() - 1;
+}
+
+/**
+ * Ranking windows with their own aggregates; 'all' is all-time points
+ */
+export type Period = 'day' | 'week' | 'month';
+export type LeaderboardPeriod = Period | 'all';
+
+/**
+ * Get the ISO 8601 week a YYYY-MM-DD day falls in, e.g. "2026-W42"
+ */
+function getIsoWeekId(day: string): string {
+    const date = new Date(Date.parse(`${day}T00:00:00.000Z`));
+    const weekday = date.getUTCDay() || 7; // Monday = 1 ... Sunday = 7
+
+    // The Thursday of this week decides which year the week belongs to
+    date.setUTCDate(date.getUTCDate() + 4 - weekday);
+    const year = date.getUTCFullYear();
+    const week = Math.ceil(((date.getTime() - Date.UTC(year, 0, 1)) / DAY_MS + 1) / 7);
+
+    return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Get the id of the period a YYYY-MM-DD day falls in
+ * Matches convex/periods.ts: "2026-10-19", "2026-W43" or "2026-10"
+ */
+export function getPeriodId(period: Period, day: string = getDayString(Date.now())): string {
+    switch (period) {
+        case 'day':
+            return day;
+        case 'week':
+            return getIsoWeekId(day);
+        case 'month':
+            return day.slice(0, 7);
+    }
+}
+
+/**
+ * Decide whether `next` extends a streak that ended with `prev`
+ * Consecutive calendar days always count. A single missing day also counts
+ * when the time zone changed and the logs are under 48 hours apart.
+ */
+export function continuesStreak(prev: DayLog, next: DayLog): boolean {
+    if (addDays(prev.day, 1) === next.day) {
+        return true;
+    }
+
+    return (
+        addDays(prev.day, 2) === next.day &&
+        (prev.timeZone ?? null) !== (next.timeZone ?? null) &&
+        next.loggedAt - prev.loggedAt <= TRAVEL_GAP_MS
+    );
+}
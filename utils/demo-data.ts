@@ -4,6 +4,7 @@ import {
     updateStreakData,
     updateUserStats
 } from '@/services/database';
+import { getDayString } from '@/utils/day';
 import { v4 as uuidv4 } from 'uuid';
 
 // ============================================================================
@@ -303,7 +304,7 @@ export function generateDemoFriendsLeaderboard() {
  * Populate demo streaks for habit types
  */
 export async function populateDemoStreaks(): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getDayString(Date.now());
 
     // Create realistic streaks for different habits
     const streaks = [
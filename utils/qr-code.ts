@@ -0,0 +1,527 @@
+/**
+ * QR Code Encoder
+ * Encodes text as a QR code symbol (byte mode, error correction level M,
+ * versions 1-10, up to 213 bytes) following ISO/IEC 18004. Rendering is
+ * left to the caller; see components/ui/qr-code.tsx.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 10;
+
+// Error correction level M, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+// Format information bits for level M
+const ECC_FORMAT_BITS = 0;
+
+// Byte mode indicator and pad codewords
+const BYTE_MODE_INDICATOR = 0x4;
+const PAD_CODEWORDS = [0xec, 0x11];
+
+// Mask penalty weights
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+// Dark-light-dark-dark-dark-light-dark with four light modules on one side
+const FINDER_LIKE_PATTERNS = [
+    [true, false, true, true, true, false, true, false, false, false, false],
+    [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+/**
+ * Square grid of modules, indexed [row][column]; true is dark
+ */
+export type QrModules = boolean[][];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getBit(value: number, index: number): boolean {
+    return ((value >>> index) & 1) !== 0;
+}
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+function toUtf8Bytes(text: string): number[] {
+    const bytes: number[] = [];
+    for (const char of text) {
+        const codePoint = char.codePointAt(0)!;
+        if (codePoint < 0x80) {
+            bytes.push(codePoint);
+        } else if (codePoint < 0x800) {
+            bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+        } else if (codePoint < 0x10000) {
+            bytes.push(
+                0xe0 | (codePoint >> 12),
+                0x80 | ((codePoint >> 6) & 0x3f),
+                0x80 | (codePoint & 0x3f)
+            );
+        } else {
+            bytes.push(
+                0xf0 | (codePoint >> 18),
+                0x80 | ((codePoint >> 12) & 0x3f),
+                0x80 | ((codePoint >> 6) & 0x3f),
+                0x80 | (codePoint & 0x3f)
+            );
+        }
+    }
+    return bytes;
+}
+
+/**
+ * Modules available for data and error correction in a version
+ */
+function getNumRawDataModules(version: number): number {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const numAlign = Math.floor(version / 7) + 2;
+        result -= (25 * numAlign - 10) * numAlign - 55;
+        if (version >= 7) {
+            result -= 36;
+        }
+    }
+    return result;
+}
+
+function getNumDataCodewords(version: number): number {
+    return (
+        Math.floor(getNumRawDataModules(version) / 8) -
+        ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version]
+    );
+}
+
+function getCharCountBits(version: number): number {
+    return version <= 9 ? 8 : 16;
+}
+
+function getAlignmentPatternPositions(version: number): number[] {
+    if (version === 1) return [];
+
+    const size = version * 4 + 17;
+    const numAlign = Math.floor(version / 7) + 2;
+    const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+    const positions = [6];
+    for (let pos = size - 7; positions.length < numAlign; pos -= step) {
+        positions.splice(1, 0, pos);
+    }
+    return positions;
+}
+
+// ============================================================================
+// Reed-Solomon Error Correction
+// ============================================================================
+
+/**
+ * Multiply in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+ */
+function gfMultiply(x: number, y: number): number {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z & 0xff;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+    const result = new Array<number>(degree).fill(0);
+    result[degree - 1] = 1;
+
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < result.length) {
+                result[j] ^= result[j + 1];
+            }
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+    const result = new Array<number>(divisor.length).fill(0);
+    for (const byte of data) {
+        const factor = byte ^ result.shift()!;
+        result.push(0);
+        divisor.forEach((coefficient, i) => {
+            result[i] ^= gfMultiply(coefficient, factor);
+        });
+    }
+    return result;
+}
+
+/**
+ * Split data into blocks, append each block's error correction codewords
+ * and interleave the blocks
+ */
+function addEccAndInterleave(data: number[], version: number): number[] {
+    const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+    const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+    const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+    const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+    const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+    const divisor = reedSolomonDivisor(blockEccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, offset = 0; i < numBlocks; i++) {
+        const blockData = data.slice(
+            offset,
+            offset + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1)
+        );
+        offset += blockData.length;
+        const ecc = reedSolomonRemainder(blockData, divisor);
+        if (i < numShortBlocks) {
+            blockData.push(0);
+        }
+        blocks.push(blockData.concat(ecc));
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            // Skip the padding byte added to short blocks
+            if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+                result.push(block[i]);
+            }
+        });
+    }
+    return result;
+}
+
+// ============================================================================
+// Data Encoding
+// ============================================================================
+
+/**
+ * Build the data codewords: mode, length, bytes, terminator and padding
+ */
+function encodeDataCodewords(bytes: number[], version: number): number[] {
+    const bits: number[] = [];
+    const appendBits = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) {
+            bits.push((value >>> i) & 1);
+        }
+    };
+
+    appendBits(BYTE_MODE_INDICATOR, 4);
+    appendBits(bytes.length, getCharCountBits(version));
+    bytes.forEach((byte) => appendBits(byte, 8));
+
+    const capacityBits = getNumDataCodewords(version) * 8;
+    appendBits(0, Math.min(4, capacityBits - bits.length));
+    appendBits(0, (8 - (bits.length % 8)) % 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    }
+    for (let i = 0; codewords.length < capacityBits / 8; i++) {
+        codewords.push(PAD_CODEWORDS[i % 2]);
+    }
+    return codewords;
+}
+
+// ============================================================================
+// Symbol Construction
+// ============================================================================
+
+class QrSymbol {
+    readonly size: number;
+    readonly modules: QrModules;
+    private readonly isFunction: boolean[][];
+
+    constructor(private readonly version: number) {
+        this.size = version * 4 + 17;
+        this.modules = Array.from({ length: this.size }, () =>
+            new Array<boolean>(this.size).fill(false)
+        );
+        this.isFunction = Array.from({ length: this.size }, () =>
+            new Array<boolean>(this.size).fill(false)
+        );
+    }
+
+    drawFunctionPatterns(): void {
+        for (let i = 0; i < this.size; i++) {
+            this.setFunctionModule(6, i, i % 2 === 0);
+            this.setFunctionModule(i, 6, i % 2 === 0);
+        }
+
+        this.drawFinderPattern(3, 3);
+        this.drawFinderPattern(this.size - 4, 3);
+        this.drawFinderPattern(3, this.size - 4);
+
+        const positions = getAlignmentPatternPositions(this.version);
+        const last = positions.length - 1;
+        positions.forEach((x, i) => {
+            positions.forEach((y, j) => {
+                // Corners with finder patterns get no alignment pattern
+                if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+                    return;
+                }
+                this.drawAlignmentPattern(x, y);
+            });
+        });
+
+        // Reserve the format areas; the real bits depend on the mask
+        this.drawFormatBits(0);
+        this.drawVersionBits();
+    }
+
+    /**
+     * Place codewords in the zigzag order, skipping function modules
+     */
+    drawCodewords(codewords: number[]): void {
+        let bitIndex = 0;
+        for (let right = this.size - 1; right >= 1; right -= 2) {
+            // The vertical timing pattern column is skipped
+            if (right === 6) right = 5;
+
+            for (let vertical = 0; vertical < this.size; vertical++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j;
+                    const upward = ((right + 1) & 2) === 0;
+                    const y = upward ? this.size - 1 - vertical : vertical;
+                    if (!this.isFunction[y][x] && bitIndex < codewords.length * 8) {
+                        this.modules[y][x] = getBit(
+                            codewords[bitIndex >>> 3],
+                            7 - (bitIndex & 7)
+                        );
+                        bitIndex++;
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * XOR a mask pattern over the data modules (applying twice undoes it)
+     */
+    applyMask(mask: number): void {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (!this.isFunction[y][x] && isMasked(mask, x, y)) {
+                    this.modules[y][x] = !this.modules[y][x];
+                }
+            }
+        }
+    }
+
+    drawFormatBits(mask: number): void {
+        const data = (ECC_FORMAT_BITS << 3) | mask;
+        let remainder = data;
+        for (let i = 0; i < 10; i++) {
+            remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        }
+        const bits = ((data << 10) | remainder) ^ 0x5412;
+
+        // Around the top-left finder
+        for (let i = 0; i <= 5; i++) {
+            this.setFunctionModule(8, i, getBit(bits, i));
+        }
+        this.setFunctionModule(8, 7, getBit(bits, 6));
+        this.setFunctionModule(8, 8, getBit(bits, 7));
+        this.setFunctionModule(7, 8, getBit(bits, 8));
+        for (let i = 9; i < 15; i++) {
+            this.setFunctionModule(14 - i, 8, getBit(bits, i));
+        }
+
+        // Split between the other two finders
+        for (let i = 0; i < 8; i++) {
+            this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+        }
+        for (let i = 8; i < 15; i++) {
+            this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+        }
+        this.setFunctionModule(8, this.size - 8, true);
+    }
+
+    /**
+     * Penalty score of the current modules; lower scans more reliably
+     */
+    getPenaltyScore(): number {
+        let penalty = 0;
+        const columns = this.modules.map((_, x) => this.modules.map((row) => row[x]));
+
+        for (const line of [...this.modules, ...columns]) {
+            penalty += getRunPenalty(line) + getFinderLikePenalty(line);
+        }
+
+        for (let y = 0; y < this.size - 1; y++) {
+            for (let x = 0; x < this.size - 1; x++) {
+                const color = this.modules[y][x];
+                if (
+                    color === this.modules[y][x + 1] &&
+                    color === this.modules[y + 1][x] &&
+                    color === this.modules[y + 1][x + 1]
+                ) {
+                    penalty += PENALTY_N2;
+                }
+            }
+        }
+
+        const dark = this.modules.reduce(
+            (count, row) => count + row.filter(Boolean).length,
+            0
+        );
+        const total = this.size * this.size;
+        const deviation = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+        penalty += Math.max(0, deviation) * PENALTY_N4;
+
+        return penalty;
+    }
+
+    private drawVersionBits(): void {
+        if (this.version < 7) return;
+
+        let remainder = this.version;
+        for (let i = 0; i < 12; i++) {
+            remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+        }
+        const bits = (this.version << 12) | remainder;
+
+        for (let i = 0; i < 18; i++) {
+            const bit = getBit(bits, i);
+            const a = this.size - 11 + (i % 3);
+            const b = Math.floor(i / 3);
+            this.setFunctionModule(a, b, bit);
+            this.setFunctionModule(b, a, bit);
+        }
+    }
+
+    private drawFinderPattern(centerX: number, centerY: number): void {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                const x = centerX + dx;
+                const y = centerY + dy;
+                if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+                    this.setFunctionModule(x, y, distance !== 2 && distance !== 4);
+                }
+            }
+        }
+    }
+
+    private drawAlignmentPattern(centerX: number, centerY: number): void {
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) {
+                this.setFunctionModule(
+                    centerX + dx,
+                    centerY + dy,
+                    Math.max(Math.abs(dx), Math.abs(dy)) !== 1
+                );
+            }
+        }
+    }
+
+    private setFunctionModule(x: number, y: number, dark: boolean): void {
+        this.modules[y][x] = dark;
+        this.isFunction[y][x] = true;
+    }
+}
+
+function isMasked(mask: number, x: number, y: number): boolean {
+    switch (mask) {
+        case 0: return (x + y) % 2 === 0;
+        case 1: return y % 2 === 0;
+        case 2: return x % 3 === 0;
+        case 3: return (x + y) % 3 === 0;
+        case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+        case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+        case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+        default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+    }
+}
+
+/**
+ * Penalize runs of five or more same-colored modules
+ */
+function getRunPenalty(line: boolean[]): number {
+    let penalty = 0;
+    let runLength = 1;
+    for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+            runLength++;
+            continue;
+        }
+        if (runLength >= 5) {
+            penalty += PENALTY_N1 + (runLength - 5);
+        }
+        runLength = 1;
+    }
+    return penalty;
+}
+
+/**
+ * Penalize patterns that look like a finder to a scanner
+ */
+function getFinderLikePenalty(line: boolean[]): number {
+    let penalty = 0;
+    for (const pattern of FINDER_LIKE_PATTERNS) {
+        for (let start = 0; start + pattern.length <= line.length; start++) {
+            if (pattern.every((dark, i) => line[start + i] === dark)) {
+                penalty += PENALTY_N3;
+            }
+        }
+    }
+    return penalty;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Encode text as a QR code
+ * Picks the smallest version that fits and the mask with the lowest penalty.
+ * @param text Text to encode (UTF-8)
+ * @returns Module grid without the quiet zone
+ */
+export function encodeQrCode(text: string): QrModules {
+    const bytes = toUtf8Bytes(text);
+
+    let version = MIN_VERSION;
+    while (
+        4 + getCharCountBits(version) + bytes.length * 8 >
+        getNumDataCodewords(version) * 8
+    ) {
+        if (version === MAX_VERSION) {
+            throw new Error('Text is too long for a QR code');
+        }
+        version++;
+    }
+
+    const codewords = addEccAndInterleave(encodeDataCodewords(bytes, version), version);
+
+    const symbol = new QrSymbol(version);
+    symbol.drawFunctionPatterns();
+    symbol.drawCodewords(codewords);
+
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+        symbol.applyMask(mask);
+        symbol.drawFormatBits(mask);
+        const penalty = symbol.getPenaltyScore();
+        if (penalty < bestPenalty) {
+            bestMask = mask;
+            bestPenalty = penalty;
+        }
+        symbol.applyMask(mask);
+    }
+
+    symbol.applyMask(bestMask);
+    symbol.drawFormatBits(bestMask);
+
+    return symbol.modules;
+}